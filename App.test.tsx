@@ -1,6 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import App from './App';
+import { createDefaultSettings, encodePreset, loadSettings, saveSettings } from './utils/settings';
+import { BackgroundMode } from './types';
 
 describe('App', () => {
     it('renders without crashing', () => {
@@ -9,4 +11,21 @@ describe('App', () => {
         // Since we can't run it, we'll just check if it renders successfully.
         expect(document.body).toBeInTheDocument();
     });
+
+    describe('with a preset in the URL', () => {
+        afterEach(() => {
+            window.history.pushState({}, '', '/');
+            localStorage.clear();
+        });
+
+        it('should not overwrite the settings saved in this browser', () => {
+            saveSettings({ ...createDefaultSettings(), bgMode: BackgroundMode.GREEN });
+            const obs = { name: 'OBS', settings: { ...createDefaultSettings(), bgMode: BackgroundMode.MAGENTA } };
+            window.history.pushState({}, '', `/?settings=${encodePreset(obs)}`);
+
+            render(<App />);
+
+            expect(loadSettings().bgMode).toBe(BackgroundMode.GREEN);
+        });
+    });
 });
@@ -1,68 +1,196 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { ControlPanel } from './components/ControlPanel';
 import { SubtitleDisplay } from './components/SubtitleDisplay';
+import { Toast } from './components/Toast';
 import { useGeminiLive } from './hooks/useGeminiLive';
-import { BackgroundMode, TextStyle, TranslationConfig, Persona, FontFamily } from './types';
+import { downloadTranscript } from './utils/transcript';
+import { backgroundColor } from './utils/theme';
+import { loadSettings, saveSettings, loadPresets, savePresets, upsertPreset, presetFromUrl } from './utils/settings';
+import { BackgroundMode, TextStyle, TranslationConfig, FontFamily, TranscriptFormat, DisplayMode, ConversationMode, Speaker, TtsSource, AppSettings, SettingsPreset, SubtitleTheme } from './types';
+
+// A preset in the URL (e.g. an OBS browser source) wins over what this browser saved last time
+const resolveInitialSettings = (presets: SettingsPreset[]): { settings: AppSettings; fromUrl: boolean } => {
+  const urlPreset = presetFromUrl(window.location.search, presets);
+  return urlPreset ? { settings: urlPreset.settings, fromUrl: true } : { settings: loadSettings(), fromUrl: false };
+};
 
 const App: React.FC = () => {
+  const [presets, setPresets] = useState<SettingsPreset[]>(loadPresets);
+  const [{ settings: initialSettings, fromUrl }] = useState(() => resolveInitialSettings(presets));
+
   // App State
-  const [bgMode, setBgMode] = useState<BackgroundMode>(BackgroundMode.NORMAL);
-  const [textStyle, setTextStyle] = useState<TextStyle>(TextStyle.OUTLINE);
-  const [outlineColor, setOutlineColor] = useState<string>('#000000');
-  const [sourceFont, setSourceFont] = useState<FontFamily>(FontFamily.DEFAULT);
-  const [targetFont, setTargetFont] = useState<FontFamily>(FontFamily.NOTO_SANS);
-  const [config, setConfig] = useState<TranslationConfig>({
-    sourceLang: 'Japanese',
-    targetLang: 'English',
-    persona: Persona.NONE
-  });
-  const [playAudio, setPlayAudio] = useState(false);
+  const [bgMode, setBgMode] = useState<BackgroundMode>(initialSettings.bgMode);
+  const [textStyle, setTextStyle] = useState<TextStyle>(initialSettings.textStyle);
+  const [outlineColor, setOutlineColor] = useState<string>(initialSettings.outlineColor);
+  const [theme, setTheme] = useState<SubtitleTheme>(initialSettings.theme);
+  const [sourceFont, setSourceFont] = useState<FontFamily>(initialSettings.sourceFont);
+  const [targetFont, setTargetFont] = useState<FontFamily>(initialSettings.targetFont);
+  const [config, setConfig] = useState<TranslationConfig>(initialSettings.config);
+  const [playAudio, setPlayAudio] = useState(initialSettings.playAudio);
+  const [ttsSource, setTtsSource] = useState<TtsSource>(initialSettings.ttsSource);
+  const [ttsVoices, setTtsVoices] = useState<Record<string, string>>(initialSettings.ttsVoices);
+  const [displayMode, setDisplayMode] = useState<DisplayMode>(initialSettings.displayMode);
+  const [logLines, setLogLines] = useState(initialSettings.logLines);
+  const [maxAgeSeconds, setMaxAgeSeconds] = useState(initialSettings.maxAgeSeconds);
+  const [roomName, setRoomName] = useState('');
 
   // Logic Hook
   const {
     isConnected,
     isConnecting,
+    isReconnecting,
     isListening,
     error,
+    toast,
+    dismissToast,
     currentText,
+    currentRequestId,
+    extraTexts,
     inputText,
     interimText,
     isRawMode,
     setIsRawMode,
     localAIStatus,
+    activeEngine,
+    quota,
+    cacheStats,
+    transcript,
+    sessionStartedAt,
+    sessionId,
+    roomStatus,
+    activeSpeaker,
+    setActiveSpeaker,
+    updateConfig,
+    updateOverlaySettings,
+    updateSpeechSettings,
+    isSpeaking,
+    browserVoices,
+    serverVoices,
+    glossary,
+    updateGlossary,
+    personas,
+    personaPreview,
+    personaError,
+    savePersona,
+    deletePersona,
+    previewPersona,
     connect,
     disconnect,
     simulateVoiceInput
   } = useGeminiLive();
 
+  useEffect(() => {
+    setIsRawMode(initialSettings.isRawMode);
+  }, [setIsRawMode, initialSettings]);
+
+  const settings: AppSettings = {
+    bgMode, textStyle, outlineColor, theme, sourceFont, targetFont, displayMode, logLines, maxAgeSeconds,
+    config, isRawMode, playAudio, ttsSource, ttsVoices
+  };
+
+  // Every change is kept, so a reload comes back exactly as it was left.
+  // Not for a page opened from a preset URL: it would overwrite this browser's own settings.
+  useEffect(() => {
+    if (!fromUrl) saveSettings(settings);
+  }, [fromUrl, bgMode, textStyle, outlineColor, theme, sourceFont, targetFont, displayMode, logLines, maxAgeSeconds, config, isRawMode, playAudio, ttsSource, ttsVoices]);
+
+  const applySettings = (next: AppSettings) => {
+    setBgMode(next.bgMode);
+    setTextStyle(next.textStyle);
+    setOutlineColor(next.outlineColor);
+    setTheme(next.theme);
+    setSourceFont(next.sourceFont);
+    setTargetFont(next.targetFont);
+    setDisplayMode(next.displayMode);
+    setLogLines(next.logLines);
+    setMaxAgeSeconds(next.maxAgeSeconds);
+    // Languages and persona switch live; the rest of the config applies from the next start
+    setConfig(next.config);
+    setIsRawMode(next.isRawMode);
+    setPlayAudio(next.playAudio);
+    setTtsSource(next.ttsSource);
+    setTtsVoices(next.ttsVoices);
+  };
+
+  const updatePresets = (next: SettingsPreset[]) => {
+    setPresets(next);
+    savePresets(next);
+  };
+
+  const handleSavePreset = (name: string) => updatePresets(upsertPreset(presets, { name, settings }));
+
+  const handleApplyPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (preset) applySettings(preset.settings);
+  };
+
+  const handleDeletePreset = (name: string) => updatePresets(presets.filter(p => p.name !== name));
+
+  // Imported presets replace saved ones with the same name
+  const handleImportPresets = (imported: SettingsPreset[]) =>
+    updatePresets(imported.reduce(upsertPreset, presets));
+
+  // Keep OBS overlays subscribed to this session in sync with the look of the controller
+  useEffect(() => {
+    updateOverlaySettings({ textStyle, outlineColor, theme, sourceFont, targetFont, displayMode, logLines, maxAgeSeconds });
+  }, [updateOverlaySettings, textStyle, outlineColor, theme, sourceFont, targetFont, displayMode, logLines, maxAgeSeconds]);
+
+  // Speech output can be switched on, off or to another voice mid-session
+  useEffect(() => {
+    updateSpeechSettings({ enabled: playAudio, source: ttsSource, voices: ttsVoices });
+  }, [updateSpeechSettings, playAudio, ttsSource, ttsVoices]);
+
+  // Languages and persona apply to a running session without reconnecting
+  useEffect(() => {
+    updateConfig({ sourceLang: config.sourceLang, targetLang: config.targetLang, persona: config.persona });
+  }, [updateConfig, config.sourceLang, config.targetLang, config.persona]);
+
+  // Push-to-talk shortcuts: 1 = speaker A, 2 = speaker B
+  useEffect(() => {
+    if (!isConnected || config.conversationMode !== ConversationMode.PUSH_TO_TALK) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'SELECT' || target.tagName === 'TEXTAREA') return;
+      if (e.key === '1') setActiveSpeaker('A');
+      if (e.key === '2') setActiveSpeaker('B');
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isConnected, config.conversationMode, setActiveSpeaker]);
+
+  const isConversation = config.conversationMode !== ConversationMode.OFF;
+  const speakerLanguages: Record<Speaker, string> = { A: config.sourceLang, B: config.targetLang };
+
   const handleConnect = () => {
     connect({
       sourceLang: config.sourceLang,
       targetLang: config.targetLang,
       persona: config.persona,
-      playAudio
+      extraTargetLangs: config.extraTargetLangs,
+      conversationMode: config.conversationMode,
+      recognitionSource: config.recognitionSource,
+      playAudio,
+      room: roomName
     });
   };
 
-  // Determine background color style
-  const getBgStyle = () => {
-    switch (bgMode) {
-      case BackgroundMode.GREEN: return '#00FF00';
-      case BackgroundMode.BLUE: return '#0000FF';
-      case BackgroundMode.MAGENTA: return '#FF00FF';
-      default: return '#111827'; // Tailwind gray-900
-    }
+  const handleDownloadTranscript = (format: TranscriptFormat) => {
+    if (transcript.length === 0) return;
+    downloadTranscript(format, transcript, sessionStartedAt ?? transcript[0].startedAt);
   };
 
   return (
     <div
       className="relative w-screen h-screen overflow-hidden transition-colors duration-500"
-      style={{ backgroundColor: getBgStyle() }}
+      style={{ backgroundColor: backgroundColor(bgMode, theme.chromaColor) }}
     >
+      <Toast message={toast} onDismiss={dismissToast} />
+
       {/* Controls Overlay */}
       <ControlPanel
         isConnected={isConnected}
         isConnecting={isConnecting}
+        isReconnecting={isReconnecting}
         onConnect={handleConnect}
         onDisconnect={disconnect}
         bgMode={bgMode}
@@ -71,18 +199,57 @@ const App: React.FC = () => {
         setTextStyle={setTextStyle}
         outlineColor={outlineColor}
         setOutlineColor={setOutlineColor}
+        theme={theme}
+        setTheme={setTheme}
         sourceFont={sourceFont}
         setSourceFont={setSourceFont}
         targetFont={targetFont}
         setTargetFont={setTargetFont}
+        displayMode={displayMode}
+        setDisplayMode={setDisplayMode}
+        logLines={logLines}
+        setLogLines={setLogLines}
+        maxAgeSeconds={maxAgeSeconds}
+        setMaxAgeSeconds={setMaxAgeSeconds}
         config={config}
         setConfig={setConfig}
         playAudio={playAudio}
         setPlayAudio={setPlayAudio}
+        ttsSource={ttsSource}
+        setTtsSource={setTtsSource}
+        ttsVoices={ttsVoices}
+        setTtsVoices={setTtsVoices}
+        presets={presets}
+        onSavePreset={handleSavePreset}
+        onApplyPreset={handleApplyPreset}
+        onDeletePreset={handleDeletePreset}
+        onImportPresets={handleImportPresets}
+        browserVoices={browserVoices}
+        serverVoices={serverVoices}
+        isSpeaking={isSpeaking}
+        glossary={glossary}
+        onUpdateGlossary={updateGlossary}
+        personas={personas}
+        personaPreview={personaPreview}
+        personaError={personaError}
+        onSavePersona={savePersona}
+        onDeletePersona={deletePersona}
+        onPreviewPersona={previewPersona}
         isRawMode={isRawMode}
         setIsRawMode={setIsRawMode}
         error={error}
         localAIStatus={localAIStatus}
+        activeEngine={activeEngine}
+        quota={quota}
+        cacheStats={cacheStats}
+        transcript={transcript}
+        onDownloadTranscript={handleDownloadTranscript}
+        sessionId={sessionId}
+        roomName={roomName}
+        setRoomName={setRoomName}
+        roomStatus={roomStatus}
+        activeSpeaker={activeSpeaker}
+        setActiveSpeaker={setActiveSpeaker}
         simulateVoiceInput={simulateVoiceInput}
       />
 
@@ -96,8 +263,19 @@ const App: React.FC = () => {
           bgMode={bgMode}
           textStyle={textStyle}
           outlineColor={outlineColor}
+          theme={theme}
           sourceFont={sourceFont}
           targetFont={targetFont}
+          extraTexts={config.extraTargetLangs
+            .filter(lang => extraTexts[lang])
+            .map(lang => ({ lang, text: extraTexts[lang] }))}
+          displayMode={displayMode}
+          speakerLanguages={isConversation ? speakerLanguages : undefined}
+          currentSpeaker={transcript.find(entry => entry.id === currentRequestId)?.speaker ?? transcript[transcript.length - 1]?.speaker ?? null}
+          history={transcript}
+          currentRequestId={currentRequestId}
+          logLines={logLines}
+          maxAgeSeconds={maxAgeSeconds}
         />
       </main>
     </div>
@@ -0,0 +1,70 @@
+import React from 'react';
+import { SubtitleDisplay } from './components/SubtitleDisplay';
+import { useOverlaySubscription } from './hooks/useOverlaySubscription';
+import { BackgroundMode, TextStyle, FontFamily, DisplayMode } from './types';
+
+/**
+ * OBS browser source: subtitles only, on a transparent page, mirroring the
+ * controller session given by `?session=`.
+ */
+const Overlay: React.FC = () => {
+  const sessionId = new URLSearchParams(window.location.search).get('session');
+
+  const {
+    error,
+    currentText,
+    currentRequestId,
+    extraTexts,
+    extraLangs,
+    inputText,
+    interimText,
+    history,
+    settings
+  } = useOverlaySubscription(sessionId);
+
+  // Conversation mode: recover each party's language from the latest utterance
+  const latest = history[history.length - 1];
+  const speakerLanguages = latest?.speaker
+    ? latest.speaker === 'A'
+      ? { A: latest.sourceLang, B: latest.targetLang }
+      : { A: latest.targetLang, B: latest.sourceLang }
+    : undefined;
+  const currentSpeaker = history.find(entry => entry.id === currentRequestId)?.speaker ?? latest?.speaker ?? null;
+
+  return (
+    <div className="relative w-screen h-screen overflow-hidden bg-transparent">
+      {error && (
+        <div className="absolute top-2 left-2 z-10 bg-red-900/80 text-red-100 text-xs px-2 py-1 rounded">
+          {error}
+        </div>
+      )}
+
+      <main className="absolute inset-0 z-0">
+        <SubtitleDisplay
+          text={currentText}
+          inputText={inputText}
+          interimText={interimText}
+          bgMode={BackgroundMode.TRANSPARENT}
+          textStyle={settings?.textStyle ?? TextStyle.OUTLINE}
+          outlineColor={settings?.outlineColor ?? '#000000'}
+          theme={settings?.theme}
+          sourceFont={settings?.sourceFont ?? FontFamily.DEFAULT}
+          targetFont={settings?.targetFont ?? FontFamily.NOTO_SANS}
+          extraTexts={extraLangs
+            .filter(lang => extraTexts[lang])
+            .map(lang => ({ lang, text: extraTexts[lang] }))}
+          displayMode={settings?.displayMode ?? DisplayMode.SINGLE}
+          speakerLanguages={speakerLanguages}
+          currentSpeaker={currentSpeaker}
+          history={history}
+          currentRequestId={currentRequestId}
+          logLines={settings?.logLines}
+          maxAgeSeconds={settings?.maxAgeSeconds}
+          showIdleHint={false}
+        />
+      </main>
+    </div>
+  );
+};
+
+export default Overlay;
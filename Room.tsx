@@ -0,0 +1,83 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Users } from 'lucide-react';
+import { useRoomSubscription } from './hooks/useRoomSubscription';
+
+const languages = [
+  { code: '', label: '配信者と同じ' },
+  { code: 'Japanese', label: '日本語' },
+  { code: 'English', label: 'English' },
+  { code: 'Spanish', label: 'Español' },
+  { code: 'Chinese', label: '中文' },
+  { code: 'Korean', label: '한국어' },
+  { code: 'French', label: 'Français' },
+  { code: 'German', label: 'Deutsch' },
+];
+
+/**
+ * Viewer page for a broadcast room (`/room?name=…&lang=…`), meant for phones.
+ */
+const Room: React.FC = () => {
+  const params = new URLSearchParams(window.location.search);
+  const room = params.get('name');
+  const [targetLang, setTargetLang] = useState(params.get('lang') || '');
+  const { isConnected, error, lines, status } = useRoomSubscription(room, targetLang || null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [lines]);
+
+  const changeLanguage = (lang: string) => {
+    setTargetLang(lang);
+    // Keep the choice in the URL so a reload or a shared link opens the same language
+    const url = new URL(window.location.href);
+    if (lang) url.searchParams.set('lang', lang);
+    else url.searchParams.delete('lang');
+    window.history.replaceState(null, '', url.toString());
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col">
+      <header className="sticky top-0 bg-gray-900/95 backdrop-blur-sm border-b border-gray-700 px-4 py-3 flex items-center gap-3">
+        <span className={`inline-block w-2 h-2 rounded-full ${isConnected ? 'bg-emerald-400' : 'bg-gray-500'}`} />
+        <h1 className="font-bold truncate flex-1">{room || 'LiveTranslate'}</h1>
+        {status && (
+          <span className="flex items-center gap-1 text-xs text-gray-400">
+            <Users size={14} /> {status.viewers}
+          </span>
+        )}
+        <select
+          value={targetLang}
+          onChange={(e) => changeLanguage(e.target.value)}
+          className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm outline-none"
+        >
+          {languages.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+        </select>
+      </header>
+
+      {error && (
+        <div className="bg-red-900/50 border-b border-red-500 text-red-200 px-4 py-2 text-sm">{error}</div>
+      )}
+
+      <main className="flex-1 px-4 py-4 space-y-4">
+        {lines.length === 0 && !error && (
+          <p className="text-center text-gray-500 mt-16">
+            {isConnected ? '配信者の発言を待っています...' : '接続中...'}
+          </p>
+        )}
+        {lines.map(line => (
+          <div key={line.id} className="space-y-1">
+            <p className="text-sm text-gray-400">
+              {line.speaker && <span className="font-bold text-gray-300 mr-2">{line.speaker}</span>}
+              {line.sourceText}
+            </p>
+            <p className="text-lg leading-snug">{line.translation ?? '...'}</p>
+          </div>
+        ))}
+        <div ref={bottomRef} />
+      </main>
+    </div>
+  );
+};
+
+export default Room;
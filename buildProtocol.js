@@ -0,0 +1,52 @@
+/**
+ * Protocol CommonJS Build
+ * protocol.mjs is an ES module so the client can import it directly. The server is
+ * CommonJS and Node only require()s ES modules from 20.19 / 22.12, so it loads
+ * protocol.cjs instead: the same code with the exports rewritten.
+ *
+ * Run after editing protocol.mjs: npm run build:protocol
+ * (protocol.test.ts fails while protocol.cjs is out of date)
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const SOURCE_PATH = path.join(__dirname, 'protocol.mjs');
+const OUTPUT_PATH = path.join(__dirname, 'protocol.cjs');
+
+// protocol.mjs only uses `export const` and `export function`, and imports nothing
+const EXPORT_PATTERN = /^export (const|function) (\w+)/gm;
+
+/**
+ * Rewrites the protocol module's ES exports as `module.exports`.
+ */
+function buildProtocolCjs(source) {
+  const names = [];
+  const body = source.replace(EXPORT_PATTERN, (match, kind, name) => {
+    names.push(name);
+    return `${kind} ${name}`;
+  });
+  if (/^\s*(export|import)\b/m.test(body)) {
+    throw new Error('protocol.mjs uses an export or import form the CommonJS build does not handle');
+  }
+  return [
+    '// Generated from protocol.mjs by `npm run build:protocol` for the server. Do not edit.',
+    "'use strict';",
+    '',
+    body.trimEnd(),
+    '',
+    `module.exports = {\n${names.map(name => `  ${name}`).join(',\n')}\n};`,
+    ''
+  ].join('\n');
+}
+
+if (require.main === module) {
+  fs.writeFileSync(OUTPUT_PATH, buildProtocolCjs(fs.readFileSync(SOURCE_PATH, 'utf8')));
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT_PATH) || OUTPUT_PATH}`);
+}
+
+module.exports = {
+  buildProtocolCjs,
+  SOURCE_PATH,
+  OUTPUT_PATH
+};
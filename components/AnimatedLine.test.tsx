@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, act } from '@testing-library/react';
+import { AnimatedLine } from './AnimatedLine';
+import { SubtitleAnimation } from '../types';
+
+describe('AnimatedLine', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should hold the old line while it fades out, then show the next one', () => {
+        vi.useFakeTimers();
+        const { container, rerender } = render(<AnimatedLine text="Hello" lineId="a" animation={SubtitleAnimation.FADE} />);
+        expect(container.firstElementChild?.className).toBe('subtitle-fade-in');
+
+        // Streaming into the same line just updates it
+        rerender(<AnimatedLine text="Hello world" lineId="a" animation={SubtitleAnimation.FADE} />);
+        expect(container.textContent).toBe('Hello world');
+
+        rerender(<AnimatedLine text="Next" lineId="b" animation={SubtitleAnimation.FADE} />);
+        expect(container.textContent).toBe('Hello world');
+        expect(container.firstElementChild?.className).toBe('subtitle-fade-out');
+
+        act(() => {
+            vi.advanceTimersByTime(300);
+        });
+        expect(container.textContent).toBe('Next');
+        expect(container.firstElementChild?.className).toBe('subtitle-fade-in');
+
+        rerender(<AnimatedLine text="" lineId="b" animation={SubtitleAnimation.FADE} />);
+        act(() => {
+            vi.advanceTimersByTime(300);
+        });
+        expect(container.innerHTML).toBe('');
+    });
+
+    it('should type a new line out while keeping its full width', () => {
+        vi.useFakeTimers();
+        const { container } = render(<AnimatedLine text="Typed" lineId="a" animation={SubtitleAnimation.TYPEWRITER} />);
+        expect(container.textContent).toBe('Typed');
+        expect(container.querySelector('span')?.textContent).toBe('Typed');
+
+        act(() => {
+            vi.advanceTimersByTime(50);
+        });
+        expect(container.querySelector('span')?.textContent).toBe('ped');
+
+        act(() => {
+            vi.advanceTimersByTime(1000);
+        });
+        expect(container.querySelector('span')?.textContent).toBe('');
+    });
+});
@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SubtitleAnimation } from '../types';
+import { ANIMATION_MS, TYPEWRITER_CHARS_PER_SECOND, enterAnimationClass, exitAnimationClass } from '../utils/theme';
+
+interface AnimatedLineProps extends React.HTMLAttributes<HTMLDivElement> {
+  text: string;
+  // A different id means a different utterance: the old line leaves before the new one enters.
+  // Text changes under the same id (a streaming translation) just update the line.
+  lineId: string;
+  animation: SubtitleAnimation;
+}
+
+/**
+ * One subtitle line with the theme's enter/exit animation. Renders nothing while empty,
+ * so it can stay mounted and still animate the last line out when the text is cleared.
+ */
+export const AnimatedLine: React.FC<AnimatedLineProps> = ({ text, lineId, animation, className = '', ...rest }) => {
+  const currentId = text ? lineId : '';
+  const [shownId, setShownId] = useState(currentId);
+  const [leaving, setLeaving] = useState(false);
+  const [revealed, setRevealed] = useState(0);
+  // Text of the line on screen, held while it animates out
+  const shownTextRef = useRef(text);
+
+  const isCurrent = currentId === shownId;
+  const shownText = isCurrent ? text : shownTextRef.current;
+  const exitClass = exitAnimationClass(animation);
+  const isTypewriter = animation === SubtitleAnimation.TYPEWRITER;
+
+  useEffect(() => {
+    if (isCurrent) shownTextRef.current = text;
+  }, [isCurrent, text]);
+
+  useEffect(() => {
+    if (isCurrent) return;
+    const show = () => {
+      setShownId(currentId);
+      setRevealed(0);
+    };
+    if (!exitClass || !shownTextRef.current) {
+      show();
+      return;
+    }
+    setLeaving(true);
+    const timer = setTimeout(() => {
+      setLeaving(false);
+      show();
+    }, ANIMATION_MS);
+    return () => clearTimeout(timer);
+  }, [isCurrent, currentId, exitClass]);
+
+  const chars = Array.from(shownText);
+  const isTyping = isTypewriter && revealed < chars.length;
+  useEffect(() => {
+    if (!isTyping) return;
+    const timer = setInterval(() => setRevealed(count => count + 1), 1000 / TYPEWRITER_CHARS_PER_SECOND);
+    return () => clearInterval(timer);
+  }, [isTyping]);
+
+  if (!shownText) return null;
+
+  return (
+    <div
+      key={shownId}
+      className={`${className} ${leaving ? exitClass : enterAnimationClass(animation)}`.trim()}
+      {...rest}
+    >
+      {isTypewriter ? (
+        <>
+          {chars.slice(0, revealed).join('')}
+          {/* The rest is laid out but hidden, so the line does not reflow as it types */}
+          <span style={{ visibility: 'hidden' }}>{chars.slice(revealed).join('')}</span>
+        </>
+      ) : shownText}
+    </div>
+  );
+};
@@ -1,10 +1,17 @@
 import React from 'react';
-import { BackgroundMode, TextStyle, TranslationConfig, Persona, FontFamily } from '../types';
-import { Mic, MicOff, Settings, Minimize2, Maximize2, AlertCircle, User, Zap, Ghost, Cat, Coffee, Cpu } from 'lucide-react';
+import { BackgroundMode, TextStyle, TranslationConfig, Persona, FontFamily, DisplayMode, QuotaStatus, CacheStats, TranscriptEntry, TranscriptFormat, RoomStatus, ConversationMode, Speaker, RecognitionSource, TtsSource, Glossary, GlossaryUpdate, PersonaProfile, SettingsPreset, SubtitleTheme } from '../types';
+import { speechLangTags, voiceKey } from '../hooks/useSpeechOutput';
+import { Mic, MicOff, Settings, Minimize2, Maximize2, AlertCircle, User, Zap, Ghost, Cat, Coffee, Cpu, RefreshCw, Download, Monitor, Copy, Check, Radio, Users, Sparkles, Pencil } from 'lucide-react';
+import { QuotaMeter } from './QuotaMeter';
+import { GlossaryEditor } from './GlossaryEditor';
+import { PersonaEditor } from './PersonaEditor';
+import { PresetManager } from './PresetManager';
+import { ThemeEditor } from './ThemeEditor';
 
 interface ControlPanelProps {
   isConnected: boolean;
   isConnecting: boolean;
+  isReconnecting?: boolean;
   onConnect: () => void;
   onDisconnect: () => void;
   bgMode: BackgroundMode;
@@ -13,24 +20,64 @@ interface ControlPanelProps {
   setTextStyle: (style: TextStyle) => void;
   outlineColor: string;
   setOutlineColor: (color: string) => void;
+  theme?: SubtitleTheme;
+  setTheme?: (theme: SubtitleTheme) => void;
   sourceFont: FontFamily;
   setSourceFont: (font: FontFamily) => void;
   targetFont: FontFamily;
   setTargetFont: (font: FontFamily) => void;
+  displayMode: DisplayMode;
+  setDisplayMode: (mode: DisplayMode) => void;
+  logLines: number;
+  setLogLines: (lines: number) => void;
+  maxAgeSeconds: number;
+  setMaxAgeSeconds: (seconds: number) => void;
   config: TranslationConfig;
   setConfig: (config: TranslationConfig) => void;
   playAudio: boolean;
   setPlayAudio: (play: boolean) => void;
+  ttsSource?: TtsSource;
+  setTtsSource?: (source: TtsSource) => void;
+  ttsVoices?: Record<string, string>;
+  setTtsVoices?: (voices: Record<string, string>) => void;
+  presets?: SettingsPreset[];
+  onSavePreset?: (name: string) => void;
+  onApplyPreset?: (name: string) => void;
+  onDeletePreset?: (name: string) => void;
+  onImportPresets?: (presets: SettingsPreset[]) => void;
+  browserVoices?: SpeechSynthesisVoice[];
+  serverVoices?: string[];
+  isSpeaking?: boolean;
+  glossary?: Glossary | null;
+  onUpdateGlossary?: (update: GlossaryUpdate) => void;
+  personas?: PersonaProfile[];
+  personaPreview?: { content: string; engine: string } | null;
+  personaError?: string | null;
+  onSavePersona?: (persona: PersonaProfile) => void;
+  onDeletePersona?: (id: string) => void;
+  onPreviewPersona?: (persona: PersonaProfile, text: string) => void;
   isRawMode: boolean;
   setIsRawMode: (isRaw: boolean) => void;
   error: string | null;
   localAIStatus?: { enabled: boolean; model?: string; isRemote?: boolean };
+  activeEngine?: string | null;
+  quota?: QuotaStatus | null;
+  cacheStats?: CacheStats | null;
+  transcript?: TranscriptEntry[];
+  onDownloadTranscript?: (format: TranscriptFormat) => void;
+  sessionId?: string | null;
+  roomName?: string;
+  setRoomName?: (room: string) => void;
+  roomStatus?: RoomStatus | null;
+  activeSpeaker?: Speaker;
+  setActiveSpeaker?: (speaker: Speaker) => void;
   simulateVoiceInput?: (text: string, sourceLang: string, targetLang: string) => void;
 }
 
 export const ControlPanel: React.FC<ControlPanelProps> = ({
   isConnected,
   isConnecting,
+  isReconnecting,
   onConnect,
   onDisconnect,
   bgMode,
@@ -39,22 +86,124 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   setTextStyle,
   outlineColor,
   setOutlineColor,
+  theme,
+  setTheme,
   sourceFont,
   setSourceFont,
   targetFont,
   setTargetFont,
+  displayMode,
+  setDisplayMode,
+  logLines,
+  setLogLines,
+  maxAgeSeconds,
+  setMaxAgeSeconds,
   config,
   setConfig,
   playAudio,
   setPlayAudio,
+  ttsSource = TtsSource.BROWSER,
+  setTtsSource,
+  ttsVoices = {},
+  setTtsVoices,
+  presets = [],
+  onSavePreset,
+  onApplyPreset,
+  onDeletePreset,
+  onImportPresets,
+  browserVoices = [],
+  serverVoices = [],
+  isSpeaking = false,
+  glossary,
+  onUpdateGlossary,
+  personas = [],
+  personaPreview = null,
+  personaError = null,
+  onSavePersona,
+  onDeletePersona,
+  onPreviewPersona,
   isRawMode,
   setIsRawMode,
   error,
   localAIStatus,
+  activeEngine,
+  quota,
+  cacheStats,
+  transcript = [],
+  onDownloadTranscript,
+  sessionId,
+  roomName = '',
+  setRoomName,
+  roomStatus,
+  activeSpeaker,
+  setActiveSpeaker,
   simulateVoiceInput
 }) => {
 
   const [isCollapsed, setIsCollapsed] = React.useState(false);
+  const [copiedUrl, setCopiedUrl] = React.useState<string | null>(null);
+  const [isEditingPersona, setIsEditingPersona] = React.useState(false);
+
+  // Matches the server's cap on extra languages per utterance
+  const MAX_EXTRA_TARGET_LANGS = 4;
+
+  const toggleExtraTargetLang = (code: string) => {
+    const current = config.extraTargetLangs;
+    if (current.includes(code)) {
+      setConfig({ ...config, extraTargetLangs: current.filter(lang => lang !== code) });
+    } else if (current.length < MAX_EXTRA_TARGET_LANGS) {
+      setConfig({ ...config, extraTargetLangs: [...current, code] });
+    }
+  };
+
+  // Translations are read in the target language, and in a conversation also in the source language
+  const speechLangs = config.conversationMode === ConversationMode.OFF
+    ? [config.targetLang]
+    : [config.targetLang, config.sourceLang];
+
+  // Voices picked while a persona is selected belong to that persona; clearing one falls back to the language's
+  const setVoice = (lang: string, value: string) => {
+    const next = { ...ttsVoices };
+    if (value) {
+      next[voiceKey(lang, config.persona)] = value;
+    } else {
+      delete next[voiceKey(lang, config.persona)];
+    }
+    setTtsVoices?.(next);
+  };
+
+  const voicesFor = (lang: string) => {
+    if (ttsSource === TtsSource.SERVER) {
+      return serverVoices.map(name => ({ value: name, label: name }));
+    }
+    const prefix = (speechLangTags[lang] || lang).split('-')[0];
+    return browserVoices
+      .filter(v => v.lang.startsWith(prefix))
+      .map(v => ({ value: v.voiceURI, label: `${v.name} (${v.lang})` }));
+  };
+
+  // Icons for the personas that ship with the server; user-defined ones get a generic icon
+  const personaIcons: Record<string, React.ReactNode> = {
+    samurai: <Zap size={14} />,
+    tsundere: <Ghost size={14} />,
+    cat: <Cat size={14} />,
+    butler: <Coffee size={14} />,
+  };
+
+  const overlayUrl = sessionId ? `${window.location.origin}/overlay?session=${encodeURIComponent(sessionId)}` : null;
+  const isValidRoomName = /^[\w-]{1,64}$/.test(roomName);
+  const roomUrl = roomName && isValidRoomName ? `${window.location.origin}/room?name=${encodeURIComponent(roomName)}` : null;
+
+  const copyUrl = async (url: string | null) => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedUrl(url);
+      setTimeout(() => setCopiedUrl(null), 2000);
+    } catch (err) {
+      console.warn('Clipboard write failed', err);
+    }
+  };
 
   const languages = [
     { code: 'Japanese', label: '日本語' },
@@ -121,12 +270,38 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         </div>
       )}
 
+      {/* Gemini key pool quota */}
+      {isConnected && quota && <QuotaMeter quota={quota} />}
+
+      {/* Engine that produced the latest subtitle (may be a fallback) */}
+      {isConnected && activeEngine && (
+        <div className="text-xs text-gray-400 mb-4 flex items-center gap-2">
+          <Cpu size={14} className="shrink-0" />
+          <span>翻訳エンジン: <strong className="text-gray-200">{activeEngine}</strong></span>
+        </div>
+      )}
+
+      {/* Translation cache effectiveness */}
+      {isConnected && cacheStats && cacheStats.hits + cacheStats.misses > 0 && (
+        <div className="text-xs text-gray-400 mb-4">
+          キャッシュ: {cacheStats.hits} ヒット / {cacheStats.hits + cacheStats.misses} 件 ({Math.round(cacheStats.hitRate * 100)}%) · {cacheStats.size}/{cacheStats.maxSize} 件保存
+        </div>
+      )}
+
       {/* Connection Status */}
       <div className="mb-6">
-        {!isConnected ? (
+        {isReconnecting ? (
+          <button
+            onClick={onDisconnect}
+            className="w-full py-3 rounded-lg font-bold flex items-center justify-center gap-2 bg-amber-600 hover:bg-amber-500 text-white transition-colors"
+            title="クリックで翻訳を停止します"
+          >
+            <RefreshCw size={20} className="animate-spin" /> 再接続中...
+          </button>
+        ) : !isConnected ? (
           <button
             onClick={onConnect}
-            disabled={isConnecting}
+            disabled={isConnecting || (!!roomName && !isValidRoomName)}
             className={`w-full py-3 rounded-lg font-bold flex items-center justify-center gap-2 transition-colors ${isConnecting
               ? 'bg-gray-600 cursor-wait'
               : 'bg-emerald-600 hover:bg-emerald-500 text-white'
@@ -144,7 +319,100 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         )}
       </div>
 
+      {/* Push-to-talk: who is speaking now */}
+      {isConnected && config.conversationMode !== ConversationMode.OFF && (
+        <div className="mb-4">
+          <label className="block text-xs font-medium text-gray-400 mb-1">
+            話者 {config.conversationMode === ConversationMode.PUSH_TO_TALK ? '(キー 1 / 2 で切替)' : '(自動判定)'}
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              { speaker: 'A' as const, lang: config.sourceLang, active: 'bg-sky-600 border-sky-500' },
+              { speaker: 'B' as const, lang: config.targetLang, active: 'bg-pink-600 border-pink-500' },
+            ]).map(option => (
+              <button
+                key={option.speaker}
+                onClick={() => setActiveSpeaker && setActiveSpeaker(option.speaker)}
+                className={`py-2 rounded border text-sm font-bold transition-colors ${activeSpeaker === option.speaker
+                  ? `${option.active} text-white`
+                  : 'bg-gray-800 border-gray-700 hover:bg-gray-700 text-gray-400'
+                  }`}
+              >
+                {option.speaker}: {languages.find(l => l.code === option.lang)?.label || option.lang}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* OBS overlay URL for this session */}
+      {overlayUrl && (
+        <div className="mb-4">
+          <label className="block text-xs font-medium text-gray-400 mb-1 flex items-center gap-1">
+            <Monitor size={12} /> OBS オーバーレイ URL (ブラウザソース)
+          </label>
+          <div className="flex gap-1">
+            <input
+              readOnly
+              value={overlayUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 min-w-0 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-[10px] text-gray-300 outline-none"
+            />
+            <button
+              onClick={() => copyUrl(overlayUrl)}
+              className="bg-gray-800 hover:bg-gray-700 border border-gray-600 rounded px-2 transition-colors"
+              title="URL をコピー"
+            >
+              {copiedUrl === overlayUrl ? <Check size={12} className="text-emerald-400" /> : <Copy size={12} />}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Broadcast room for viewers on other devices */}
+      <div className="mb-4">
+        <label className="block text-xs font-medium text-gray-400 mb-1 flex items-center gap-1">
+          <Radio size={12} /> 配信ルーム (任意)
+          {isConnected && roomStatus && (
+            <span className="ml-auto flex items-center gap-1 text-gray-300">
+              <Users size={12} /> {roomStatus.viewers}
+            </span>
+          )}
+        </label>
+        <div className="flex gap-1">
+          <input
+            value={roomName}
+            onChange={(e) => setRoomName && setRoomName(e.target.value)}
+            placeholder="例: conference-2024"
+            disabled={isConnected || isReconnecting}
+            className={`flex-1 min-w-0 bg-gray-800 border rounded px-2 py-1 text-xs outline-none focus:border-emerald-500 disabled:opacity-60 ${roomName && !isValidRoomName ? 'border-red-500' : 'border-gray-700'}`}
+          />
+          <button
+            onClick={() => copyUrl(roomUrl)}
+            disabled={!roomUrl}
+            className="bg-gray-800 hover:bg-gray-700 disabled:opacity-50 border border-gray-600 rounded px-2 transition-colors"
+            title="視聴者用 URL をコピー"
+          >
+            {roomUrl && copiedUrl === roomUrl ? <Check size={12} className="text-emerald-400" /> : <Copy size={12} />}
+          </button>
+        </div>
+        {roomName && !isValidRoomName && (
+          <p className="text-[10px] text-red-300 mt-1">英数字・ハイフン・アンダースコアのみ (64文字まで)</p>
+        )}
+      </div>
+
       <div className="space-y-4">
+        {/* Presets (saved in this browser) */}
+        {onSavePreset && onApplyPreset && onDeletePreset && onImportPresets && (
+          <PresetManager
+            presets={presets}
+            onSave={onSavePreset}
+            onApply={onApplyPreset}
+            onDelete={onDeletePreset}
+            onImport={onImportPresets}
+          />
+        )}
+
         {/* Languages */}
         <div className="grid grid-cols-2 gap-2">
           <div>
@@ -153,7 +421,6 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               value={config.sourceLang}
               onChange={(e) => setConfig({ ...config, sourceLang: e.target.value })}
               className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-sm focus:border-emerald-500 outline-none"
-              disabled={isConnected}
             >
               {languages.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
             </select>
@@ -162,15 +429,100 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             <label className="block text-xs font-medium text-gray-400 mb-1">出力言語 (字幕)</label>
             <select
               value={config.targetLang}
-              onChange={(e) => setConfig({ ...config, targetLang: e.target.value })}
+              onChange={(e) => setConfig({
+                ...config,
+                targetLang: e.target.value,
+                extraTargetLangs: config.extraTargetLangs.filter(lang => lang !== e.target.value)
+              })}
               className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1.5 text-sm focus:border-emerald-500 outline-none"
-              disabled={isConnected}
             >
               {languages.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
             </select>
           </div>
         </div>
 
+        {/* Speech recognition source */}
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">音声認識</label>
+          <div className="grid grid-cols-2 gap-1">
+            {[
+              { source: RecognitionSource.BROWSER, label: 'ブラウザ' },
+              { source: RecognitionSource.SERVER, label: 'サーバー (Whisper / Vosk)' },
+            ].map((option) => (
+              <button
+                key={option.source}
+                onClick={() => setConfig({ ...config, recognitionSource: option.source })}
+                disabled={isConnected || isReconnecting}
+                className={`px-2 py-1.5 text-xs rounded border transition-colors disabled:opacity-60 ${config.recognitionSource === option.source
+                  ? 'bg-emerald-600 border-emerald-500 text-white'
+                  : 'bg-gray-800 border-gray-700 hover:bg-gray-700'
+                  }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {config.recognitionSource === RecognitionSource.SERVER && (
+            <p className="text-[10px] text-gray-400 mt-1">
+              マイク音声をサーバーへ送って認識します。サーバー側で STT_ENGINE の設定が必要です。
+            </p>
+          )}
+        </div>
+
+        {/* Conversation mode */}
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-1">会話モード (2人・双方向翻訳)</label>
+          <div className="grid grid-cols-3 gap-1">
+            {[
+              { mode: ConversationMode.OFF, label: 'オフ' },
+              { mode: ConversationMode.AUTO, label: '自動判定' },
+              { mode: ConversationMode.PUSH_TO_TALK, label: '手動切替' },
+            ].map((option) => (
+              <button
+                key={option.mode}
+                onClick={() => setConfig({ ...config, conversationMode: option.mode })}
+                disabled={isConnected || isReconnecting}
+                className={`px-2 py-1.5 text-xs rounded border transition-colors disabled:opacity-60 ${config.conversationMode === option.mode
+                  ? 'bg-emerald-600 border-emerald-500 text-white'
+                  : 'bg-gray-800 border-gray-700 hover:bg-gray-700'
+                  }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {config.conversationMode !== ConversationMode.OFF && (
+            <p className="text-[10px] text-gray-400 mt-1">
+              話者A は入力言語、話者B は出力言語で話し、それぞれ相手の言語に翻訳されます。
+            </p>
+          )}
+        </div>
+
+        {/* Extra target languages (a conversation only translates into the other party's language) */}
+        {config.conversationMode === ConversationMode.OFF && (
+          <div>
+            <label className="block text-xs font-medium text-gray-400 mb-1">追加の字幕言語 (最大{MAX_EXTRA_TARGET_LANGS}つ)</label>
+            <div className="flex flex-wrap gap-1">
+              {languages.filter(l => l.code !== config.targetLang).map(l => {
+                const isSelected = config.extraTargetLangs.includes(l.code);
+                return (
+                  <button
+                    key={l.code}
+                    onClick={() => toggleExtraTargetLang(l.code)}
+                    disabled={isConnected || isReconnecting}
+                    className={`text-[10px] px-2 py-1 rounded border transition-colors disabled:opacity-60 ${isSelected
+                      ? 'bg-emerald-600 border-emerald-500 text-white'
+                      : 'bg-gray-800 border-gray-700 hover:bg-gray-700 text-gray-400'
+                      }`}
+                  >
+                    {l.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Fonts */}
         <div className="grid grid-cols-2 gap-2">
           <div>
@@ -198,7 +550,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         {/* Play Audio Toggle */}
         <div className="flex flex-col gap-2">
           <div className="flex items-center justify-between bg-gray-800 p-2 rounded border border-gray-700">
-            <span className="text-sm">音声読み上げ (TTS)</span>
+            <span className="text-sm">音声読み上げ (TTS){isSpeaking && <span className="text-[10px] text-emerald-400 ml-2">読み上げ中 (マイク停止)</span>}</span>
             <button
               onClick={() => setPlayAudio(!playAudio)}
               className={`w-12 h-6 rounded-full p-1 transition-colors ${playAudio ? 'bg-emerald-500' : 'bg-gray-600'}`}
@@ -207,6 +559,44 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             </button>
           </div>
 
+          {playAudio && (
+            <div className="bg-gray-800 p-2 rounded border border-gray-700 space-y-2">
+              <div className="grid grid-cols-2 gap-1">
+                {[
+                  { source: TtsSource.BROWSER, label: 'ブラウザ' },
+                  { source: TtsSource.SERVER, label: 'サーバー (Gemini)' },
+                ].map((option) => (
+                  <button
+                    key={option.source}
+                    onClick={() => setTtsSource?.(option.source)}
+                    className={`px-2 py-1 text-xs rounded border transition-colors ${ttsSource === option.source
+                      ? 'bg-emerald-600 border-emerald-500 text-white'
+                      : 'bg-gray-900 border-gray-700 hover:bg-gray-700'
+                      }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {speechLangs.map(lang => (
+                <div key={lang} className="flex items-center gap-2">
+                  <span className="text-[10px] text-gray-400 w-16 shrink-0">{languages.find(l => l.code === lang)?.label ?? lang}</span>
+                  <select
+                    value={ttsVoices[voiceKey(lang, config.persona)] ?? ''}
+                    onChange={(e) => setVoice(lang, e.target.value)}
+                    className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-emerald-500 outline-none"
+                  >
+                    <option value="">{config.persona === Persona.NONE ? '自動 (ペルソナに合わせる)' : 'ペルソナなしと同じ'}</option>
+                    {voicesFor(lang).map(v => <option key={v.value} value={v.value}>{v.label}</option>)}
+                  </select>
+                </div>
+              ))}
+              {ttsSource === TtsSource.SERVER && serverVoices.length === 0 && (
+                <p className="text-[10px] text-gray-400">サーバー音声は TTS_ENGINE の設定が必要です (接続後に声を選べます)。</p>
+              )}
+            </div>
+          )}
+
           <div className="flex items-center justify-between bg-gray-800 p-2 rounded border border-gray-700">
             <div className="flex flex-col">
               <span className="text-sm">翻訳バイパス (Raw Mode)</span>
@@ -223,14 +613,29 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
 
         {/* Persona Selector */}
         <div>
-          <label className="block text-xs font-medium text-gray-400 mb-2">翻訳トーン設定 (Context Adaptive)</label>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-xs font-medium text-gray-400">翻訳トーン設定 (Context Adaptive)</label>
+            {isConnected && onSavePersona && (
+              <button
+                onClick={() => setIsEditingPersona(!isEditingPersona)}
+                className={`flex items-center gap-1 text-[10px] ${isEditingPersona ? 'text-emerald-400' : 'text-gray-400 hover:text-white'}`}
+              >
+                <Pencil size={10} /> 編集
+              </button>
+            )}
+          </div>
           <div className="grid grid-cols-5 gap-1">
             {[
-              { persona: Persona.NONE, icon: <User size={14} />, label: 'なし' },
-              { persona: Persona.SAMURAI, icon: <Zap size={14} />, label: '侍' },
-              { persona: Persona.TSUNDERE, icon: <Ghost size={14} />, label: 'デレ' },
-              { persona: Persona.CAT, icon: <Cat size={14} />, label: '猫' },
-              { persona: Persona.BUTLER, icon: <Coffee size={14} />, label: '執事' },
+              { persona: Persona.NONE as string, icon: <User size={14} />, label: 'なし' },
+              ...personas.map(p => ({
+                persona: p.id,
+                icon: personaIcons[p.id] ?? <Sparkles size={14} />,
+                label: p.label || p.name
+              })),
+              // Keep a selection that is missing from the (possibly outdated) list visible
+              ...(config.persona !== Persona.NONE && !personas.some(p => p.id === config.persona)
+                ? [{ persona: config.persona, icon: <Sparkles size={14} />, label: config.persona }]
+                : []),
             ].map((option) => (
               <button
                 key={option.persona}
@@ -242,12 +647,38 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                 title={option.label}
               >
                 {option.icon}
-                <span className="text-[10px] mt-1">{option.label}</span>
+                <span className="text-[10px] mt-1 max-w-full truncate px-0.5">{option.label}</span>
               </button>
             ))}
           </div>
+          {isEditingPersona && isConnected && onSavePersona && onDeletePersona && onPreviewPersona && (
+            <div className="mt-2">
+              <PersonaEditor
+                personas={personas}
+                initialId={config.persona}
+                voices={serverVoices}
+                preview={personaPreview}
+                error={personaError}
+                onSave={onSavePersona}
+                onDelete={onDeletePersona}
+                onPreview={onPreviewPersona}
+              />
+            </div>
+          )}
         </div>
 
+        {/* Glossary (stored on the server, so it is editable while connected) */}
+        {glossary && onUpdateGlossary ? (
+          <GlossaryEditor
+            glossary={glossary}
+            sourceLang={config.sourceLang}
+            targetLang={config.targetLang}
+            onUpdate={onUpdateGlossary}
+          />
+        ) : (
+          <p className="text-[10px] text-gray-500">用語集は接続中に編集できます。</p>
+        )}
+
         {/* Background Selector */}
         <div>
           <label className="block text-xs font-medium text-gray-400 mb-2">背景色 (クロマキー)</label>
@@ -266,6 +697,24 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                 title={option.label}
               />
             ))}
+            {theme && setTheme && (
+              <label
+                className={`relative flex-1 h-8 rounded border-2 transition-all cursor-pointer ${bgMode === BackgroundMode.CUSTOM ? 'border-white scale-105' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                style={{ backgroundColor: theme.chromaColor }}
+                title="カスタム色"
+              >
+                <input
+                  type="color"
+                  value={theme.chromaColor}
+                  onClick={() => setBgMode(BackgroundMode.CUSTOM)}
+                  onChange={(e) => {
+                    setTheme({ ...theme, chromaColor: e.target.value });
+                    setBgMode(BackgroundMode.CUSTOM);
+                  }}
+                  className="absolute inset-0 opacity-0 cursor-pointer"
+                />
+              </label>
+            )}
           </div>
         </div>
 
@@ -292,6 +741,58 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           </div>
         </div>
 
+        {/* Display Mode Selector */}
+        <div>
+          <label className="block text-xs font-medium text-gray-400 mb-2">表示モード</label>
+          <div className="grid grid-cols-2 gap-2">
+            {[
+              { mode: DisplayMode.SINGLE, label: '最新のみ' },
+              { mode: DisplayMode.LOG, label: 'チャットログ' },
+            ].map((option) => (
+              <button
+                key={option.mode}
+                onClick={() => setDisplayMode(option.mode)}
+                className={`px-2 py-1.5 text-xs rounded border transition-colors ${displayMode === option.mode
+                  ? 'bg-emerald-600 border-emerald-500 text-white'
+                  : 'bg-gray-800 border-gray-700 hover:bg-gray-700'
+                  }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {displayMode === DisplayMode.LOG && (
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              <div>
+                <label className="block text-[10px] text-gray-400 mb-1">表示行数: {logLines}</label>
+                <input
+                  type="range"
+                  min={2}
+                  max={8}
+                  value={logLines}
+                  onChange={(e) => setLogLines(Number(e.target.value))}
+                  className="w-full accent-emerald-500"
+                />
+              </div>
+              <div>
+                <label className="block text-[10px] text-gray-400 mb-1">自動消去</label>
+                <select
+                  value={maxAgeSeconds}
+                  onChange={(e) => setMaxAgeSeconds(Number(e.target.value))}
+                  className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs focus:border-emerald-500 outline-none"
+                >
+                  <option value={0}>しない</option>
+                  <option value={10}>10秒</option>
+                  <option value={30}>30秒</option>
+                  <option value={60}>60秒</option>
+                  <option value={120}>2分</option>
+                </select>
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Outline Color Selector (Visible when Outline or Simple+Chroma is used) */}
         <div>
           <label className="block text-xs font-medium text-gray-400 mb-2">縁取り色</label>
@@ -316,6 +817,44 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           </div>
         </div>
 
+        {/* Subtitle theme: colors, sizes, placement, animation */}
+        {theme && setTheme && (
+          <ThemeEditor
+            theme={theme}
+            onChange={setTheme}
+            bgMode={bgMode}
+            textStyle={textStyle}
+            outlineColor={outlineColor}
+            sourceFont={sourceFont}
+            targetFont={targetFont}
+          />
+        )}
+
+        {/* Transcript Export */}
+        <div className="pt-2 border-t border-gray-700">
+          <label className="block text-xs font-medium text-gray-400 mb-2">
+            字幕ログ保存 ({transcript.length}件)
+          </label>
+          <div className="grid grid-cols-4 gap-1">
+            {[
+              { format: 'srt' as const, label: 'SRT' },
+              { format: 'vtt' as const, label: 'VTT' },
+              { format: 'txt' as const, label: 'TXT' },
+              { format: 'json' as const, label: 'JSON' },
+            ].map((option) => (
+              <button
+                key={option.format}
+                onClick={() => onDownloadTranscript && onDownloadTranscript(option.format)}
+                disabled={transcript.length === 0}
+                className="flex items-center justify-center gap-1 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-xs py-1.5 rounded border border-gray-600 transition-colors"
+                title={`${option.label}形式でダウンロード`}
+              >
+                <Download size={12} /> {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
         {/* Test Inputs */}
         <div className="pt-2 border-t border-gray-700">
           <label className="block text-xs font-medium text-gray-400 mb-2">翻訳テスト (発話シミュレーション)</label>
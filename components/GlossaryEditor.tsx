@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { BookOpen, Plus, X } from 'lucide-react';
+import { Glossary, GlossaryEntry, GlossaryUpdate } from '../types';
+
+interface GlossaryEditorProps {
+  glossary: Glossary;
+  sourceLang: string;
+  targetLang: string;
+  onUpdate: (update: GlossaryUpdate) => void;
+}
+
+/**
+ * Edits the server's glossary for the current language pair and the shared
+ * do-not-translate list. Every change is sent straight to the server.
+ */
+export const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ glossary, sourceLang, targetLang, onUpdate }) => {
+  const [source, setSource] = useState('');
+  const [target, setTarget] = useState('');
+  const [keepTerm, setKeepTerm] = useState('');
+
+  const entries = glossary.pairs[`${sourceLang}>${targetLang}`] || [];
+
+  const setEntries = (next: GlossaryEntry[]) => onUpdate({ sourceLang, targetLang, entries: next });
+
+  const addEntry = () => {
+    if (!source.trim() || !target.trim()) return;
+    const others = entries.filter(e => e.source.toLowerCase() !== source.trim().toLowerCase());
+    setEntries([...others, { source: source.trim(), target: target.trim() }]);
+    setSource('');
+    setTarget('');
+  };
+
+  const addKeepTerm = () => {
+    const term = keepTerm.trim();
+    if (!term) return;
+    if (!glossary.doNotTranslate.includes(term)) {
+      onUpdate({ doNotTranslate: [...glossary.doNotTranslate, term] });
+    }
+    setKeepTerm('');
+  };
+
+  const onEnter = (action: () => void) => (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') action();
+  };
+
+  return (
+    <div className="bg-gray-800 p-2 rounded border border-gray-700 space-y-2">
+      <div className="flex items-center gap-1 text-xs text-gray-300">
+        <BookOpen size={12} /> 用語集 ({sourceLang} → {targetLang})
+      </div>
+
+      {entries.length > 0 && (
+        <ul className="space-y-1 max-h-32 overflow-y-auto">
+          {entries.map(entry => (
+            <li key={entry.source} className="flex items-center gap-1 text-xs">
+              <span className="flex-1 truncate">{entry.source}</span>
+              <span className="text-gray-500">→</span>
+              <span className="flex-1 truncate text-emerald-300">{entry.target}</span>
+              <button
+                onClick={() => setEntries(entries.filter(e => e !== entry))}
+                className="text-gray-500 hover:text-red-400"
+                title="削除"
+              >
+                <X size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-1">
+        <input
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          onKeyDown={onEnter(addEntry)}
+          placeholder="原文の用語"
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-emerald-500 outline-none"
+        />
+        <input
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          onKeyDown={onEnter(addEntry)}
+          placeholder="訳語"
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-emerald-500 outline-none"
+        />
+        <button onClick={addEntry} className="p-1 rounded bg-gray-700 hover:bg-gray-600" title="追加">
+          <Plus size={12} />
+        </button>
+      </div>
+
+      <div className="text-[10px] text-gray-400">翻訳しない語 (名前・ハンドル名など、全言語共通)</div>
+      {glossary.doNotTranslate.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {glossary.doNotTranslate.map(term => (
+            <span key={term} className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-gray-900 border border-gray-700">
+              {term}
+              <button
+                onClick={() => onUpdate({ doNotTranslate: glossary.doNotTranslate.filter(t => t !== term) })}
+                className="text-gray-500 hover:text-red-400"
+                title="削除"
+              >
+                <X size={10} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center gap-1">
+        <input
+          value={keepTerm}
+          onChange={(e) => setKeepTerm(e.target.value)}
+          onKeyDown={onEnter(addKeepTerm)}
+          placeholder="例: チャンネル名"
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-emerald-500 outline-none"
+        />
+        <button onClick={addKeepTerm} className="p-1 rounded bg-gray-700 hover:bg-gray-600" title="追加">
+          <Plus size={12} />
+        </button>
+      </div>
+    </div>
+  );
+};
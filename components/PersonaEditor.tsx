@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import { Save, Trash2, Play } from 'lucide-react';
+import { PersonaProfile } from '../types';
+
+interface PersonaEditorProps {
+  personas: PersonaProfile[];
+  // Persona to open first (the one selected in the panel)
+  initialId: string;
+  // Server speech voices; empty when server speech is off
+  voices: string[];
+  preview: { content: string; engine: string } | null;
+  error: string | null;
+  onSave: (persona: PersonaProfile) => void;
+  onDelete: (id: string) => void;
+  onPreview: (persona: PersonaProfile, text: string) => void;
+}
+
+const NEW_PERSONA = '';
+
+const emptyPersona: PersonaProfile = { id: '', name: '', label: '', description: '', rules: [], examples: [] };
+
+// Parses a pitch / rate field; blank leaves the voice's normal delivery
+const toSpeechStyle = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+// Examples are edited one per line as "input => output"
+const EXAMPLE_SEPARATOR = ' => ';
+
+const examplesToText = (examples: PersonaProfile['examples']) =>
+  examples.map(ex => `${ex.input}${EXAMPLE_SEPARATOR}${ex.output}`).join('\n');
+
+const textToExamples = (text: string) => text.split('\n')
+  .map(line => line.split('=>'))
+  .filter(parts => parts.length >= 2)
+  .map(([input, ...output]) => ({ input: input.trim(), output: output.join('=>').trim() }))
+  .filter(ex => ex.input && ex.output);
+
+/**
+ * Creates and edits the server's persona files. Saved personas are picked up
+ * by every connected panel without a restart.
+ */
+export const PersonaEditor: React.FC<PersonaEditorProps> = ({ personas, initialId, voices, preview, error, onSave, onDelete, onPreview }) => {
+  const [editingId, setEditingId] = useState(personas.some(p => p.id === initialId) ? initialId : NEW_PERSONA);
+  const [draft, setDraft] = useState<PersonaProfile>(emptyPersona);
+  const [rulesText, setRulesText] = useState('');
+  const [examplesText, setExamplesText] = useState('');
+  const [sample, setSample] = useState('');
+  // A new persona is opened for editing once the server lists it (a rejected save keeps the draft)
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  // Load the persona being edited (again when another panel changed it)
+  useEffect(() => {
+    const persona = personas.find(p => p.id === editingId) || emptyPersona;
+    setDraft({ ...persona, label: persona.label ?? '' });
+    setRulesText(persona.rules.join('\n'));
+    setExamplesText(examplesToText(persona.examples));
+  }, [editingId, personas]);
+
+  useEffect(() => {
+    if (savingId && personas.some(p => p.id === savingId)) {
+      setEditingId(savingId);
+      setSavingId(null);
+    }
+  }, [personas, savingId]);
+
+  const current = (): PersonaProfile => ({
+    ...draft,
+    id: draft.id.trim(),
+    rules: rulesText.split('\n').map(rule => rule.trim()).filter(Boolean),
+    examples: textToExamples(examplesText)
+  });
+
+  const inputClass = 'w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-emerald-500 outline-none';
+
+  return (
+    <div className="bg-gray-800 p-2 rounded border border-gray-700 space-y-2">
+      <select value={editingId} onChange={(e) => setEditingId(e.target.value)} className={inputClass}>
+        <option value={NEW_PERSONA}>+ 新しいペルソナ</option>
+        {personas.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+
+      <div className="grid grid-cols-2 gap-1">
+        <input
+          value={draft.id}
+          onChange={(e) => setDraft({ ...draft, id: e.target.value.toLowerCase() })}
+          disabled={editingId !== NEW_PERSONA}
+          placeholder="ID (例: pirate)"
+          className={`${inputClass} disabled:opacity-60`}
+        />
+        <input
+          value={draft.label}
+          onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+          placeholder="ボタン表示 (例: 海賊)"
+          className={inputClass}
+        />
+      </div>
+      <input
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        placeholder="名前 (例: Pirate (海賊))"
+        className={inputClass}
+      />
+      <textarea
+        value={draft.description}
+        onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+        placeholder="キャラクターの説明 (英語推奨)"
+        rows={2}
+        className={inputClass}
+      />
+      <textarea
+        value={rulesText}
+        onChange={(e) => setRulesText(e.target.value)}
+        placeholder="話し方のルール (1行に1つ)"
+        rows={3}
+        className={inputClass}
+      />
+      <textarea
+        value={examplesText}
+        onChange={(e) => setExamplesText(e.target.value)}
+        placeholder={`例文 (1行に1つ: 入力${EXAMPLE_SEPARATOR}出力)`}
+        rows={3}
+        className={inputClass}
+      />
+      <div className="grid grid-cols-3 gap-1">
+        <select
+          value={draft.voice ?? ''}
+          onChange={(e) => setDraft({ ...draft, voice: e.target.value || undefined })}
+          disabled={voices.length === 0}
+          title="サーバー音声の声"
+          className={`${inputClass} disabled:opacity-60`}
+        >
+          <option value="">声: 標準</option>
+          {voices.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <input
+          type="number"
+          min={0.5}
+          max={2}
+          step={0.05}
+          value={draft.pitch ?? ''}
+          onChange={(e) => setDraft({ ...draft, pitch: toSpeechStyle(e.target.value) })}
+          placeholder="声の高さ (1)"
+          className={inputClass}
+        />
+        <input
+          type="number"
+          min={0.5}
+          max={2}
+          step={0.05}
+          value={draft.rate ?? ''}
+          onChange={(e) => setDraft({ ...draft, rate: toSpeechStyle(e.target.value) })}
+          placeholder="話す速さ (1)"
+          className={inputClass}
+        />
+      </div>
+
+      {/* Preview with the unsaved draft */}
+      <div className="flex items-center gap-1">
+        <input
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          placeholder="プレビューする文"
+          className={inputClass}
+        />
+        <button
+          onClick={() => onPreview({ ...current(), id: current().id || 'preview' }, sample)}
+          disabled={!sample.trim()}
+          className="p-1.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+          title="プレビュー"
+        >
+          <Play size={12} />
+        </button>
+      </div>
+      {preview && (
+        <p className="text-xs bg-gray-900 border border-gray-700 rounded px-2 py-1">
+          {preview.content} <span className="text-[10px] text-gray-500">({preview.engine})</span>
+        </p>
+      )}
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+
+      <div className="flex gap-1">
+        <button
+          onClick={() => {
+            const persona = current();
+            onSave(persona);
+            if (editingId === NEW_PERSONA) setSavingId(persona.id);
+          }}
+          className="flex-1 flex items-center justify-center gap-1 px-2 py-1 text-xs rounded bg-emerald-700 hover:bg-emerald-600"
+        >
+          <Save size={12} /> 保存
+        </button>
+        {editingId !== NEW_PERSONA && (
+          <button
+            onClick={() => {
+              if (window.confirm(`ペルソナ "${editingId}" を削除しますか？`)) {
+                onDelete(editingId);
+                setEditingId(NEW_PERSONA);
+              }
+            }}
+            className="flex items-center justify-center gap-1 px-2 py-1 text-xs rounded bg-gray-700 hover:bg-red-700"
+          >
+            <Trash2 size={12} /> 削除
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
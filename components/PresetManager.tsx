@@ -0,0 +1,138 @@
+import React, { useRef, useState } from 'react';
+import { Bookmark, Check, Copy, Download, Save, Trash2, Upload } from 'lucide-react';
+import { SettingsPreset } from '../types';
+import { exportPresets, importPresets, presetUrl } from '../utils/settings';
+
+interface PresetManagerProps {
+  presets: SettingsPreset[];
+  onSave: (name: string) => void;
+  onApply: (name: string) => void;
+  onDelete: (name: string) => void;
+  onImport: (presets: SettingsPreset[]) => void;
+}
+
+/**
+ * Named snapshots of the panel's settings. Presets live in this browser; export
+ * them as JSON to move them elsewhere, or copy a preset's URL for an OBS browser source.
+ */
+export const PresetManager: React.FC<PresetManagerProps> = ({ presets, onSave, onApply, onDelete, onImport }) => {
+  const [selected, setSelected] = useState('');
+  const [name, setName] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const current = presets.find(p => p.name === selected) ?? null;
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave(trimmed);
+    setSelected(trimmed);
+    setName('');
+  };
+
+  const apply = (presetName: string) => {
+    setSelected(presetName);
+    if (presetName) onApply(presetName);
+  };
+
+  const remove = () => {
+    if (!current) return;
+    onDelete(current.name);
+    setSelected('');
+  };
+
+  const download = () => {
+    const blob = new Blob([exportPresets(presets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'livetranslate-presets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const upload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(importPresets(await file.text()));
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message);
+    }
+  };
+
+  const copyUrl = async () => {
+    if (!current) return;
+    try {
+      await navigator.clipboard.writeText(presetUrl(current));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.warn('Clipboard unavailable', err);
+    }
+  };
+
+  const onEnter = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') save();
+  };
+
+  return (
+    <div className="bg-gray-800 p-2 rounded border border-gray-700 space-y-2">
+      <div className="flex items-center gap-1 text-xs text-gray-300">
+        <Bookmark size={12} /> プリセット
+      </div>
+
+      <div className="flex items-center gap-1">
+        <select
+          value={selected}
+          onChange={(e) => apply(e.target.value)}
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-emerald-500 outline-none"
+        >
+          <option value="">{presets.length > 0 ? 'プリセットを選択…' : '保存したプリセットはありません'}</option>
+          {presets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+        </select>
+        <button onClick={copyUrl} disabled={!current} className="p-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40" title="このプリセットで開く URL をコピー (OBS ブラウザソース用)">
+          {copied ? <Check size={12} className="text-emerald-400" /> : <Copy size={12} />}
+        </button>
+        <button onClick={remove} disabled={!current} className="p-1 rounded bg-gray-700 hover:bg-gray-600 hover:text-red-400 disabled:opacity-40" title="削除">
+          <Trash2 size={12} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={onEnter}
+          placeholder="例: 英語配信"
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-emerald-500 outline-none"
+        />
+        <button onClick={save} disabled={!name.trim()} className="p-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40" title="現在の設定を保存 (同名は上書き)">
+          <Save size={12} />
+        </button>
+      </div>
+
+      <div className="flex gap-1">
+        <button
+          onClick={download}
+          disabled={presets.length === 0}
+          className="flex-1 flex items-center justify-center gap-1 text-[10px] py-1 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40"
+        >
+          <Download size={10} /> 書き出し
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 flex items-center justify-center gap-1 text-[10px] py-1 rounded bg-gray-700 hover:bg-gray-600"
+        >
+          <Upload size={10} /> 読み込み
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={upload} className="hidden" />
+      </div>
+      {importError && <div className="text-[10px] text-red-300">{importError}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { Gauge, Clock } from 'lucide-react';
+import { QuotaStatus, KeyHealth } from '../types';
+
+interface QuotaMeterProps {
+  quota: QuotaStatus;
+}
+
+const Bar: React.FC<{ label: string; remaining?: number; limit?: number }> = ({ label, remaining, limit }) => {
+  if (remaining === undefined) return null;
+  const ratio = limit ? Math.min(1, remaining / limit) : 1;
+  const color = ratio > 0.5 ? 'bg-emerald-500' : ratio > 0.2 ? 'bg-amber-500' : 'bg-red-500';
+
+  return (
+    <div>
+      <div className="flex justify-between text-[10px] text-gray-400 mb-0.5">
+        <span>{label}</span>
+        <span>残り {remaining}{limit ? ` / ${limit}` : ''}</span>
+      </div>
+      <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+        <div className={`h-full ${color} transition-all duration-500`} style={{ width: `${ratio * 100}%` }} />
+      </div>
+    </div>
+  );
+};
+
+const keyStateStyles: Record<KeyHealth['state'], { className: string; label: string }> = {
+  ok: { className: 'bg-emerald-900/60 border-emerald-600 text-emerald-200', label: '正常' },
+  limited: { className: 'bg-amber-900/60 border-amber-600 text-amber-200', label: '上限' },
+  cooldown: { className: 'bg-orange-900/60 border-orange-600 text-orange-200', label: '待機中' },
+  disabled: { className: 'bg-red-900/60 border-red-600 text-red-200', label: '無効' },
+};
+
+export const QuotaMeter: React.FC<QuotaMeterProps> = ({ quota }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second while a countdown is running
+  useEffect(() => {
+    if (!quota.limitedUntil) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [quota.limitedUntil]);
+
+  const secondsLeft = quota.limitedUntil ? Math.max(0, Math.ceil((quota.limitedUntil - now) / 1000)) : 0;
+  const isLimited = quota.limited && (quota.isDailyLimit || secondsLeft > 0 || !quota.limitedUntil);
+
+  return (
+    <div className={`border p-2 rounded mb-4 text-sm ${isLimited ? 'bg-red-900/40 border-red-500' : 'bg-gray-800 border-gray-700'}`}>
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center gap-2 text-xs font-medium text-gray-300">
+          <Gauge size={14} className="shrink-0" />
+          Gemini キープール{quota.keyCount ? ` (${quota.keyCount}キー)` : ''}
+        </span>
+        {isLimited && secondsLeft > 0 && (
+          <span className="flex items-center gap-1 text-xs text-red-200 font-mono">
+            <Clock size={12} /> {secondsLeft}秒
+          </span>
+        )}
+      </div>
+      <div className="space-y-1.5">
+        <Bar label="1分あたり" remaining={quota.minuteRemaining} limit={quota.effectiveRpm} />
+        <Bar label="1日あたり" remaining={quota.dayRemaining} limit={quota.effectiveRpd} />
+      </div>
+      {quota.keys && quota.keys.length > 1 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {quota.keys.map(key => (
+            <span
+              key={key.index}
+              className={`text-[10px] px-1.5 py-0.5 rounded border ${keyStateStyles[key.state].className}`}
+              title={key.lastError || `残り ${key.minuteRemaining}/分, ${key.dayRemaining}/日`}
+            >
+              #{key.index + 1} {keyStateStyles[key.state].label}
+              {key.state === 'cooldown' && key.cooldownIn > 0 ? ` ${Math.ceil(key.cooldownIn / 1000)}s` : ''}
+            </span>
+          ))}
+        </div>
+      )}
+      {isLimited && (
+        <p className="text-[10px] text-red-200 mt-2">
+          {quota.message || (quota.isDailyLimit ? 'エンジンのリクエスト上限に達しました（1日）。' : 'エンジンのリクエスト上限に達しました（1分）。')}
+          {' '}キャラクター翻訳は一時停止中です。
+        </p>
+      )}
+    </div>
+  );
+};
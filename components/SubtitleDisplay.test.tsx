@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, act } from '@testing-library/react';
+import { SubtitleDisplay } from './SubtitleDisplay';
+import { BackgroundMode, DisplayMode, FontFamily, TextStyle, TranscriptEntry } from '../types';
+
+const entry = (id: string, sourceText: string, translation: string | null, translatedAt: number | null = Date.now()): TranscriptEntry => ({
+    id,
+    startedAt: Date.now(),
+    finalizedAt: Date.now(),
+    translatedAt,
+    sourceText,
+    translation,
+    extraTranslations: {},
+    engine: translation === null ? null : 'deepl',
+    persona: 'none',
+    speaker: null,
+    sourceLang: 'Japanese',
+    targetLang: 'English',
+    latencyMs: null
+});
+
+const renderLog = (props: Partial<React.ComponentProps<typeof SubtitleDisplay>>) => render(
+    <SubtitleDisplay
+        text=""
+        bgMode={BackgroundMode.GREEN}
+        textStyle={TextStyle.OUTLINE}
+        outlineColor="#000000"
+        sourceFont={FontFamily.DEFAULT}
+        targetFont={FontFamily.DEFAULT}
+        displayMode={DisplayMode.LOG}
+        {...props}
+    />
+);
+
+describe('SubtitleDisplay chat log', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should show the last lines, newest brightest', () => {
+        const history = [
+            entry('r1', 'いち', 'One'),
+            entry('r2', 'に', 'Two'),
+            entry('r3', 'さん', 'Three')
+        ];
+        renderLog({ history, logLines: 2 });
+
+        expect(screen.queryByText('One')).toBeNull();
+        const older = screen.getByText('Two').parentElement!;
+        const newest = screen.getByText('Three').parentElement!;
+        expect(screen.getByText('に')).toBeInTheDocument();
+        expect(Number(older.style.opacity)).toBeCloseTo(0.35);
+        expect(Number(newest.style.opacity)).toBe(1);
+    });
+
+    it('should stream into the pending line and wait on the others', () => {
+        const history = [
+            entry('r1', 'おはよう', null, null),
+            entry('r2', 'こんにちは', null, null)
+        ];
+        renderLog({ history, text: 'Hel', currentRequestId: 'r2', interimText: 'それでは' });
+
+        expect(screen.getByText('Hel')).toBeInTheDocument();
+        expect(screen.getByText('...')).toBeInTheDocument();
+        expect(screen.getByText('それでは...')).toBeInTheDocument();
+    });
+
+    it('should show a raw mode line once', () => {
+        renderLog({ history: [entry('r1', 'そのまま', 'そのまま')] });
+
+        expect(screen.getAllByText('そのまま')).toHaveLength(1);
+    });
+
+    it('should age lines out after the max age', () => {
+        vi.useFakeTimers();
+        const history = [entry('r1', 'まえ', 'Before', Date.now() - 5000), entry('r2', 'いま', 'Now')];
+        renderLog({ history, maxAgeSeconds: 10, isListening: true });
+
+        expect(screen.getByText('Before')).toBeInTheDocument();
+        act(() => {
+            vi.advanceTimersByTime(5000);
+        });
+        expect(screen.queryByText('Before')).toBeNull();
+        expect(screen.getByText('Now')).toBeInTheDocument();
+
+        act(() => {
+            vi.advanceTimersByTime(5000);
+        });
+        expect(screen.queryByText('Now')).toBeNull();
+        expect(screen.getByText('音声を聞いています...')).toBeInTheDocument();
+    });
+});
@@ -1,5 +1,31 @@
-import React, { useEffect, useRef } from 'react';
-import { BackgroundMode, TextStyle, FontFamily } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { BackgroundMode, TextStyle, FontFamily, DisplayMode, TranscriptEntry, ExtraSubtitle, Speaker, SubtitleTheme, SubtitleAlign, SubtitlePosition, SubtitleAnimation } from '../types';
+import { AnimatedLine } from './AnimatedLine';
+import { LOG_SIZE_SCALE, createDefaultTheme, enterAnimationClass, outlineShadow } from '../utils/theme';
+
+// Older lines in the chat log are dimmed down to this opacity
+const MIN_LINE_OPACITY = 0.35;
+// Lines fade out over the last part of their max age
+const FADE_OUT_MS = 3000;
+// Extra target languages get their own tint so viewers can find their line
+const EXTRA_LINE_COLORS = ['#bae6fd', '#fde68a', '#fbcfe8', '#d9f99d'];
+const SPEAKER_BADGE_CLASSES: Record<Speaker, string> = {
+  A: 'bg-sky-600/80',
+  B: 'bg-pink-600/80',
+};
+// The interim line is a little smaller than the confirmed source
+const INTERIM_SIZE_SCALE = 5 / 6;
+const POSITION_CLASSES: Record<SubtitlePosition, string> = {
+  [SubtitlePosition.TOP]: 'justify-start pt-16',
+  [SubtitlePosition.BOTTOM]: 'justify-end pb-16',
+  // Lifted by a spacer below the lines (see the end of the component)
+  [SubtitlePosition.LOWER_THIRD]: 'justify-end pb-16',
+};
+const ALIGN_CLASSES: Record<SubtitleAlign, { text: string; items: string; self: string }> = {
+  [SubtitleAlign.LEFT]: { text: 'text-left', items: 'items-start', self: 'self-start' },
+  [SubtitleAlign.CENTER]: { text: 'text-center', items: 'items-center', self: 'self-center' },
+  [SubtitleAlign.RIGHT]: { text: 'text-right', items: 'items-end', self: 'self-end' },
+};
 
 interface SubtitleDisplayProps {
   text: string;
@@ -9,47 +35,97 @@ interface SubtitleDisplayProps {
   bgMode: BackgroundMode;
   textStyle: TextStyle;
   outlineColor: string;
+  theme?: SubtitleTheme;
   sourceFont: FontFamily;
   targetFont: FontFamily;
+  // Translations into the extra target languages, in display order
+  extraTexts?: ExtraSubtitle[];
+  displayMode?: DisplayMode;
+  // Conversation mode: each party's language, used to label who said what
+  speakerLanguages?: Record<Speaker, string>;
+  currentSpeaker?: Speaker | null;
+  history?: TranscriptEntry[];
+  // Request id of the translation currently shown in `text` (it may still be streaming)
+  currentRequestId?: string | null;
+  logLines?: number;
+  maxAgeSeconds?: number;
+  // The OBS overlay stays blank instead of showing the waiting hint
+  showIdleHint?: boolean;
 }
 
-export const SubtitleDisplay: React.FC<SubtitleDisplayProps> = ({ text, inputText, interimText, isListening, bgMode, textStyle, outlineColor, sourceFont, targetFont }) => {
+export const SubtitleDisplay: React.FC<SubtitleDisplayProps> = ({
+  text,
+  inputText,
+  interimText,
+  isListening,
+  bgMode,
+  textStyle,
+  outlineColor,
+  theme = createDefaultTheme(),
+  sourceFont,
+  targetFont,
+  extraTexts = [],
+  displayMode = DisplayMode.SINGLE,
+  speakerLanguages,
+  currentSpeaker = null,
+  history = [],
+  currentRequestId = null,
+  logLines = 4,
+  maxAgeSeconds = 0,
+  showIdleHint = true
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const [now, setNow] = useState(Date.now());
+  const isLogMode = displayMode === DisplayMode.LOG;
+  const maxAgeMs = maxAgeSeconds * 1000;
+  const alignClasses = ALIGN_CLASSES[theme.align];
+  // The chat log only types out its translations; lines enter as a whole and leave by aging out
+  const logAnimation = theme.animation === SubtitleAnimation.TYPEWRITER ? SubtitleAnimation.TYPEWRITER : SubtitleAnimation.NONE;
+
+  // Re-render once a second so lines age out even when nobody is talking
+  useEffect(() => {
+    if (!isLogMode || maxAgeMs <= 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isLogMode, maxAgeMs]);
 
   // Auto-scroll to bottom if text gets too long
   useEffect(() => {
     if (containerRef.current) {
       containerRef.current.scrollTop = containerRef.current.scrollHeight;
     }
-  }, [text, inputText, interimText]);
-
-  // Generate dynamic text shadow based on outline color
-  const getOutlineStyle = () => {
-    return {
-      textShadow: `
-        3px 3px 0 ${outlineColor},
-        -1px -1px 0 ${outlineColor},  
-        1px -1px 0 ${outlineColor},
-        -1px 1px 0 ${outlineColor},
-        1px 1px 0 ${outlineColor}
-      `
-    };
-  };
+  }, [text, inputText, interimText, history, extraTexts]);
 
-  // Determine text color and rendering classes based on style
+  // Generate dynamic text shadow based on outline color and width
+  const getOutlineStyle = () => ({ textShadow: outlineShadow(outlineColor, theme.strokeWidth) });
+
+  // Rendering classes based on style; the color comes from the theme
   const getTextClasses = () => {
     switch (textStyle) {
       case TextStyle.OUTLINE:
-        return 'text-white tracking-wide';
+        return 'tracking-wide';
       case TextStyle.BOX:
-        return 'text-white bg-black/70 px-6 py-4 rounded-xl shadow-lg backdrop-blur-sm inline-block';
+        return 'bg-black/70 px-6 py-4 rounded-xl shadow-lg backdrop-blur-sm inline-block';
       default:
-        // Simple style depends on background brightness
-        if (bgMode === BackgroundMode.NORMAL) return 'text-gray-100';
-        return 'text-white'; // Default to outline on chroma colors for visibility
+        return '';
     }
   };
 
+  // Source lines follow the background unless the theme sets a color
+  const sourceColorClass = (normal: string) => theme.sourceColor ? '' : bgMode === BackgroundMode.NORMAL ? normal : 'text-white';
+  const sourceStyle = (size: number) => ({
+    fontFamily: sourceFont,
+    fontSize: `${Math.round(size)}px`,
+    ...(theme.sourceColor ? { color: theme.sourceColor } : {}),
+    ...(textStyle === TextStyle.OUTLINE ? getOutlineStyle() : {})
+  });
+  const translationStyle = (size: number) => ({
+    fontFamily: targetFont,
+    fontSize: `${Math.round(size)}px`,
+    color: theme.textColor,
+    ...(shouldApplyOutline(true) ? getOutlineStyle() : {})
+  });
+
   // Helper to determine if we should apply outline to a specific element
   const shouldApplyOutline = (isMainText: boolean) => {
     if (textStyle === TextStyle.OUTLINE) return true;
@@ -58,15 +134,64 @@ export const SubtitleDisplay: React.FC<SubtitleDisplayProps> = ({ text, inputTex
     return false;
   };
 
-  const isEmpty = (!text || text.trim().length === 0) && (!inputText || inputText.trim().length === 0) && (!interimText || interimText.trim().length === 0);
+  // Chat log: last N source/translation pairs that have not expired yet
+  const logEntries = isLogMode
+    ? history
+      .slice(-logLines)
+      .map(entry => ({ entry, age: now - (entry.translatedAt ?? entry.finalizedAt) }))
+      .filter(({ age }) => maxAgeMs <= 0 || age < maxAgeMs)
+    : [];
+
+  const getLineOpacity = (position: number, count: number, age: number) => {
+    // Newest line is fully opaque, older ones step down towards MIN_LINE_OPACITY
+    const positional = count > 1
+      ? MIN_LINE_OPACITY + (1 - MIN_LINE_OPACITY) * (position / (count - 1))
+      : 1;
+    if (maxAgeMs <= 0) return positional;
+    const fade = Math.min(1, Math.max(0, (maxAgeMs - age) / Math.min(FADE_OUT_MS, maxAgeMs)));
+    return positional * fade;
+  };
+
+  const renderExtraLines = (extras: ExtraSubtitle[], size: number, lineId: string, animation: SubtitleAnimation) => extras.map(({ lang, text: extraText }, i) => (
+    <AnimatedLine
+      key={lang}
+      text={extraText}
+      lineId={`${lineId}:${lang}`}
+      animation={animation}
+      className={`leading-tight break-words ${textStyle === TextStyle.BOX ? getTextClasses() : ''}`}
+      style={{
+        fontFamily: targetFont,
+        fontSize: `${Math.round(size)}px`,
+        color: EXTRA_LINE_COLORS[i % EXTRA_LINE_COLORS.length],
+        ...(textStyle === TextStyle.OUTLINE ? getOutlineStyle() : {})
+      }}
+      lang={lang}
+    />
+  ));
+
+  const renderSpeakerBadge = (speaker: Speaker | null) => {
+    if (!speaker || !speakerLanguages) return null;
+    return (
+      <span className={`${alignClasses.self} text-xs md:text-sm font-bold text-white px-2 py-0.5 rounded-full ${SPEAKER_BADGE_CLASSES[speaker]}`}>
+        {speaker} · {speakerLanguages[speaker]}
+      </span>
+    );
+  };
+
+  const isEmpty = isLogMode
+    ? logEntries.length === 0 && (!interimText || interimText.trim().length === 0)
+    : (!text || text.trim().length === 0) && (!inputText || inputText.trim().length === 0) && (!interimText || interimText.trim().length === 0);
 
   return (
     <div
       ref={containerRef}
-      className="w-full h-full flex flex-col justify-end items-center p-8 pb-16 overflow-y-auto no-scrollbar scroll-smooth"
+      className={`w-full h-full flex flex-col ${POSITION_CLASSES[theme.position]} ${alignClasses.items} p-8 overflow-y-auto no-scrollbar scroll-smooth`}
     >
-      <div className="max-w-[90%] text-center transition-all duration-300 ease-in-out flex flex-col gap-4">
-        {isEmpty ? (
+      <div
+        className={`${alignClasses.text} transition-all duration-300 ease-in-out flex flex-col gap-4`}
+        style={{ maxWidth: `${theme.maxWidth}%` }}
+      >
+        {isEmpty ? showIdleHint && (
           <div className={`text-3xl font-semibold flex items-center justify-center gap-3 ${bgMode === BackgroundMode.NORMAL ? 'text-white' : 'text-black'}`}>
             {isListening ? (
               <>
@@ -77,46 +202,86 @@ export const SubtitleDisplay: React.FC<SubtitleDisplayProps> = ({ text, inputTex
               <span className="opacity-30">音声待機中...</span>
             )}
           </div>
-        ) : (
+        ) : isLogMode ? (
           <>
-            {/* Input Text (Source) — confirmed recognition */}
-            {inputText && (
+            {logEntries.map(({ entry, age }, i) => {
+              // A pending line shows the translation as it streams in
+              const translation = entry.translation ?? (entry.id === currentRequestId ? text : '');
+              return (
+                <div
+                  key={entry.id}
+                  className={`flex flex-col gap-1 transition-opacity duration-700 ${enterAnimationClass(theme.animation)}`}
+                  style={{ opacity: getLineOpacity(i, logEntries.length, age) }}
+                >
+                  {renderSpeakerBadge(entry.speaker)}
+                  {translation !== entry.sourceText && (
+                    <div
+                      className={`opacity-80 ${sourceColorClass('text-gray-400')}`}
+                      style={sourceStyle(theme.sourceSize * LOG_SIZE_SCALE)}
+                    >
+                      {entry.sourceText}
+                    </div>
+                  )}
+                  <AnimatedLine
+                    text={translation || '...'}
+                    lineId={entry.id}
+                    animation={logAnimation}
+                    className={`leading-tight break-words ${getTextClasses()}`}
+                    style={translationStyle(theme.translationSize * LOG_SIZE_SCALE)}
+                  />
+                  {renderExtraLines(
+                    Object.entries(entry.extraTranslations).map(([lang, extraText]) => ({ lang, text: extraText })),
+                    theme.extraSize * LOG_SIZE_SCALE,
+                    entry.id,
+                    logAnimation
+                  )}
+                </div>
+              );
+            })}
+
+            {interimText && (
               <div
-                className={`text-2xl md:text-3xl lg:text-4xl opacity-80 mb-2 ${bgMode === BackgroundMode.NORMAL ? 'text-gray-400' : 'text-white'}`}
-                style={{
-                  fontFamily: sourceFont,
-                  ...(textStyle === TextStyle.OUTLINE ? getOutlineStyle() : {})
-                }}
+                className={`opacity-40 italic ${sourceColorClass('text-gray-500')}`}
+                style={sourceStyle(theme.sourceSize * LOG_SIZE_SCALE * INTERIM_SIZE_SCALE)}
               >
-                {inputText}
+                {interimText}...
               </div>
             )}
+          </>
+        ) : (
+          <>
+            {renderSpeakerBadge(currentSpeaker)}
+
+            {/* Input Text (Source) — confirmed recognition */}
+            <AnimatedLine
+              text={inputText ?? ''}
+              lineId={inputText ?? ''}
+              animation={theme.animation}
+              className={`opacity-80 mb-2 ${sourceColorClass('text-gray-400')}`}
+              style={sourceStyle(theme.sourceSize)}
+            />
 
             {/* Interim Text — currently being spoken (real-time feedback) */}
             {interimText && (
               <div
-                className={`text-xl md:text-2xl lg:text-3xl opacity-40 italic ${bgMode === BackgroundMode.NORMAL ? 'text-gray-500' : 'text-white'}`}
-                style={{
-                  fontFamily: sourceFont,
-                  ...(textStyle === TextStyle.OUTLINE ? getOutlineStyle() : {})
-                }}
+                className={`opacity-40 italic ${sourceColorClass('text-gray-500')}`}
+                style={sourceStyle(theme.sourceSize * INTERIM_SIZE_SCALE)}
               >
                 {interimText}...
               </div>
             )}
 
             {/* Translated Text (Target) */}
-            {text && (
-              <div
-                className={`text-5xl md:text-6xl lg:text-7xl leading-tight break-words ${getTextClasses()}`}
-                style={{
-                  fontFamily: targetFont,
-                  ...(shouldApplyOutline(true) ? getOutlineStyle() : {})
-                }}
-              >
-                {text}
-              </div>
-            )}
+            <AnimatedLine
+              text={text}
+              lineId={currentRequestId ?? 'current'}
+              animation={theme.animation}
+              className={`leading-tight break-words ${getTextClasses()}`}
+              style={translationStyle(theme.translationSize)}
+            />
+
+            {/* Extra target languages, stacked under the main translation */}
+            {text && renderExtraLines(extraTexts, theme.extraSize, currentRequestId ?? 'current', theme.animation)}
           </>
         )}
       </div>
@@ -130,6 +295,9 @@ export const SubtitleDisplay: React.FC<SubtitleDisplayProps> = ({ text, inputTex
           </span>
         </div>
       )}
+
+      {/* A percentage of the display's own height, so previews and overlays of any size match */}
+      {theme.position === SubtitlePosition.LOWER_THIRD && <div className="shrink-0 basis-1/5" />}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { Palette, Play, RotateCcw } from 'lucide-react';
+import { BackgroundMode, FontFamily, SubtitleAlign, SubtitleAnimation, SubtitlePosition, SubtitleTheme, TextStyle } from '../types';
+import { SubtitleDisplay } from './SubtitleDisplay';
+import { THEME_RANGES, backgroundColor, createDefaultTheme } from '../utils/theme';
+
+interface ThemeEditorProps {
+  theme: SubtitleTheme;
+  onChange: (theme: SubtitleTheme) => void;
+  // The rest of the look, so the preview matches the screen
+  bgMode: BackgroundMode;
+  textStyle: TextStyle;
+  outlineColor: string;
+  sourceFont: FontFamily;
+  targetFont: FontFamily;
+}
+
+// The preview renders a 1280x720 screen scaled down to fit the panel
+const PREVIEW_WIDTH = 1280;
+const PREVIEW_HEIGHT = 720;
+const PREVIEW_SCALE = 0.2;
+
+const PREVIEW_SAMPLES = [
+  { source: 'こんにちは、ご機嫌いかがですか', translation: 'Hello, how are you?', extra: '안녕하세요, 잘 지내세요?' },
+  { source: '今日は来てくれてありがとう', translation: 'Thanks for coming today.', extra: '오늘 와 줘서 고마워요.' },
+];
+
+const SIZE_FIELDS: { key: 'translationSize' | 'sourceSize' | 'extraSize'; label: string }[] = [
+  { key: 'translationSize', label: '翻訳' },
+  { key: 'sourceSize', label: '原文' },
+  { key: 'extraSize', label: '追加言語' },
+];
+
+const ALIGN_OPTIONS = [
+  { value: SubtitleAlign.LEFT, label: '左' },
+  { value: SubtitleAlign.CENTER, label: '中央' },
+  { value: SubtitleAlign.RIGHT, label: '右' },
+];
+
+const POSITION_OPTIONS = [
+  { value: SubtitlePosition.TOP, label: '上' },
+  { value: SubtitlePosition.LOWER_THIRD, label: '下1/3' },
+  { value: SubtitlePosition.BOTTOM, label: '下' },
+];
+
+const ANIMATION_OPTIONS = [
+  { value: SubtitleAnimation.NONE, label: 'なし' },
+  { value: SubtitleAnimation.FADE, label: 'フェード' },
+  { value: SubtitleAnimation.TYPEWRITER, label: 'タイプライター' },
+  { value: SubtitleAnimation.SLIDE, label: 'スライド' },
+];
+
+/**
+ * Colors, sizes, placement and animation of the subtitles, with a scaled-down
+ * preview. The OBS overlay follows the same theme.
+ */
+export const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme, onChange, bgMode, textStyle, outlineColor, sourceFont, targetFont }) => {
+  const [sampleIndex, setSampleIndex] = useState(0);
+  const sample = PREVIEW_SAMPLES[sampleIndex % PREVIEW_SAMPLES.length];
+
+  const set = <K extends keyof SubtitleTheme>(key: K, value: SubtitleTheme[K]) => onChange({ ...theme, [key]: value });
+
+  const renderChoice = <T extends string>(options: { value: T; label: string }[], current: T, onSelect: (value: T) => void) => (
+    <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${options.length}, minmax(0, 1fr))` }}>
+      {options.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onSelect(option.value)}
+          className={`px-1 py-1 text-[10px] rounded border transition-colors ${current === option.value
+            ? 'bg-emerald-600 border-emerald-500 text-white'
+            : 'bg-gray-900 border-gray-700 hover:bg-gray-700'
+            }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-800 p-2 rounded border border-gray-700 space-y-2">
+      <div className="flex items-center justify-between text-xs text-gray-300">
+        <span className="flex items-center gap-1"><Palette size={12} /> 字幕テーマ</span>
+        <button
+          onClick={() => onChange(createDefaultTheme())}
+          className="flex items-center gap-1 text-[10px] text-gray-400 hover:text-white"
+          title="初期値に戻す"
+        >
+          <RotateCcw size={10} /> リセット
+        </button>
+      </div>
+
+      {/* Live preview */}
+      <div className="relative mx-auto w-fit">
+        <div
+          className="relative overflow-hidden rounded border border-gray-700"
+          style={{
+            width: PREVIEW_WIDTH * PREVIEW_SCALE,
+            height: PREVIEW_HEIGHT * PREVIEW_SCALE,
+            backgroundColor: backgroundColor(bgMode, theme.chromaColor)
+          }}
+        >
+          <div
+            className="absolute top-0 left-0 pointer-events-none"
+            style={{ width: PREVIEW_WIDTH, height: PREVIEW_HEIGHT, transform: `scale(${PREVIEW_SCALE})`, transformOrigin: 'top left' }}
+            aria-hidden
+          >
+            <SubtitleDisplay
+              text={sample.translation}
+              inputText={sample.source}
+              bgMode={bgMode}
+              textStyle={textStyle}
+              outlineColor={outlineColor}
+              theme={theme}
+              sourceFont={sourceFont}
+              targetFont={targetFont}
+              extraTexts={[{ lang: 'Korean', text: sample.extra }]}
+              currentRequestId={`preview-${sampleIndex}`}
+              showIdleHint={false}
+            />
+          </div>
+        </div>
+        <button
+          onClick={() => setSampleIndex(i => i + 1)}
+          className="absolute bottom-1 right-1 p-1 rounded bg-gray-900/80 hover:bg-gray-700 text-gray-200"
+          title="次の字幕でアニメーションを確認"
+        >
+          <Play size={10} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex items-center justify-between gap-1 text-[10px] text-gray-400">
+          翻訳の文字色
+          <input
+            type="color"
+            value={theme.textColor}
+            onChange={(e) => set('textColor', e.target.value)}
+            className="w-6 h-6 p-0 border-0 rounded overflow-hidden cursor-pointer"
+          />
+        </label>
+        <div className="flex items-center justify-between gap-1 text-[10px] text-gray-400">
+          <label className="flex items-center gap-1 cursor-pointer" title="背景に合わせて自動で決める">
+            <input
+              type="checkbox"
+              checked={!theme.sourceColor}
+              onChange={(e) => set('sourceColor', e.target.checked ? '' : '#ffffff')}
+              className="accent-emerald-500"
+            />
+            原文 自動
+          </label>
+          {theme.sourceColor && (
+            <input
+              type="color"
+              value={theme.sourceColor}
+              onChange={(e) => set('sourceColor', e.target.value)}
+              className="w-6 h-6 p-0 border-0 rounded overflow-hidden cursor-pointer"
+              title="原文の文字色"
+            />
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-[10px] text-gray-400 mb-1">
+          縁取りの太さ: {theme.strokeWidth === 0 ? 'なし' : `${theme.strokeWidth}px`}
+        </label>
+        <input
+          type="range"
+          {...THEME_RANGES.strokeWidth}
+          value={theme.strokeWidth}
+          onChange={(e) => set('strokeWidth', Number(e.target.value))}
+          className="w-full accent-emerald-500"
+          disabled={textStyle !== TextStyle.OUTLINE}
+          title={textStyle !== TextStyle.OUTLINE ? '字幕スタイルが「縁取り」のときに使われます' : undefined}
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {SIZE_FIELDS.map(({ key, label }) => (
+          <div key={key}>
+            <label className="block text-[10px] text-gray-400 mb-1">{label}: {theme[key]}px</label>
+            <input
+              type="range"
+              {...THEME_RANGES[key]}
+              step={2}
+              value={theme[key]}
+              onChange={(e) => set(key, Number(e.target.value))}
+              className="w-full accent-emerald-500"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-[10px] text-gray-400 mb-1">揃え</label>
+          {renderChoice(ALIGN_OPTIONS, theme.align, value => set('align', value))}
+        </div>
+        <div>
+          <label className="block text-[10px] text-gray-400 mb-1">位置</label>
+          {renderChoice(POSITION_OPTIONS, theme.position, value => set('position', value))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-[10px] text-gray-400 mb-1">最大幅: {theme.maxWidth}%</label>
+          <input
+            type="range"
+            {...THEME_RANGES.maxWidth}
+            step={5}
+            value={theme.maxWidth}
+            onChange={(e) => set('maxWidth', Number(e.target.value))}
+            className="w-full accent-emerald-500"
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] text-gray-400 mb-1">アニメーション</label>
+          <select
+            value={theme.animation}
+            onChange={(e) => set('animation', e.target.value as SubtitleAnimation)}
+            className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs focus:border-emerald-500 outline-none"
+          >
+            {ANIMATION_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
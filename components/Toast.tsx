@@ -0,0 +1,25 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+
+interface ToastProps {
+  message: string | null;
+  onDismiss: () => void;
+}
+
+// Transient notice for recoverable errors; fatal ones are shown in the control panel
+export const Toast: React.FC<ToastProps> = ({ message, onDismiss }) => {
+  if (!message) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 max-w-md bg-amber-900/90 border border-amber-500 text-amber-100 px-4 py-2 rounded-lg shadow-2xl text-sm flex items-start gap-2"
+    >
+      <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+      <span>{message}</span>
+      <button onClick={onDismiss} className="text-amber-300 hover:text-white shrink-0" aria-label="閉じる">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,675 @@
+/**
+ * Pluggable Translation Engines
+ * Every backend implements the same `translate(text, ctx)` contract and
+ * advertises its capabilities, so RequestQueue only has to pick an engine
+ * from the routing table instead of branching per backend.
+ */
+
+const deepl = require('deepl-node');
+const { BASE_INSTRUCTION } = require('./personae');
+const { buildGlossaryInstruction, pairKey } = require('./glossary');
+const { ERROR_CODES } = require('./protocol.cjs');
+
+const deeplLangMap = {
+  'Japanese': 'ja',
+  'English': 'en-US',
+  'Spanish': 'es',
+  'Chinese': 'zh',
+  'Korean': 'ko',
+  'French': 'fr',
+  'German': 'de'
+};
+
+// DeepL wants the bare language for source languages and glossaries ("en", not "en-US")
+const deeplBaseLang = (lang) => (deeplLangMap[lang] || 'en').split('-')[0];
+
+const escapeXml = (text) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const unescapeXml = (text) => text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+/**
+ * Wraps do-not-translate terms in <keep> tags, which DeepL is told to leave alone.
+ */
+const protectTerms = (text, terms) => terms.reduce(
+  (xml, term) => xml.split(escapeXml(term)).join(`<keep>${escapeXml(term)}</keep>`),
+  escapeXml(text)
+);
+
+const unprotectTerms = (xml) => unescapeXml(xml.replace(/<\/?keep>/g, ''));
+
+/**
+ * Error raised by an engine. `code` is one of ERROR_CODES; `userMessage` is what
+ * the client sees (the server falls back to a generic text for the code);
+ * `rateLimit` (if set) is sent as a `rate_limit` payload instead of an `error`.
+ */
+class EngineError extends Error {
+  constructor(message, { code, userMessage, rateLimit } = {}) {
+    super(message);
+    this.name = 'EngineError';
+    this.code = code || (rateLimit ? ERROR_CODES.QUOTA : ERROR_CODES.INTERNAL);
+    this.userMessage = userMessage || null;
+    this.rateLimit = rateLimit || null;
+  }
+}
+
+// deepl-node error classes, by what they mean for the user
+const classifyDeepLError = (err) => {
+  if (err instanceof deepl.AuthorizationError) return ERROR_CODES.AUTH;
+  if (err instanceof deepl.QuotaExceededError || err instanceof deepl.TooManyRequestsError) return ERROR_CODES.QUOTA;
+  if (err instanceof deepl.ConnectionError) return ERROR_CODES.ENGINE_UNREACHABLE;
+  return ERROR_CODES.INTERNAL;
+};
+
+/**
+ * Helper to fetch with retry for transient network errors (common in tunnel setups)
+ */
+async function fetchWithRetry(url, options, maxRetries = 3, delay = 1000) {
+  let lastError;
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      const response = await fetch(url, options);
+      if (response.ok) return response;
+
+      // Don't retry for 4xx errors (except 429/408)
+      if (response.status >= 400 && response.status < 500 && ![408, 429].includes(response.status)) {
+        throw new Error(`HTTP Error ${response.status}: ${response.statusText}`);
+      }
+
+      lastError = new Error(`HTTP Error ${response.status}: ${response.statusText}`);
+    } catch (err) {
+      lastError = err;
+      // Don't retry for certain fatal errors if needed, but for now we retry most
+    }
+
+    if (i < maxRetries - 1) {
+      const wait = delay * Math.pow(2, i); // Exponential backoff
+      console.log(`[Retry] Attempt ${i + 1} failed. Retrying in ${wait}ms... (${lastError.message})`);
+      await new Promise(res => setTimeout(res, wait));
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Reads an NDJSON response body (Ollama streaming format) and reports each
+ * `response` fragment as it arrives. Resolves with the full text.
+ */
+async function readOllamaStream(response, onDelta) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let fullText = '';
+
+  const handleLine = (line) => {
+    if (!line.trim()) return;
+    const data = JSON.parse(line);
+    if (data.error) throw new Error(data.error);
+    if (data.response) {
+      fullText += data.response;
+      onDelta(data.response);
+    }
+  };
+
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop();
+    lines.forEach(handleLine);
+  }
+  buffer += decoder.decode();
+  handleLine(buffer);
+
+  return fullText;
+}
+
+/**
+ * Streams a Gemini completion, reporting each chunk's text as it arrives.
+ * Resolves with the full text.
+ */
+async function streamGemini(client, contents, onDelta) {
+  const stream = await client.models.generateContentStream({
+    model: 'gemini-2.0-flash',
+    contents,
+  });
+
+  let fullText = '';
+  for await (const chunk of stream) {
+    const delta = chunk.text;
+    if (delta) {
+      fullText += delta;
+      onDelta(delta);
+    }
+  }
+  return fullText;
+}
+
+/**
+ * Builds the LLM prompt shared by the Ollama and Gemini engines.
+ */
+function buildPersonaPrompt(text, { targetLang, profile, history, glossary }) {
+  let systemInstruction = BASE_INSTRUCTION + (profile ? `\nPersona Profile: ${profile.description}\nRules:\n${profile.rules.map(r => "- " + r).join("\n")}` : "");
+  systemInstruction += buildGlossaryInstruction(glossary);
+
+  let fullPrompt = `${systemInstruction}\n\n${history || ''}`;
+
+  if (profile && profile.examples) {
+    fullPrompt += "\nExamples of Persona Style:\n" + profile.examples.map(ex => `Input: "${ex.input}" -> Output: "${ex.output}"`).join("\n");
+  }
+
+  fullPrompt += `\n\nTarget Language: ${targetLang}\nCurrent Input: "${text}"\nNatural Persona Translation:`;
+  return fullPrompt;
+}
+
+/**
+ * Base class for all engines.
+ *
+ * ctx passed to translate():
+ *   - sourceLang / targetLang / persona: the request settings
+ *   - profile: the persona's profile from PersonaStore, or null
+ *   - history: formatted conversation context for persona prompts
+ *   - glossary: terms for this request from GlossaryStore.forRequest(), or null
+ *   - onDelta(text): set when the caller wants streamed output
+ *   - onReset(): set with onDelta; the text streamed so far is void (e.g. before a retry)
+ *   - send(msg): pushes an out-of-band message (e.g. rate_limit) to the client
+ *
+ * capabilities.languages is the list of supported target languages, or null for any.
+ */
+class TranslationEngine {
+  constructor(id, label, capabilities) {
+    this.id = id;
+    this.label = label;
+    this.capabilities = {
+      persona: false,
+      streaming: false,
+      languages: null,
+      ...capabilities
+    };
+    this.lastHealth = null;
+  }
+
+  isConfigured() {
+    return true;
+  }
+
+  supportsLanguage(lang) {
+    return !this.capabilities.languages || this.capabilities.languages.includes(lang);
+  }
+
+  async healthCheck() {
+    return { ok: this.isConfigured() };
+  }
+
+  async translate(text, ctx) {
+    throw new Error(`${this.id}: translate() not implemented`);
+  }
+
+  /**
+   * Plain prompt completion, for LLM engines (capabilities.persona) only.
+   * Used by the moderation check.
+   */
+  async complete(prompt) {
+    throw new Error(`${this.id}: complete() not implemented`);
+  }
+
+  describe() {
+    return {
+      id: this.id,
+      label: this.label,
+      capabilities: this.capabilities,
+      configured: this.isConfigured(),
+      health: this.lastHealth
+    };
+  }
+}
+
+class OllamaEngine extends TranslationEngine {
+  constructor({ url, model, apiKey }) {
+    super('ollama', `Precision Engine (${model})`, { persona: true, streaming: true });
+    this.url = url;
+    this.model = model;
+    this.apiKey = apiKey;
+  }
+
+  headers() {
+    const headers = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['X-API-KEY'] = this.apiKey;
+    }
+    return headers;
+  }
+
+  async healthCheck() {
+    try {
+      const response = await fetch(new URL('/api/tags', this.url), { headers: this.headers() });
+      return { ok: response.ok, detail: response.ok ? undefined : `HTTP ${response.status}` };
+    } catch (err) {
+      return { ok: false, detail: err.message };
+    }
+  }
+
+  async translate(text, ctx) {
+    console.log(`Using Precision Engine (${this.model}) [Context: ${ctx.persona || 'none'}]`);
+    const stream = !!ctx.onDelta;
+
+    try {
+      const response = await fetchWithRetry(this.url, {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({
+          model: this.model,
+          prompt: buildPersonaPrompt(text, ctx),
+          stream
+        })
+      }, 3, 1000); // 3 retries, start with 1s delay
+
+      if (stream) {
+        return await readOllamaStream(response, ctx.onDelta);
+      }
+      const data = await response.json();
+      return data.response;
+    } catch (err) {
+      console.error("Precision Engine failed after retries:", err.message);
+      const isTimeout = err.message.includes('ETIMEDOUT') || err.message.includes('timeout');
+      const isConnectionRefused = err.message.includes('ECONNREFUSED');
+
+      let userMessage = `翻訳エンジン (Precision Engine) に接続できません。`;
+      if (isConnectionRefused) {
+        userMessage += "エンジンの起動状態を確認してください。";
+      } else if (isTimeout) {
+        userMessage += "通信タイムアウトが発生しました。トンネルの状態を確認してください。";
+      } else {
+        userMessage += `(${err.message})`;
+      }
+      throw new EngineError(err.message, { code: ERROR_CODES.ENGINE_UNREACHABLE, userMessage });
+    }
+  }
+
+  async complete(prompt) {
+    const response = await fetchWithRetry(this.url, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({ model: this.model, prompt, stream: false })
+    }, 2, 500);
+    const data = await response.json();
+    return data.response;
+  }
+}
+
+class DeepLEngine extends TranslationEngine {
+  constructor({ translator, keyPresent }) {
+    super('deepl', 'Standard Engine (DeepL)', { languages: Object.keys(deeplLangMap) });
+    this.translator = translator;
+    this.keyPresent = keyPresent;
+    this.glossaries = new Map(); // "Japanese>English" -> { fingerprint, id }
+    this.pendingGlossaries = new Map(); // "Japanese>English" -> { fingerprint, promise } while DeepL creates one
+  }
+
+  /**
+   * DeepL glossaries are immutable, so a changed term list means a new glossary.
+   * Resolves with the glossary id, or null when the pair has no terms or DeepL refused it.
+   */
+  async ensureGlossary(sourceLang, targetLang, glossary) {
+    if (!glossary || glossary.entries.length === 0) return null;
+    const key = pairKey(sourceLang, targetLang);
+    const current = this.glossaries.get(key);
+    if (current && current.fingerprint === glossary.fingerprint) return current.id;
+
+    // Lines arriving while a glossary is being created wait for it instead of creating their own
+    const pending = this.pendingGlossaries.get(key);
+    if (pending) {
+      if (pending.fingerprint === glossary.fingerprint) return pending.promise;
+      await pending.promise;
+      return this.ensureGlossary(sourceLang, targetLang, glossary);
+    }
+    const promise = this.replaceGlossary(key, sourceLang, targetLang, glossary)
+      .finally(() => this.pendingGlossaries.delete(key));
+    this.pendingGlossaries.set(key, { fingerprint: glossary.fingerprint, promise });
+    return promise;
+  }
+
+  // Creates the pair's glossary on DeepL and deletes the one it replaces
+  async replaceGlossary(key, sourceLang, targetLang, glossary) {
+    const current = this.glossaries.get(key);
+    let id = null;
+    try {
+      const entries = new deepl.GlossaryEntries({
+        entries: Object.fromEntries(glossary.entries.map(entry => [entry.source, entry.target]))
+      });
+      const created = await this.translator.createGlossary(`livetranslate ${key}`, deeplBaseLang(sourceLang), deeplBaseLang(targetLang), entries);
+      id = created.glossaryId;
+      console.log(`DeepL glossary created for ${key} (${glossary.entries.length} terms)`);
+    } catch (err) {
+      // e.g. an unsupported language pair; the post-check still applies the terms
+      console.warn(`DeepL glossary for ${key} unavailable:`, err.message);
+    }
+    if (current?.id) {
+      this.translator.deleteGlossary(current.id).catch(() => {});
+    }
+    this.glossaries.set(key, { fingerprint: glossary.fingerprint, id });
+    return id;
+  }
+
+  isConfigured() {
+    return !!this.translator;
+  }
+
+  async healthCheck() {
+    if (!this.translator) return { ok: false, detail: 'not configured' };
+    try {
+      await this.translator.getUsage();
+      return { ok: true };
+    } catch (err) {
+      return { ok: false, detail: err.message };
+    }
+  }
+
+  async translate(text, ctx) {
+    if (!this.translator) {
+      throw new EngineError('DeepL translator unavailable', {
+        code: ERROR_CODES.AUTH,
+        userMessage: this.keyPresent
+          ? 'DeepL APIキーの認証に失敗しました。キーの設定を確認してください。'
+          : 'DeepL APIキーが設定されていません (DEEPL_API_KEY)。'
+      });
+    }
+    console.log(`Using Standard Engine for translation`);
+    const targetCode = deeplLangMap[ctx.targetLang] || 'en-US';
+    const glossaryId = await this.ensureGlossary(ctx.sourceLang, ctx.targetLang, ctx.glossary);
+    const keep = ctx.glossary?.doNotTranslate || [];
+
+    const options = {};
+    if (glossaryId) options.glossary = glossaryId;
+    if (keep.length > 0) {
+      options.tagHandling = 'xml';
+      options.ignoreTags = ['keep'];
+    }
+    // A glossary only works with an explicit source language
+    const sourceCode = glossaryId ? deeplBaseLang(ctx.sourceLang) : null;
+    const input = keep.length > 0 ? protectTerms(text, keep) : text;
+
+    let result;
+    try {
+      result = await this.translator.translateText(input, sourceCode, targetCode, options);
+    } catch (err) {
+      throw new EngineError(err.message, { code: classifyDeepLError(err) });
+    }
+    return keep.length > 0 ? unprotectTerms(result.text) : result.text;
+  }
+}
+
+class GeminiEngine extends TranslationEngine {
+  constructor({ keyPool }) {
+    super('gemini', 'Gemini 2.0 Flash', { persona: true, streaming: true });
+    this.keyPool = keyPool;
+  }
+
+  isConfigured() {
+    return this.keyPool.hasKeys();
+  }
+
+  async healthCheck() {
+    return this.isConfigured() ? { ok: true } : { ok: false, detail: 'no API keys' };
+  }
+
+  async generate(keyItem, prompt, onDelta) {
+    if (onDelta) {
+      return streamGemini(keyItem.client, prompt, onDelta);
+    }
+    const response = await keyItem.client.models.generateContent({
+      model: 'gemini-2.0-flash',
+      contents: prompt,
+    });
+    return response.text;
+  }
+
+  async translate(text, ctx) {
+    const { keyPool } = this;
+    const rateStatus = keyPool.getAggregatedStatus();
+
+    if (!rateStatus.allowed) {
+      const isDailyLimit = rateStatus.dayRemaining === 0;
+      console.error(`All keys rate limited. ${isDailyLimit ? 'Daily' : 'Minute'} limit reached.`);
+
+      throw new EngineError('All keys rate limited', {
+        rateLimit: {
+          limited: true,
+          isDailyLimit,
+          waitTime: rateStatus.waitTime,
+          minuteRemaining: rateStatus.minuteRemaining,
+          dayRemaining: rateStatus.dayRemaining,
+          message: isDailyLimit
+            ? `エンジンのリクエスト上限に達しました（1日）。`
+            : `エンジンのリクエスト上限に達しました（1分）。${Math.ceil(rateStatus.waitTime / 1000)}秒お待ちください。`
+        }
+      });
+    }
+
+    ctx.send({
+      type: 'rate_limit',
+      data: {
+        limited: false,
+        minuteRemaining: rateStatus.minuteRemaining,
+        dayRemaining: rateStatus.dayRemaining
+      }
+    });
+
+    console.log(`Using Gemini for persona: ${ctx.persona}`);
+    return this.generateWithPool(buildPersonaPrompt(text, ctx), ctx.onDelta, ctx.onReset);
+  }
+
+  async complete(prompt) {
+    if (!this.keyPool.getAggregatedStatus().allowed) {
+      throw new EngineError('All keys rate limited', { code: ERROR_CODES.QUOTA });
+    }
+    return this.generateWithPool(prompt);
+  }
+
+  /**
+   * Runs a prompt, moving on to the next key while keys are rate limited or rejected.
+   * onReset is called before each retry, since the next key streams from the start.
+   */
+  async generateWithPool(prompt, onDelta, onReset) {
+    const { keyPool } = this;
+    let keyItem = keyPool.getAvailableKey();
+    if (!keyItem) {
+      throw new EngineError('No available API keys', { code: ERROR_CODES.QUOTA });
+    }
+
+    let failure = null;
+    while (keyItem) {
+      console.log(`Gemini request (Key #${keyItem.index + 1})`);
+      try {
+        const output = await this.generate(keyItem, prompt, onDelta);
+        keyItem.limiter.record();
+        keyPool.reportSuccess(keyItem);
+        return output;
+      } catch (apiError) {
+        failure = keyPool.reportFailure(keyItem, apiError);
+        if (failure.kind === 'other') {
+          // A 400 means Gemini refused this prompt; anything else is a network or service problem
+          const status = apiError.status || apiError.statusCode;
+          throw new EngineError(failure.message, { code: status === 400 ? ERROR_CODES.BAD_INPUT : ERROR_CODES.ENGINE_UNREACHABLE });
+        }
+        keyItem = keyPool.getAvailableKey();
+        if (keyItem) {
+          console.log(`Retrying with Key #${keyItem.index + 1}...`);
+          if (onReset) onReset();
+        }
+      }
+    }
+
+    if (failure.kind === 'auth') {
+      throw new EngineError(failure.message, { code: ERROR_CODES.AUTH, userMessage: 'Gemini APIキーの認証に失敗しました。キーの設定を確認してください。' });
+    }
+    throw new EngineError(failure.message, {
+      rateLimit: {
+        limited: true,
+        isDailyLimit: failure.isDailyLimit,
+        waitTime: keyPool.getAggregatedStatus().waitTime || 60000,
+        message: '全てのAPIキーでレートリミットに達しました。'
+      }
+    });
+  }
+}
+
+class MockEngine extends TranslationEngine {
+  constructor() {
+    super('mock', 'Mock', { persona: true });
+  }
+
+  async translate(text, ctx) {
+    console.log(`Using MOCK for persona: ${ctx.persona}`);
+    let result = text;
+    if (ctx.profile) {
+      result = `(${ctx.profile.name}) ${text}`;
+    }
+    return `[MOCK] ${result}`;
+  }
+
+  async complete() {
+    return 'OK';
+  }
+}
+
+/**
+ * Last resort: shows the recognized text untranslated so the stream keeps going.
+ */
+class PassthroughEngine extends TranslationEngine {
+  constructor() {
+    super('passthrough', 'Passthrough (原文)', {});
+  }
+
+  async translate(text) {
+    return text;
+  }
+}
+
+/**
+ * Routing table: picks an engine for each request.
+ *
+ * routes.standard  - engine for requests without a persona
+ * routes.persona   - engine for persona requests
+ * routes.overrides - per-persona engine ids (e.g. { cat: 'ollama' })
+ * routes.fallback  - engine ids tried in order when the routed engine fails
+ */
+class EngineRouter {
+  constructor(engines, routes) {
+    this.engines = new Map(engines.map(e => [e.id, e]));
+    this.routes = { overrides: {}, fallback: [], ...routes };
+  }
+
+  get(id) {
+    return this.engines.get(id);
+  }
+
+  route({ persona, targetLang }) {
+    const hasPersona = persona && persona !== 'none';
+    const id = (hasPersona && this.routes.overrides[persona]) || (hasPersona ? this.routes.persona : this.routes.standard);
+    const engine = this.engines.get(id);
+
+    if (!engine) {
+      throw new EngineError(`Unknown engine "${id}"`, { code: ERROR_CODES.INTERNAL, userMessage: `翻訳エンジン "${id}" は登録されていません。` });
+    }
+    if (targetLang && !engine.supportsLanguage(targetLang)) {
+      throw new EngineError(`${engine.id} does not support ${targetLang}`, { code: ERROR_CODES.BAD_INPUT, userMessage: `${engine.label} は ${targetLang} に対応していません。` });
+    }
+    return engine;
+  }
+
+  /**
+   * Routed engine first, then every configured fallback that supports the target language.
+   */
+  routeChain({ persona, targetLang }) {
+    const primary = this.route({ persona, targetLang });
+    const fallbacks = this.routes.fallback
+      .map(id => this.engines.get(id))
+      .filter(e => e && e !== primary && e.isConfigured() && (!targetLang || e.supportsLanguage(targetLang)));
+    return [primary, ...new Set(fallbacks)];
+  }
+
+  /**
+   * Translates with the routed engine, moving down the fallback chain on failure.
+   * Resolves with { text, engine }; rejects with the last error once every engine has failed.
+   * onFallback(failedEngine, err, nextEngine) is called before each retry, after ctx.onReset.
+   */
+  async translate(text, ctx, { onFallback } = {}) {
+    const chain = this.routeChain(ctx);
+    let lastError = null;
+
+    for (let i = 0; i < chain.length; i++) {
+      const engine = chain[i];
+      const streaming = !!ctx.onDelta && engine.capabilities.streaming;
+      try {
+        const result = await engine.translate(text, {
+          ...ctx,
+          onDelta: streaming ? (delta) => ctx.onDelta(delta, engine) : undefined,
+          onReset: streaming ? ctx.onReset : undefined
+        });
+        if (result) return { text: result, engine };
+        lastError = new EngineError(`${engine.id} returned an empty translation`);
+      } catch (err) {
+        lastError = err;
+      }
+
+      console.error(`Engine ${engine.id} failed: ${lastError.message}`);
+      if (i < chain.length - 1) {
+        // The next engine streams its own translation from the start
+        if (ctx.onDelta && ctx.onReset) ctx.onReset();
+        if (onFallback) onFallback(engine, lastError, chain[i + 1]);
+      }
+    }
+
+    throw lastError;
+  }
+
+  async checkHealth() {
+    await Promise.all([...this.engines.values()].map(async (engine) => {
+      engine.lastHealth = { ...(await engine.healthCheck()), checkedAt: Date.now() };
+    }));
+    return this.describe();
+  }
+
+  describe() {
+    return [...this.engines.values()].map(e => ({
+      ...e.describe(),
+      routes: [
+        this.routes.standard === e.id && 'standard',
+        this.routes.persona === e.id && 'persona',
+        this.routes.fallback.includes(e.id) && 'fallback',
+        ...Object.entries(this.routes.overrides).filter(([, id]) => id === e.id).map(([p]) => p)
+      ].filter(Boolean)
+    }));
+  }
+}
+
+/**
+ * Parses "ollama,gemini,deepl" into a list of engine ids.
+ */
+function parseEngineList(value) {
+  if (!value) return [];
+  return value.split(',').map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Parses "persona:engine,persona:engine" into an overrides map.
+ */
+function parseRouteOverrides(value) {
+  if (!value) return {};
+  return Object.fromEntries(
+    value.split(',')
+      .map(pair => pair.split(':').map(s => s.trim()))
+      .filter(([persona, id]) => persona && id)
+  );
+}
+
+module.exports = {
+  TranslationEngine,
+  OllamaEngine,
+  DeepLEngine,
+  GeminiEngine,
+  MockEngine,
+  PassthroughEngine,
+  EngineRouter,
+  EngineError,
+  parseEngineList,
+  parseRouteOverrides,
+  deeplLangMap
+};
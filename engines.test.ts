@@ -0,0 +1,232 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { TranslationEngine, GeminiEngine, DeepLEngine, EngineRouter, EngineError, parseEngineList, parseRouteOverrides } from './engines';
+import { KeyPool } from './keyPool';
+import { ERROR_CODES } from './protocol.mjs';
+
+// Engine that answers with a fixed result (or throws it when it is an Error)
+class FakeEngine extends TranslationEngine {
+    calls: { text: string; ctx: any }[] = [];
+
+    constructor(id: string, private result: string | Error, capabilities = {}, private configured = true) {
+        super(id, id.toUpperCase(), capabilities);
+    }
+
+    isConfigured() {
+        return this.configured;
+    }
+
+    async translate(text: string, ctx: any): Promise<any> {
+        this.calls.push({ text, ctx });
+        if (this.result instanceof Error) throw this.result;
+        if (ctx.onDelta) ctx.onDelta(this.result);
+        return this.result;
+    }
+}
+
+const engineError = (message: string, code: string) => new EngineError(message, { code, userMessage: null, rateLimit: null });
+
+const makeRouter = (engines: FakeEngine[], routes = {}) => new EngineRouter(engines, {
+    standard: 'deepl',
+    persona: 'gemini',
+    ...routes
+});
+
+describe('EngineRouter', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should route standard and persona requests', () => {
+        const deepl = new FakeEngine('deepl', 'standard');
+        const gemini = new FakeEngine('gemini', 'persona');
+        const router = makeRouter([deepl, gemini]);
+
+        expect(router.route({ persona: 'none', targetLang: 'English' })).toBe(deepl);
+        expect(router.route({ persona: '', targetLang: 'English' })).toBe(deepl);
+        expect(router.route({ persona: 'cat', targetLang: 'English' })).toBe(gemini);
+    });
+
+    it('should route personas with an override to their own engine', () => {
+        const ollama = new FakeEngine('ollama', 'local');
+        const router = makeRouter([new FakeEngine('deepl', ''), new FakeEngine('gemini', ''), ollama], { overrides: { cat: 'ollama' } });
+
+        expect(router.route({ persona: 'cat', targetLang: 'English' })).toBe(ollama);
+        expect(router.route({ persona: 'samurai', targetLang: 'English' }).id).toBe('gemini');
+    });
+
+    it('should reject an unknown engine and an unsupported target language', () => {
+        const router = makeRouter([new FakeEngine('deepl', '', { languages: ['English', 'Japanese'] })], { persona: 'missing' });
+
+        expect(() => router.route({ persona: 'cat', targetLang: undefined })).toThrow(EngineError);
+        expect(() => router.route({ persona: 'cat', targetLang: undefined })).toThrow('Unknown engine "missing"');
+        try {
+            router.route({ persona: 'none', targetLang: 'Thai' });
+            expect.unreachable();
+        } catch (err) {
+            expect(err).toBeInstanceOf(EngineError);
+            expect(err.code).toBe(ERROR_CODES.BAD_INPUT);
+            expect(err.userMessage).toContain('Thai');
+        }
+    });
+
+    it('should build the fallback chain from configured engines that support the language', () => {
+        const deepl = new FakeEngine('deepl', '', { languages: ['English'] });
+        const gemini = new FakeEngine('gemini', '');
+        const ollama = new FakeEngine('ollama', '', {}, false);
+        const passthrough = new FakeEngine('passthrough', '');
+        const router = makeRouter([deepl, gemini, ollama, passthrough], { fallback: ['gemini', 'ollama', 'deepl', 'missing', 'passthrough'] });
+
+        expect(router.routeChain({ persona: 'none', targetLang: 'English' })).toEqual([deepl, gemini, passthrough]);
+        // DeepL cannot translate into Korean, so it drops out of a persona request's chain
+        expect(router.routeChain({ persona: 'cat', targetLang: 'Korean' })).toEqual([gemini, passthrough]);
+    });
+
+    it('should return the routed engine result', async () => {
+        const deepl = new FakeEngine('deepl', 'Hello');
+        const router = makeRouter([deepl, new FakeEngine('gemini', '')]);
+
+        const result = await router.translate('こんにちは', { persona: 'none', targetLang: 'English' });
+
+        expect(result).toEqual({ text: 'Hello', engine: deepl });
+        expect(deepl.calls[0].text).toBe('こんにちは');
+    });
+
+    it('should fall back step by step when engines fail or return nothing', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const deepl = new FakeEngine('deepl', engineError('quota', ERROR_CODES.QUOTA));
+        const gemini = new FakeEngine('gemini', '');
+        const passthrough = new FakeEngine('passthrough', 'こんにちは');
+        const router = makeRouter([deepl, gemini, passthrough], { fallback: ['gemini', 'passthrough'] });
+        const onFallback = vi.fn();
+
+        const result = await router.translate('こんにちは', { persona: 'none', targetLang: 'English' }, { onFallback });
+
+        expect(result.engine).toBe(passthrough);
+        expect(onFallback).toHaveBeenCalledTimes(2);
+        expect(onFallback.mock.calls[0][0]).toBe(deepl);
+        expect(onFallback.mock.calls[0][1].message).toBe('quota');
+        expect(onFallback.mock.calls[0][2]).toBe(gemini);
+        expect(onFallback.mock.calls[1][1].message).toBe('gemini returned an empty translation');
+        expect(onFallback.mock.calls[1][2]).toBe(passthrough);
+    });
+
+    it('should reject with the last error when no engine is left', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const lastError = engineError('unreachable', ERROR_CODES.ENGINE_UNREACHABLE);
+        const router = makeRouter([
+            new FakeEngine('deepl', new Error('down')),
+            new FakeEngine('gemini', lastError)
+        ], { fallback: ['gemini'] });
+        const onFallback = vi.fn();
+
+        await expect(router.translate('hi', { persona: 'none', targetLang: 'English' }, { onFallback })).rejects.toBe(lastError);
+        // Nothing comes after the last engine
+        expect(onFallback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only stream from engines that can', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const deepl = new FakeEngine('deepl', new Error('down'));
+        const gemini = new FakeEngine('gemini', 'Hi', { streaming: true });
+        const router = makeRouter([deepl, gemini], { fallback: ['gemini'] });
+        const onDelta = vi.fn();
+
+        await router.translate('hi', { persona: 'none', targetLang: 'English', onDelta });
+
+        expect(deepl.calls[0].ctx.onDelta).toBeUndefined();
+        expect(onDelta).toHaveBeenCalledWith('Hi', gemini);
+    });
+
+    it('should reset the stream before each fallback', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const events: string[] = [];
+        const ollama = new FakeEngine('ollama', new Error('down'), { streaming: true });
+        const gemini = new FakeEngine('gemini', 'Hi', { streaming: true });
+        const router = makeRouter([new FakeEngine('deepl', ''), ollama, gemini], { persona: 'ollama', fallback: ['gemini'] });
+
+        await router.translate('hi', {
+            persona: 'cat',
+            targetLang: 'English',
+            onDelta: (delta: string) => events.push(`delta:${delta}`),
+            onReset: () => events.push('reset')
+        }, { onFallback: () => events.push('fallback') });
+
+        expect(ollama.calls[0].ctx.onReset).toBeTypeOf('function');
+        expect(events).toEqual(['reset', 'fallback', 'delta:Hi']);
+    });
+
+    it('should describe the routes each engine serves', () => {
+        const router = makeRouter([new FakeEngine('deepl', ''), new FakeEngine('gemini', '')], { overrides: { cat: 'deepl' }, fallback: ['gemini'] });
+
+        expect(router.describe().map(e => [e.id, e.routes])).toEqual([
+            ['deepl', ['standard', 'cat']],
+            ['gemini', ['persona', 'fallback']]
+        ]);
+    });
+});
+
+describe('GeminiEngine', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should reset the stream before retrying with the next key', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const engine = new GeminiEngine({ keyPool: new KeyPool(['key-aaaa', 'key-bbbb'], 5, 20, { strategy: 'first' }) });
+        vi.spyOn(engine, 'generate')
+            .mockImplementationOnce(async (keyItem, prompt, onDelta) => {
+                onDelta('Hel');
+                throw Object.assign(new Error('Quota exceeded for GenerateRequestsPerMinutePerProjectPerModel'), { status: 429 });
+            })
+            .mockImplementationOnce(async (keyItem, prompt, onDelta) => {
+                onDelta('Hello');
+                return 'Hello';
+            });
+        const events: string[] = [];
+
+        const output = await engine.generateWithPool('prompt', (delta: string) => events.push(`delta:${delta}`), () => events.push('reset'));
+
+        expect(output).toBe('Hello');
+        expect(events).toEqual(['delta:Hel', 'reset', 'delta:Hello']);
+    });
+});
+
+describe('DeepLEngine', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should create a glossary once while lines for the pair are waiting on it', async () => {
+        let finish: (glossary: { glossaryId: string }) => void = () => {};
+        const translator = {
+            createGlossary: vi.fn(() => new Promise(resolve => { finish = resolve; })),
+            deleteGlossary: vi.fn().mockResolvedValue(undefined)
+        };
+        const engine = new DeepLEngine({ translator, keyPresent: true });
+        const glossary = { entries: [{ source: 'Gemini', target: 'ジェミニ' }], fingerprint: 'v1' };
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+
+        const first = engine.ensureGlossary('English', 'Japanese', glossary);
+        const second = engine.ensureGlossary('English', 'Japanese', glossary);
+        const changed = engine.ensureGlossary('English', 'Japanese', { ...glossary, fingerprint: 'v2' });
+        expect(translator.createGlossary).toHaveBeenCalledTimes(1);
+
+        finish({ glossaryId: 'g1' });
+        await expect(Promise.all([first, second])).resolves.toEqual(['g1', 'g1']);
+
+        // A changed term list waits for the first glossary, then replaces it
+        await vi.waitFor(() => expect(translator.createGlossary).toHaveBeenCalledTimes(2));
+        finish({ glossaryId: 'g2' });
+        await expect(changed).resolves.toBe('g2');
+        expect(translator.deleteGlossary).toHaveBeenCalledWith('g1');
+    });
+});
+
+describe('route configuration', () => {
+    it('should parse engine lists and persona overrides', () => {
+        expect(parseEngineList(' ollama, gemini,,deepl ')).toEqual(['ollama', 'gemini', 'deepl']);
+        expect(parseEngineList(undefined)).toEqual([]);
+        expect(parseRouteOverrides('cat:ollama, butler : deepl,broken')).toEqual({ cat: 'ollama', butler: 'deepl' });
+    });
+});
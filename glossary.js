@@ -0,0 +1,194 @@
+/**
+ * Glossary / Terminology
+ * Source term → target term lists per language pair, plus a "do not
+ * translate" list for names and handles. Stored in a JSON file so terms
+ * managed from the UI survive restarts.
+ *
+ * Engines get the terms that occur in the current utterance: LLM prompts
+ * have them injected, DeepL uses a native glossary. Every result is then
+ * post-checked with `enforceGlossary`.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const GLOSSARY_VERSION = 1;
+const DEFAULT_GLOSSARY_PATH = path.join(__dirname, 'data', 'glossary.json');
+
+// Keeps a hand-edited or hostile file from blowing up prompt size
+const MAX_TERMS_PER_PAIR = 200;
+const MAX_DO_NOT_TRANSLATE = 200;
+const MAX_TERM_LENGTH = 100;
+
+const pairKey = (sourceLang, targetLang) => `${sourceLang}>${targetLang}`;
+
+const cleanTerm = (value) => typeof value === 'string' ? value.trim().slice(0, MAX_TERM_LENGTH) : '';
+
+const includesTerm = (text, term) => text.toLowerCase().includes(term.toLowerCase());
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+class GlossaryStore {
+  constructor(filePath = DEFAULT_GLOSSARY_PATH, { saveDelay = 1000 } = {}) {
+    this.filePath = filePath;
+    this.saveDelay = saveDelay;
+    this.saveTimer = null;
+    this.pairs = {}; // "Japanese>English" -> [{ source, target }]
+    this.doNotTranslate = [];
+
+    if (filePath) this.load();
+  }
+
+  load() {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      if (data.version !== GLOSSARY_VERSION) {
+        console.warn(`Glossary ${this.filePath} has an unknown format. Starting empty.`);
+        return;
+      }
+      Object.entries(data.pairs || {}).forEach(([key, entries]) => {
+        const [sourceLang, targetLang] = key.split('>');
+        this.setTerms(sourceLang, targetLang, entries, { save: false });
+      });
+      this.setDoNotTranslate(data.doNotTranslate || [], { save: false });
+    } catch (err) {
+      if (err.code !== 'ENOENT') {
+        console.error(`Failed to read glossary ${this.filePath}:`, err.message);
+      }
+    }
+  }
+
+  getTerms(sourceLang, targetLang) {
+    return this.pairs[pairKey(sourceLang, targetLang)] || [];
+  }
+
+  /**
+   * Replaces the term list of one language pair. Blank and duplicate source terms are dropped.
+   */
+  setTerms(sourceLang, targetLang, entries, { save = true } = {}) {
+    const seen = new Set();
+    const clean = (Array.isArray(entries) ? entries : [])
+      .map(entry => ({ source: cleanTerm(entry?.source), target: cleanTerm(entry?.target) }))
+      .filter(entry => entry.source && entry.target && !seen.has(entry.source.toLowerCase()) && seen.add(entry.source.toLowerCase()))
+      .slice(0, MAX_TERMS_PER_PAIR);
+
+    const key = pairKey(sourceLang, targetLang);
+    if (clean.length > 0) this.pairs[key] = clean;
+    else delete this.pairs[key];
+    if (save) this.scheduleSave();
+  }
+
+  setDoNotTranslate(terms, { save = true } = {}) {
+    this.doNotTranslate = [...new Set((Array.isArray(terms) ? terms : []).map(cleanTerm).filter(Boolean))]
+      .slice(0, MAX_DO_NOT_TRANSLATE);
+    if (save) this.scheduleSave();
+  }
+
+  /**
+   * Glossary context for one request: `entries` is the whole pair (for DeepL's
+   * native glossary), `terms` / `doNotTranslate` only what occurs in `text`.
+   * `fingerprint` changes whenever the pair's glossary does, so cached
+   * translations made with older terms are not reused.
+   */
+  forRequest(text, sourceLang, targetLang) {
+    const entries = this.getTerms(sourceLang, targetLang);
+    if (entries.length === 0 && this.doNotTranslate.length === 0) return null;
+
+    const fingerprint = crypto.createHash('sha256')
+      .update(JSON.stringify([entries, this.doNotTranslate]))
+      .digest('hex')
+      .slice(0, 16);
+
+    return {
+      entries,
+      terms: entries.filter(entry => includesTerm(text, entry.source)),
+      doNotTranslate: this.doNotTranslate.filter(term => includesTerm(text, term)),
+      fingerprint
+    };
+  }
+
+  describe() {
+    return { pairs: this.pairs, doNotTranslate: this.doNotTranslate };
+  }
+
+  scheduleSave() {
+    if (!this.filePath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, this.saveDelay);
+  }
+
+  flush() {
+    if (!this.filePath) return;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify({ version: GLOSSARY_VERSION, ...this.describe() }, null, 2));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (err) {
+      console.error(`Failed to write glossary ${this.filePath}:`, err.message);
+    }
+  }
+}
+
+/**
+ * Prompt section for the LLM engines. Empty when nothing in the utterance is covered.
+ */
+function buildGlossaryInstruction(glossary) {
+  if (!glossary || (glossary.terms.length === 0 && glossary.doNotTranslate.length === 0)) return '';
+  let instruction = '';
+  if (glossary.terms.length > 0) {
+    instruction += '\nGlossary (always translate these terms exactly like this):\n'
+      + glossary.terms.map(t => `- "${t.source}" -> "${t.target}"`).join('\n');
+  }
+  if (glossary.doNotTranslate.length > 0) {
+    instruction += '\nDo not translate or transliterate these names; copy them exactly as written:\n'
+      + glossary.doNotTranslate.map(term => `- ${term}`).join('\n');
+  }
+  return instruction;
+}
+
+/**
+ * Post-check for engine output. A glossary term left in the source language is
+ * replaced with its target; anything still missing is reported so it can be logged.
+ */
+function enforceGlossary(translated, glossary) {
+  if (!glossary || !translated) return { text: translated, missing: [] };
+
+  let text = translated;
+  const missing = [];
+
+  glossary.terms.forEach(({ source, target }) => {
+    if (includesTerm(text, target)) return;
+    const pattern = new RegExp(escapeRegExp(source), 'gi');
+    if (pattern.test(text)) {
+      text = text.replace(pattern, target);
+    } else {
+      missing.push(target);
+    }
+  });
+
+  glossary.doNotTranslate.forEach(term => {
+    if (!text.includes(term)) {
+      // Engines tend to change the case of handles; restore the original spelling
+      const pattern = new RegExp(escapeRegExp(term), 'gi');
+      if (pattern.test(text)) text = text.replace(pattern, term);
+      else missing.push(term);
+    }
+  });
+
+  return { text, missing };
+}
+
+module.exports = {
+  GlossaryStore,
+  buildGlossaryInstruction,
+  enforceGlossary,
+  pairKey
+};
@@ -0,0 +1,75 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GlossaryStore, buildGlossaryInstruction, enforceGlossary } from './glossary';
+
+describe('GlossaryStore', () => {
+    let tmpDir: string | null = null;
+
+    afterEach(() => {
+        if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+        tmpDir = null;
+    });
+
+    it('should only hand out the terms used in the utterance', () => {
+        const store = new GlossaryStore(null);
+        store.setTerms('Japanese', 'English', [
+            { source: 'ゆっくり', target: 'Yukkuri' },
+            { source: '配信', target: 'stream' },
+            { source: '', target: 'ignored' }
+        ]);
+        store.setDoNotTranslate(['Hololive', 'Hololive', 'xX_Sniper_Xx']);
+
+        const glossary = store.forRequest('今日の配信はHololiveのコラボです', 'Japanese', 'English');
+        expect(glossary?.entries).toHaveLength(2);
+        expect(glossary?.terms).toEqual([{ source: '配信', target: 'stream' }]);
+        expect(glossary?.doNotTranslate).toEqual(['Hololive']);
+        expect(store.forRequest('hello', 'English', 'Japanese')?.terms).toEqual([]);
+    });
+
+    it('should change the fingerprint when terms change', () => {
+        const store = new GlossaryStore(null);
+        store.setTerms('Japanese', 'English', [{ source: '配信', target: 'stream' }]);
+        const before = store.forRequest('配信', 'Japanese', 'English')?.fingerprint;
+        store.setTerms('Japanese', 'English', [{ source: '配信', target: 'broadcast' }]);
+        expect(store.forRequest('配信', 'Japanese', 'English')?.fingerprint).not.toBe(before);
+    });
+
+    it('should persist to disk', () => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'glossary-'));
+        const filePath = path.join(tmpDir, 'glossary.json');
+        const store = new GlossaryStore(filePath);
+        store.setTerms('Japanese', 'English', [{ source: '配信', target: 'stream' }]);
+        store.setDoNotTranslate(['Hololive']);
+        store.flush();
+
+        const reloaded = new GlossaryStore(filePath);
+        expect(reloaded.describe()).toEqual({
+            pairs: { 'Japanese>English': [{ source: '配信', target: 'stream' }] },
+            doNotTranslate: ['Hololive']
+        });
+    });
+});
+
+describe('glossary enforcement', () => {
+    const glossary = {
+        entries: [],
+        terms: [{ source: '配信', target: 'stream' }, { source: 'スパチャ', target: 'Super Chat' }],
+        doNotTranslate: ['xX_Sniper_Xx'],
+        fingerprint: 'test'
+    };
+
+    it('should list the terms in the prompt', () => {
+        const instruction = buildGlossaryInstruction(glossary);
+        expect(instruction).toContain('"配信" -> "stream"');
+        expect(instruction).toContain('- xX_Sniper_Xx');
+        expect(buildGlossaryInstruction(null)).toBe('');
+    });
+
+    it('should fix untranslated terms and report missing ones', () => {
+        const result = enforceGlossary('Thanks for the 配信, xx_sniper_xx!', glossary);
+        expect(result.text).toBe('Thanks for the stream, xX_Sniper_Xx!');
+        expect(result.missing).toEqual(['Super Chat']);
+    });
+});
@@ -1,55 +1,338 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { useSpeechRecognition } from './useSpeechRecognition';
+import { useServerSpeechRecognition } from './useServerSpeechRecognition';
+import { useSpeechOutput, SpeechItem, ServerSpeechAudio } from './useSpeechOutput';
+import { detectLanguage } from '../utils/languageDetect';
+import { FinalSegmenter } from '../utils/segmentation';
+import { PROTOCOL_VERSION, encodeMessage, parseMessage } from '../protocol.mjs';
+import type { ClientMessage, TextInputMessage } from '../protocol.mjs';
+import { QuotaStatus, CacheStats, TranscriptEntry, OverlaySettings, RoomStatus, ConversationMode, Speaker, RecognitionSource, SpeechSettings, TtsSource, Glossary, GlossaryUpdate, PersonaProfile } from '../types';
+
+// Reconnect configuration
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 10;
+const MAX_PENDING_TRANSCRIPTS = 20;
+
+// How often to ask the server for key pool usage while connected
+const RATE_STATUS_POLL_MS = 15000;
+
+// Server speech that takes longer than this is skipped
+const TTS_REQUEST_TIMEOUT_MS = 20000;
+
+// How long a recoverable error stays on screen
+const TOAST_DURATION_MS = 6000;
+
+type TextInputData = TextInputMessage['data'];
+
+const createId = () =>
+  typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// The session id doubles as the overlay URL key, so it is kept across page loads
+const SESSION_ID_STORAGE_KEY = 'liveTranslator.sessionId';
+
+const getStableSessionId = () => {
+  try {
+    const stored = localStorage.getItem(SESSION_ID_STORAGE_KEY);
+    if (stored) return stored;
+    const id = createId();
+    localStorage.setItem(SESSION_ID_STORAGE_KEY, id);
+    return id;
+  } catch {
+    return createId();
+  }
+};
+
+// Issued by the server for the stored session id; without it the server hands out a new id
+const RESUME_TOKEN_STORAGE_KEY = 'liveTranslator.resumeToken';
+
+const loadResumeToken = (): string | null => {
+  try {
+    return localStorage.getItem(RESUME_TOKEN_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const storeSession = (sessionId: string, resumeToken: string) => {
+  try {
+    localStorage.setItem(SESSION_ID_STORAGE_KEY, sessionId);
+    localStorage.setItem(RESUME_TOKEN_STORAGE_KEY, resumeToken);
+  } catch {
+    // Private mode: the overlay URL changes on the next page load
+  }
+};
+
+// The last persona list from the server, so the panel can offer them before connecting
+const PERSONAS_STORAGE_KEY = 'liveTranslator.personas';
+
+const loadStoredPersonas = (): PersonaProfile[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PERSONAS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
 
 interface UseGeminiLiveProps {
   sourceLang: string;
   targetLang: string;
   persona: string;
   playAudio: boolean;
+  extraTargetLangs?: string[];
+  conversationMode?: ConversationMode;
+  // Broadcast room to publish this session's transcripts to
+  room?: string;
+  recognitionSource?: RecognitionSource;
 }
 
 export const useGeminiLive = () => {
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
   const [isRawMode, setIsRawMode] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // A recoverable problem (e.g. one line failed to translate); the session carries on
+  const [toast, setToast] = useState<string | null>(null);
   const [currentText, setCurrentText] = useState<string>('');
+  const [currentRequestId, setCurrentRequestId] = useState<string | null>(null);
+  // Latest translations into the extra target languages, keyed by language
+  const [extraTexts, setExtraTexts] = useState<Record<string, string>>({});
   const [inputText, setInputText] = useState<string>('');
   const [interimText, setInterimText] = useState<string>('');
+  const [activeEngine, setActiveEngine] = useState<string | null>(null);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [sessionStartedAt, setSessionStartedAt] = useState<number | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [roomStatus, setRoomStatus] = useState<RoomStatus | null>(null);
+  const [activeSpeaker, setActiveSpeakerState] = useState<Speaker>('A');
+  const [serverVoices, setServerVoices] = useState<string[]>([]);
+  const [glossary, setGlossary] = useState<Glossary | null>(null);
+  const [personas, setPersonasState] = useState<PersonaProfile[]>(loadStoredPersonas);
+  const personasRef = useRef(personas);
+  personasRef.current = personas;
+  const [personaPreview, setPersonaPreview] = useState<{ content: string; engine: string } | null>(null);
+  const [personaError, setPersonaError] = useState<string | null>(null);
   const [localAIStatus, setLocalAIStatus] = useState<{ enabled: boolean; model?: string; isRemote?: boolean }>({ enabled: false });
 
   const socketRef = useRef<WebSocket | null>(null);
   const currentTranscriptionRef = useRef<string>('');
+  const isStreamingRef = useRef<boolean>(false);
+  const streamingEngineRef = useRef<string | null>(null);
+  const streamingRequestIdRef = useRef<string | null>(null);
   const personaRef = useRef<string>('none');
   const sourceLangRef = useRef<string>('Japanese');
   const targetLangRef = useRef<string>('English');
+  const extraTargetLangsRef = useRef<string[]>([]);
+  const extraRequestIdRef = useRef<string | null>(null);
+
+  // Conversation mode: which party the recognizer is currently listening to
+  const conversationModeRef = useRef<ConversationMode>(ConversationMode.OFF);
+  const activeSpeakerRef = useRef<Speaker>('A');
+  const startListeningRef = useRef<(lang: string) => void>(() => {});
   const isRawModeRef = useRef<boolean>(false);
+  const recognitionSourceRef = useRef<RecognitionSource>(RecognitionSource.BROWSER);
+  // Language the recognizer should be using, so it can be resumed after speech output
+  const listeningLangRef = useRef<string>('Japanese');
+  const isSpeakingRef = useRef<boolean>(false);
+  const pendingTtsRef = useRef<Map<string, { resolve: (audio: ServerSpeechAudio) => void; reject: (err: Error) => void }>>(new Map());
+  // Interims sent whose filtered echo is still on its way; only the latest one's echo replaces the local text
+  const unechoedInterimsRef = useRef(0);
+
+  // Session / reconnect management
+  const sessionIdRef = useRef<string | null>(null);
+  const isSessionActiveRef = useRef<boolean>(false);
+  const hasConnectedRef = useRef<boolean>(false);
+  const reconnectAttemptRef = useRef<number>(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingInputsRef = useRef<TextInputData[]>([]);
+  const openSocketRef = useRef<(isResume: boolean) => void>(() => {});
+  const overlaySettingsRef = useRef<OverlaySettings | null>(null);
+  const speechSettingsRef = useRef<SpeechSettings>({ enabled: false, source: TtsSource.BROWSER, voices: {} });
+  const roomRef = useRef<string | null>(null);
+  const toastTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const dismissToast = useCallback(() => {
+    if (toastTimerRef.current) {
+      clearTimeout(toastTimerRef.current);
+      toastTimerRef.current = null;
+    }
+    setToast(null);
+  }, []);
+
+  const showToast = useCallback((message: string) => {
+    dismissToast();
+    setToast(message);
+    toastTimerRef.current = setTimeout(() => {
+      toastTimerRef.current = null;
+      setToast(null);
+    }, TOAST_DURATION_MS);
+  }, [dismissToast]);
+
+  // Transcript recording
+  const transcriptRef = useRef<TranscriptEntry[]>([]);
+  const utteranceStartedAtRef = useRef<number | null>(null);
 
   useEffect(() => {
     isRawModeRef.current = isRawMode;
   }, [isRawMode]);
 
-  const handleFinalResult = useCallback((finalTranscript: string) => {
-    setInputText(finalTranscript);
-
-    if (isRawModeRef.current) {
-      currentTranscriptionRef.current = finalTranscript;
-      setCurrentText(finalTranscript);
-    } else if (socketRef.current?.readyState === WebSocket.OPEN) {
-      socketRef.current.send(JSON.stringify({
-        type: 'text_input',
-        data: {
-          text: finalTranscript,
-          sourceLang: sourceLangRef.current,
-          targetLang: targetLangRef.current,
-          persona: personaRef.current
-        }
-      }));
+  // Sends a transcript, or holds it until the socket is back if we are reconnecting
+  const sendTextInput = useCallback((data: TextInputData) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(encodeMessage({ type: 'text_input', data }));
+    } else if (isSessionActiveRef.current) {
+      pendingInputsRef.current.push(data);
+      if (pendingInputsRef.current.length > MAX_PENDING_TRANSCRIPTS) {
+        pendingInputsRef.current.shift();
+      }
+    } else {
+      console.warn("Socket not connected");
+    }
+  }, []);
+
+  const setPersonas = useCallback((list: PersonaProfile[]) => {
+    setPersonasState(list);
+    try {
+      localStorage.setItem(PERSONAS_STORAGE_KEY, JSON.stringify(list));
+    } catch {
+      // Storage full or disabled; the list is fetched again on the next connect
     }
   }, []);
 
+  const updateTranscript = useCallback((update: (entries: TranscriptEntry[]) => TranscriptEntry[]) => {
+    transcriptRef.current = update(transcriptRef.current);
+    setTranscript(transcriptRef.current);
+  }, []);
+
+  // Records a finished utterance. The moderated line is filled in by the server's `source` echo,
+  // the translation (or, in raw mode, the line itself) when the matching `text` message arrives.
+  const recordUtterance = useCallback((sourceLang: string, targetLang: string, speaker: Speaker | null, startedAt: number | null) => {
+    const now = Date.now();
+    const entry: TranscriptEntry = {
+      id: createId(),
+      startedAt: startedAt ?? now,
+      finalizedAt: now,
+      translatedAt: null,
+      sourceText: '',
+      translation: null,
+      extraTranslations: {},
+      engine: null,
+      persona: personaRef.current,
+      speaker,
+      sourceLang,
+      targetLang,
+      latencyMs: null
+    };
+    updateTranscript(entries => [...entries, entry]);
+    return entry.id;
+  }, [updateTranscript]);
+
+  // Only sent when set, so single-language sessions keep the original message shape.
+  // Conversations translate into the other party's language only.
+  const withExtraLangs = (data: TextInputData): TextInputData =>
+    extraTargetLangsRef.current.length > 0 && conversationModeRef.current === ConversationMode.OFF
+      ? { ...data, extraTargetLangs: extraTargetLangsRef.current }
+      : data;
+
+  const languageOf = (speaker: Speaker) => speaker === 'A' ? sourceLangRef.current : targetLangRef.current;
+
+  // Points the recognizer at the given party's language
+  const switchSpeaker = (speaker: Speaker) => {
+    if (speaker === activeSpeakerRef.current) return;
+    activeSpeakerRef.current = speaker;
+    setActiveSpeakerState(speaker);
+    if (hasConnectedRef.current && isSessionActiveRef.current) {
+      startListeningRef.current(languageOf(speaker));
+    }
+  };
+
+  /**
+   * Works out who said `text` and the direction to translate it in.
+   * Auto mode follows the detected language; push-to-talk trusts the selected speaker.
+   */
+  const resolveUtterance = (text: string, sourceLang: string, targetLang: string) => {
+    const mode = conversationModeRef.current;
+    if (mode === ConversationMode.OFF) {
+      return { speaker: null, sourceLang, targetLang };
+    }
+
+    let speaker = activeSpeakerRef.current;
+    if (mode === ConversationMode.AUTO) {
+      const detected = detectLanguage(text, [sourceLangRef.current, targetLangRef.current]);
+      if (detected === sourceLangRef.current) speaker = 'A';
+      else if (detected === targetLangRef.current) speaker = 'B';
+      // The next utterance is most likely a reply, but keep listening to whoever spoke last
+      switchSpeaker(speaker);
+    }
+
+    return speaker === 'A'
+      ? { speaker, sourceLang: sourceLangRef.current, targetLang: targetLangRef.current }
+      : { speaker, sourceLang: targetLangRef.current, targetLang: sourceLangRef.current };
+  };
+
+  // Extra lines from the previous utterance are cleared once the next one starts arriving
+  const startExtraTurn = (requestId: string | null) => {
+    if (requestId && requestId !== extraRequestIdRef.current) {
+      extraRequestIdRef.current = requestId;
+      setExtraTexts({});
+    }
+  };
+
+  /**
+   * Records and translates a finished utterance. The server moderates it and echoes it back
+   * as `source`, which fills in the display and the transcript entry.
+   */
+  const submitUtterance = (text: string, inputSourceLang: string, inputTargetLang: string, startedAt: number | null) => {
+    const { speaker, sourceLang, targetLang } = resolveUtterance(text, inputSourceLang, inputTargetLang);
+    const id = recordUtterance(sourceLang, targetLang, speaker, startedAt);
+    const data: TextInputData = {
+      id,
+      text,
+      sourceLang,
+      targetLang,
+      persona: personaRef.current,
+      ...(speaker ? { speaker } : {})
+    };
+
+    // Raw lines go through the server too, which moderates them and relays them to overlays
+    sendTextInput(isRawModeRef.current ? { ...data, raw: true } : withExtraLangs(data));
+  };
+
+  const submitUtteranceRef = useRef(submitUtterance);
+  useEffect(() => {
+    submitUtteranceRef.current = submitUtterance;
+  });
+
+  // Long finals are split into sentences and short fragments merged, so each utterance translates well
+  const segmenterRef = useRef<FinalSegmenter | null>(null);
+  if (!segmenterRef.current) {
+    segmenterRef.current = new FinalSegmenter((text, startedAt) =>
+      submitUtteranceRef.current(text, sourceLangRef.current, targetLangRef.current, startedAt));
+  }
+
+  const handleFinalResult = useCallback((finalTranscript: string) => {
+    const startedAt = utteranceStartedAtRef.current;
+    utteranceStartedAtRef.current = null;
+    segmenterRef.current!.push(finalTranscript, listeningLangRef.current, startedAt);
+  }, []);
+
   const handleInterimResult = useCallback((text: string) => {
+    if (text && utteranceStartedAtRef.current === null) {
+      utteranceStartedAtRef.current = Date.now();
+    }
+    // Shown right away so the caption keeps up on a slow or dropped link, then replaced by the
+    // server's filtered echo (what overlays show). The unfiltered text may show here for that moment.
     setInterimText(text);
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      unechoedInterimsRef.current += 1;
+      socketRef.current.send(encodeMessage({ type: 'interim', data: { text, lang: listeningLangRef.current } }));
+    }
   }, []);
 
   const handleError = useCallback((errorMsg: string, isFatal: boolean) => {
@@ -62,13 +345,95 @@ export const useGeminiLive = () => {
     }
   }, []);
 
-  const { isListening, startListening, stopListening } = useSpeechRecognition({
+  const browserRecognition = useSpeechRecognition({
     onFinalResult: handleFinalResult,
     onInterimResult: handleInterimResult,
     onError: handleError
   });
 
+  const sendSocketMessage = useCallback((message: ClientMessage) => {
+    if (socketRef.current?.readyState !== WebSocket.OPEN) return false;
+    socketRef.current.send(encodeMessage(message));
+    return true;
+  }, []);
+
+  const serverRecognition = useServerSpeechRecognition({
+    sendMessage: sendSocketMessage,
+    onError: handleError
+  });
+
+  const startListening = useCallback((lang: string) => {
+    listeningLangRef.current = lang;
+    if (recognitionSourceRef.current === RecognitionSource.SERVER) {
+      serverRecognition.startListening(lang);
+    } else if (!isSpeakingRef.current) {
+      // While speech is playing the browser recognizer stays off; it resumes in this language
+      browserRecognition.startListening(lang);
+    }
+  }, [browserRecognition.startListening, serverRecognition.startListening]);
+
+  const stopListening = useCallback(() => {
+    browserRecognition.stopListening();
+    serverRecognition.stopListening();
+  }, [browserRecognition.stopListening, serverRecognition.stopListening]);
+
+  const isListening = browserRecognition.isListening || serverRecognition.isListening;
+
+  // Pauses recognition while translations are read aloud
+  const handleSpeakingChange = useCallback((speaking: boolean) => {
+    isSpeakingRef.current = speaking;
+    if (!hasConnectedRef.current || !isSessionActiveRef.current) return;
+    if (recognitionSourceRef.current === RecognitionSource.SERVER) {
+      serverRecognition.setPaused(speaking);
+    } else if (speaking) {
+      browserRecognition.stopListening();
+    } else {
+      browserRecognition.startListening(listeningLangRef.current);
+    }
+  }, [browserRecognition.startListening, browserRecognition.stopListening, serverRecognition.setPaused]);
+
+  const requestServerAudio = useCallback((item: SpeechItem, voice?: string) => new Promise<ServerSpeechAudio>((resolve, reject) => {
+    if (!sendSocketMessage({ type: 'tts', data: { id: item.id, text: item.text, lang: item.lang, persona: item.persona, voice } })) {
+      reject(new Error('Socket not connected'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      pendingTtsRef.current.delete(item.id);
+      reject(new Error('Speech synthesis timed out'));
+    }, TTS_REQUEST_TIMEOUT_MS);
+    pendingTtsRef.current.set(item.id, {
+      resolve: (audio) => { clearTimeout(timer); resolve(audio); },
+      reject: (err) => { clearTimeout(timer); reject(err); }
+    });
+  }), [sendSocketMessage]);
+
+  const speechOutput = useSpeechOutput({
+    requestServerAudio,
+    onSpeakingChange: handleSpeakingChange
+  });
+
+  useEffect(() => {
+    startListeningRef.current = startListening;
+  }, [startListening]);
+
+  const clearReconnectTimer = () => {
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+  };
+
   const stopEverything = useCallback(() => {
+    // A fragment still waiting to be merged is translated (or buffered) before the session ends
+    segmenterRef.current!.flush();
+    isSessionActiveRef.current = false;
+    hasConnectedRef.current = false;
+    reconnectAttemptRef.current = 0;
+    pendingInputsRef.current = [];
+    clearReconnectTimer();
+    speechOutput.cancel();
+    isSpeakingRef.current = false;
+    serverRecognition.setPaused(false);
     stopListening();
 
     if (socketRef.current) {
@@ -77,86 +442,447 @@ export const useGeminiLive = () => {
     }
     setIsConnected(false);
     setIsConnecting(false);
+    setIsReconnecting(false);
     setInterimText('');
-  }, [stopListening]);
+    setGlossary(null);
+  }, [stopListening, speechOutput.cancel, serverRecognition.setPaused]);
 
-  const connect = useCallback(async ({ sourceLang, targetLang, persona, playAudio }: UseGeminiLiveProps) => {
-    try {
-      setIsConnecting(true);
-      setError(null);
-      setCurrentText('');
-      setInputText('');
-      setInterimText('');
-      currentTranscriptionRef.current = '';
-      personaRef.current = persona;
-      sourceLangRef.current = sourceLang;
-      targetLangRef.current = targetLang;
+  const scheduleReconnect = useCallback(() => {
+    const attempt = reconnectAttemptRef.current + 1;
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      setError('翻訳エンジンとの接続が切れ、再接続できませんでした。');
+      stopEverything();
+      return;
+    }
+
+    reconnectAttemptRef.current = attempt;
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * Math.pow(2, attempt - 1), RECONNECT_MAX_DELAY_MS);
+    console.warn(`Engine connection lost. Reconnecting in ${delay}ms (attempt ${attempt}/${MAX_RECONNECT_ATTEMPTS})...`);
 
-      let wsUrl = 'ws://localhost:3001';
-      if (import.meta.env.VITE_BACKEND_URL) {
-        wsUrl = import.meta.env.VITE_BACKEND_URL;
+    // Speech recognition keeps running; transcripts are buffered until we are back
+    setIsConnected(false);
+    setIsReconnecting(true);
+    clearReconnectTimer();
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = null;
+      if (isSessionActiveRef.current) {
+        openSocketRef.current(true);
       }
+    }, delay);
+  }, [stopEverything]);
 
-      console.log(`Connecting to translation engine at: ${wsUrl}`);
-
-      const socket = new WebSocket(wsUrl);
-      socketRef.current = socket;
-
-      socket.onopen = () => {
-        socket.send(JSON.stringify({ type: 'config', data: { sourceLang, targetLang, persona } }));
-      };
-
-      socket.onmessage = async (event) => {
-        const msg = JSON.parse(event.data);
-        switch (msg.type) {
-          case 'connected':
-            setIsConnected(true);
-            setIsConnecting(false);
-            if (msg.data?.hasLocalAI) {
-              setLocalAIStatus({ enabled: true, model: msg.data.ollamaModel, isRemote: msg.data.isRemoteOllama });
-            } else {
-              setLocalAIStatus({ enabled: false });
-            }
-            startListening(sourceLang);
+  const openSocket = useCallback((isResume: boolean) => {
+    let wsUrl = 'ws://localhost:3001';
+    if (import.meta.env.VITE_BACKEND_URL) {
+      wsUrl = import.meta.env.VITE_BACKEND_URL;
+    }
+
+    console.log(`Connecting to translation engine at: ${wsUrl}`);
+
+    const socket = new WebSocket(wsUrl);
+    socketRef.current = socket;
+
+    socket.onopen = () => {
+      socket.send(encodeMessage({
+        type: 'config',
+        data: {
+          sourceLang: sourceLangRef.current,
+          targetLang: targetLangRef.current,
+          persona: personaRef.current,
+          sessionId: sessionIdRef.current,
+          resume: isResume,
+          resumeToken: loadResumeToken(),
+          protocolVersion: PROTOCOL_VERSION
+        }
+      }));
+    };
+
+    socket.onmessage = async (event) => {
+      const parsed = parseMessage(event.data, 'server');
+      if (!parsed.ok) {
+        console.warn(`Ignoring message from server: ${parsed.error.detail}`);
+        return;
+      }
+      const msg = parsed.message;
+      switch (msg.type) {
+        case 'connected': {
+          // The server echoes the version it agreed to; anything else means it predates this client
+          if (msg.data.protocolVersion !== PROTOCOL_VERSION) {
+            setError('翻訳サーバーのバージョンがこのページと一致しません。サーバーを更新してください。');
+            stopEverything();
             break;
-          case 'text':
-            if (msg.content && !isRawModeRef.current) {
-              currentTranscriptionRef.current = msg.content;
-              setCurrentText(currentTranscriptionRef.current);
+          }
+          setIsConnected(true);
+          setIsConnecting(false);
+          setIsReconnecting(false);
+          reconnectAttemptRef.current = 0;
+          // Echoes owed on the previous socket never arrive
+          unechoedInterimsRef.current = 0;
+          // Differs from ours when the server refused the stored id
+          sessionIdRef.current = msg.data.sessionId;
+          setSessionId(msg.data.sessionId);
+          if (msg.data.resumeToken) {
+            storeSession(msg.data.sessionId, msg.data.resumeToken);
+          }
+          if (msg.data?.rateLimits?.keyCount) {
+            const { keyCount, effectiveRpm, effectiveRpd } = msg.data.rateLimits;
+            setQuota(prev => ({ limited: false, ...prev, keyCount, effectiveRpm, effectiveRpd }));
+          }
+          if (msg.data?.cache) {
+            setCacheStats(msg.data.cache);
+          }
+          setServerVoices(msg.data?.tts?.voices ?? []);
+          if (msg.data?.glossary) {
+            setGlossary(msg.data.glossary);
+          }
+          if (msg.data?.personas) {
+            setPersonas(msg.data.personas);
+          }
+          if (msg.data?.hasLocalAI) {
+            setLocalAIStatus({ enabled: true, model: msg.data.ollamaModel, isRemote: msg.data.isRemoteOllama });
+          } else {
+            setLocalAIStatus({ enabled: false });
+          }
+
+          if (!hasConnectedRef.current) {
+            hasConnectedRef.current = true;
+            startListening(languageOf(activeSpeakerRef.current));
+          } else if (recognitionSourceRef.current === RecognitionSource.SERVER) {
+            // Server-side recognition streams belong to the old socket
+            startListening(languageOf(activeSpeakerRef.current));
+          }
+
+          // Flush transcripts recognized while we were offline
+          const pending = pendingInputsRef.current;
+          pendingInputsRef.current = [];
+          pending.forEach(data => socket.send(encodeMessage({ type: 'text_input', data })));
+
+          // The server only keeps overlay settings and room membership per socket, so send them again on every connect
+          if (overlaySettingsRef.current) {
+            socket.send(encodeMessage({ type: 'overlay_settings', data: overlaySettingsRef.current }));
+          }
+          if (roomRef.current) {
+            socket.send(encodeMessage({ type: 'join_room', data: { room: roomRef.current, role: 'speaker' } }));
+          }
+          break;
+        }
+        case 'text_delta':
+          if (msg.content && !isRawModeRef.current) {
+            // The first delta of a turn replaces the previous subtitle, and so does
+            // the first delta from a fallback engine after the previous one failed
+            if (!isStreamingRef.current || (msg.engine ?? null) !== streamingEngineRef.current) {
+              isStreamingRef.current = true;
+              streamingEngineRef.current = msg.engine ?? null;
+              streamingRequestIdRef.current = msg.requestId ?? null;
+              currentTranscriptionRef.current = '';
             }
-            break;
-          case 'turn_complete':
-            break;
-          case 'error':
+            currentTranscriptionRef.current += msg.content;
+            setCurrentText(currentTranscriptionRef.current);
+            setCurrentRequestId(msg.requestId ?? null);
+            startExtraTurn(msg.requestId ?? null);
+          }
+          break;
+        case 'text_reset':
+          // A retried key or fallback engine streams the translation again from the start
+          if (isStreamingRef.current && !isRawModeRef.current) {
+            isStreamingRef.current = false;
+            currentTranscriptionRef.current = '';
+            setCurrentText('');
+          }
+          break;
+        case 'text':
+          isStreamingRef.current = false;
+          if (msg.engine) {
+            setActiveEngine(msg.engine);
+          }
+          // Translations still in flight when raw mode was switched on are not shown
+          if (msg.content && (!isRawModeRef.current || msg.engine === 'raw')) {
+            currentTranscriptionRef.current = msg.content;
+            setCurrentText(currentTranscriptionRef.current);
+            setCurrentRequestId(msg.requestId ?? null);
+            startExtraTurn(msg.requestId ?? null);
+          }
+          if (msg.content && !isRawModeRef.current && msg.engine !== 'raw') {
+            // Conversations are read in the language of whoever is listening
+            const entry = msg.requestId ? transcriptRef.current.find(e => e.id === msg.requestId) : undefined;
+            const profile = personasRef.current.find(p => p.id === personaRef.current);
+            speechOutput.speak({
+              id: msg.requestId ?? createId(),
+              text: msg.content,
+              lang: entry?.targetLang ?? targetLangRef.current,
+              persona: personaRef.current,
+              pitch: profile?.pitch,
+              rate: profile?.rate
+            });
+          }
+          if (msg.requestId && msg.content) {
+            const translatedAt = Date.now();
+            updateTranscript(entries => entries.map(entry => entry.id === msg.requestId
+              ? { ...entry, translation: msg.content, engine: msg.engine ?? null, translatedAt, latencyMs: translatedAt - entry.finalizedAt }
+              : entry));
+          }
+          break;
+        case 'extra_text':
+          if (msg.content && msg.targetLang) {
+            startExtraTurn(msg.requestId ?? null);
+            setExtraTexts(prev => ({ ...prev, [msg.targetLang]: msg.content }));
+            if (msg.requestId) {
+              updateTranscript(entries => entries.map(entry => entry.id === msg.requestId
+                ? { ...entry, extraTranslations: { ...entry.extraTranslations, [msg.targetLang]: msg.content } }
+                : entry));
+            }
+          }
+          break;
+        case 'interim':
+          unechoedInterimsRef.current = Math.max(0, unechoedInterimsRef.current - 1);
+          if (unechoedInterimsRef.current === 0) {
+            setInterimText(msg.data.text);
+          }
+          break;
+        case 'source':
+          // Our own utterance, as moderated by the server
+          setInputText(msg.data.text);
+          setInterimText('');
+          if (msg.data.id) {
+            updateTranscript(entries => entries.map(entry => entry.id === msg.data.id ? { ...entry, sourceText: msg.data.text } : entry));
+          }
+          break;
+        case 'moderated':
+          // The content filter dropped this utterance (or its translation), so it is not kept either
+          if (msg.requestId) {
+            updateTranscript(entries => entries.filter(entry => entry.id !== msg.requestId));
+            // Under the drop policy the start of the translation may already have streamed in
+            if (isStreamingRef.current && streamingRequestIdRef.current === msg.requestId) {
+              isStreamingRef.current = false;
+              currentTranscriptionRef.current = '';
+              setCurrentText('');
+            }
+          }
+          break;
+        case 'turn_complete':
+          isStreamingRef.current = false;
+          break;
+        case 'stt_interim':
+          handleInterimResult(msg.text ?? '');
+          break;
+        case 'stt_final':
+          if (msg.text?.trim()) {
+            handleInterimResult('');
+            handleFinalResult(msg.text);
+          }
+          break;
+        case 'tts_audio':
+        case 'tts_error': {
+          const pending = pendingTtsRef.current.get(msg.id);
+          if (pending) {
+            pendingTtsRef.current.delete(msg.id);
+            if (msg.type === 'tts_audio') pending.resolve({ data: msg.data, sampleRate: msg.sampleRate });
+            else pending.reject(new Error(msg.message));
+          }
+          if (msg.type === 'tts_error') console.warn("Server speech failed:", msg.message);
+          break;
+        }
+        case 'stt_error':
+          // Recognition carries on with the next utterance
+          showToast(msg.message);
+          break;
+        case 'rate_limit':
+          if (msg.data) {
+            const { waitTime, ...data } = msg.data;
+            setQuota(prev => ({
+              ...prev,
+              ...data,
+              limitedUntil: data.limited && waitTime ? Date.now() + waitTime : null
+            }));
+          }
+          break;
+        case 'rate_status':
+          // No keys means Gemini is not in use, so there is no quota to show
+          if (msg.data?.keyCount) {
+            const { allowed, waitTime, ...data } = msg.data;
+            setQuota(prev => ({
+              ...prev,
+              ...data,
+              limited: !allowed,
+              isDailyLimit: !allowed && data.dayRemaining === 0,
+              limitedUntil: !allowed && waitTime ? Date.now() + waitTime : null,
+              // Keep the server's explanation only while still limited
+              message: allowed ? undefined : prev?.message
+            }));
+          }
+          break;
+        case 'room_status':
+          setRoomStatus(msg.data);
+          break;
+        case 'glossary':
+          setGlossary(msg.data);
+          break;
+        case 'personas':
+          // Sent whenever a persona file is added, edited or removed on the server
+          setPersonas(msg.data);
+          break;
+        case 'persona_saved':
+          setPersonaError(null);
+          break;
+        case 'persona_preview':
+          setPersonaError(null);
+          setPersonaPreview({ content: msg.content, engine: msg.engine });
+          break;
+        case 'persona_error':
+          setPersonaError(msg.message);
+          break;
+        case 'cache_stats':
+          if (msg.data) {
+            setCacheStats(msg.data);
+          }
+          break;
+        case 'error':
+          if (msg.recoverable) {
+            // Only the request that caused it failed; a half-streamed line is left as it is
+            isStreamingRef.current = false;
+            showToast(msg.message);
+          } else {
             setError(msg.message);
             stopEverything();
-            break;
-        }
-      };
+          }
+          break;
+      }
+    };
 
-      socket.onerror = (e) => {
-        console.error("Engine Connection Error", e);
+    socket.onerror = (e) => {
+      console.error("Engine Connection Error", e);
+      // Before the first successful handshake there is nothing to resume
+      if (!hasConnectedRef.current) {
         setError(`翻訳エンジンへの接続に失敗しました (${wsUrl})。ネットワーク設定を確認してください。`);
         stopEverything();
-      };
+      }
+    };
 
-      socket.onclose = () => {
+    socket.onclose = () => {
+      if (socketRef.current !== socket) return;
+      socketRef.current = null;
+      isStreamingRef.current = false;
+
+      if (!isSessionActiveRef.current) return;
+      if (hasConnectedRef.current) {
+        scheduleReconnect();
+      } else {
         stopEverything();
-      };
+      }
+    };
+  }, [startListening, stopEverything, scheduleReconnect, updateTranscript, handleInterimResult, handleFinalResult, speechOutput.speak, setPersonas, showToast]);
+
+  useEffect(() => {
+    openSocketRef.current = openSocket;
+  }, [openSocket]);
+
+  const connect = useCallback(async ({ sourceLang, targetLang, persona, playAudio, extraTargetLangs = [], conversationMode = ConversationMode.OFF, room, recognitionSource = RecognitionSource.BROWSER }: UseGeminiLiveProps) => {
+    try {
+      setIsConnecting(true);
+      setError(null);
+      setCurrentText('');
+      setInputText('');
+      setInterimText('');
+      currentTranscriptionRef.current = '';
+      isStreamingRef.current = false;
+      setActiveEngine(null);
+      setQuota(null);
+      // A new session starts a new transcript; the previous one stays downloadable until then
+      transcriptRef.current = [];
+      setTranscript([]);
+      setSessionStartedAt(Date.now());
+      utteranceStartedAtRef.current = null;
+      personaRef.current = persona;
+      sourceLangRef.current = sourceLang;
+      targetLangRef.current = targetLang;
+      extraTargetLangsRef.current = extraTargetLangs.filter(lang => lang !== targetLang);
+      extraRequestIdRef.current = null;
+      setExtraTexts({});
+      conversationModeRef.current = conversationMode;
+      activeSpeakerRef.current = 'A';
+      setActiveSpeakerState('A');
+      roomRef.current = room?.trim() || null;
+      recognitionSourceRef.current = recognitionSource;
+      speechOutput.updateSettings({ ...speechSettingsRef.current, enabled: playAudio });
+      setRoomStatus(null);
 
+      sessionIdRef.current = getStableSessionId();
+      setSessionId(sessionIdRef.current);
+      isSessionActiveRef.current = true;
+      hasConnectedRef.current = false;
+      reconnectAttemptRef.current = 0;
+      pendingInputsRef.current = [];
+
+      openSocket(false);
     } catch (err: any) {
       console.error(err);
       setError(err.message || "セッション開始に失敗しました");
       stopEverything();
     }
-  }, [startListening, stopEverything]);
+  }, [openSocket, stopEverything, speechOutput.updateSettings]);
+
+  // Poll key pool usage and cache stats so the panel stays live between translations
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const requestStatus = () => {
+      if (socketRef.current?.readyState === WebSocket.OPEN) {
+        socketRef.current.send(encodeMessage({ type: 'rate_status' }));
+        socketRef.current.send(encodeMessage({ type: 'cache_stats' }));
+      }
+    };
+
+    requestStatus();
+    const timer = setInterval(requestStatus, RATE_STATUS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [isConnected]);
+
+  const updateOverlaySettings = useCallback((settings: OverlaySettings) => {
+    overlaySettingsRef.current = settings;
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(encodeMessage({ type: 'overlay_settings', data: settings }));
+    }
+  }, []);
+
+  const updateSpeechSettings = useCallback((settings: SpeechSettings) => {
+    speechSettingsRef.current = settings;
+    speechOutput.updateSettings(settings);
+  }, [speechOutput.updateSettings]);
+
+  // The server stores the glossary and echoes it back to every control panel
+  const updateGlossary = useCallback((update: GlossaryUpdate) => {
+    sendSocketMessage({ type: 'glossary_update', data: update });
+  }, [sendSocketMessage]);
+
+  const savePersona = useCallback((persona: PersonaProfile) => {
+    const { id, ...profile } = persona;
+    setPersonaError(null);
+    sendSocketMessage({ type: 'persona_save', data: { id, profile } });
+  }, [sendSocketMessage]);
+
+  const deletePersona = useCallback((id: string) => {
+    setPersonaError(null);
+    sendSocketMessage({ type: 'persona_delete', data: { id } });
+  }, [sendSocketMessage]);
+
+  // Translates `text` with an unsaved profile so it can be tried before saving
+  const previewPersona = useCallback((persona: PersonaProfile, text: string) => {
+    const { id, ...profile } = persona;
+    setPersonaError(null);
+    setPersonaPreview(null);
+    sendSocketMessage({
+      type: 'persona_preview',
+      data: { id, profile, text, sourceLang: sourceLangRef.current, targetLang: targetLangRef.current }
+    });
+  }, [sendSocketMessage]);
 
   const disconnect = useCallback(() => {
     stopEverything();
+    dismissToast();
     setCurrentText('');
     setInputText('');
     setInterimText('');
-  }, [stopEverything]);
+  }, [stopEverything, dismissToast]);
 
   useEffect(() => {
     return () => {
@@ -164,41 +890,81 @@ export const useGeminiLive = () => {
     };
   }, [disconnect]);
 
-  const simulateVoiceInput = (text: string, sourceLang: string, targetLang: string) => {
-    setInputText(text);
+  // Push-to-talk: select who is about to speak
+  const setActiveSpeaker = useCallback((speaker: Speaker) => {
+    switchSpeaker(speaker);
+  }, []);
 
-    if (isRawModeRef.current) {
-      currentTranscriptionRef.current = text;
-      setCurrentText(text);
+  // Languages and persona can be switched mid-session; the next utterance uses the new ones
+  const updateConfig = useCallback(({ sourceLang, targetLang, persona }: Pick<UseGeminiLiveProps, 'sourceLang' | 'targetLang' | 'persona'>) => {
+    const languagesChanged = sourceLang !== sourceLangRef.current || targetLang !== targetLangRef.current;
+    if (!languagesChanged && persona === personaRef.current) return;
+    if (!isSessionActiveRef.current) {
+      // Nothing to update; connect() picks the values up
       return;
     }
 
-    if (socketRef.current?.readyState === WebSocket.OPEN) {
-      socketRef.current.send(JSON.stringify({
-        type: 'text_input',
-        data: {
-          text,
-          sourceLang,
-          targetLang,
-          persona: personaRef.current
-        }
-      }));
-    } else {
-      console.warn("Socket not connected");
+    // A fragment still waiting to be merged was spoken under the old settings
+    segmenterRef.current!.flush();
+    sourceLangRef.current = sourceLang;
+    targetLangRef.current = targetLang;
+    personaRef.current = persona;
+    extraTargetLangsRef.current = extraTargetLangsRef.current.filter(lang => lang !== targetLang);
+    // Sent again in `config` if this happens while reconnecting
+    sendSocketMessage({ type: 'config_update', data: { sourceLang, targetLang, persona } });
+
+    const lang = languageOf(activeSpeakerRef.current);
+    if (hasConnectedRef.current && lang !== listeningLangRef.current) {
+      setInterimText('');
+      startListening(lang);
     }
+  }, [sendSocketMessage, startListening]);
+
+  const simulateVoiceInput = (text: string, inputSourceLang: string, inputTargetLang: string) => {
+    const startedAt = utteranceStartedAtRef.current;
+    utteranceStartedAtRef.current = null;
+    submitUtterance(text, inputSourceLang, inputTargetLang, startedAt);
   };
 
   return {
     isConnected,
     isConnecting,
+    isReconnecting,
     isListening,
     error,
+    toast,
+    dismissToast,
     currentText,
+    currentRequestId,
+    extraTexts,
     inputText,
     interimText,
     isRawMode,
     setIsRawMode,
     localAIStatus,
+    activeEngine,
+    quota,
+    cacheStats,
+    transcript,
+    sessionStartedAt,
+    sessionId,
+    roomStatus,
+    activeSpeaker,
+    setActiveSpeaker,
+    updateConfig,
+    updateOverlaySettings,
+    updateSpeechSettings,
+    isSpeaking: speechOutput.isSpeaking,
+    browserVoices: speechOutput.browserVoices,
+    serverVoices,
+    glossary,
+    updateGlossary,
+    personas,
+    personaPreview,
+    personaError,
+    savePersona,
+    deletePersona,
+    previewPersona,
     connect,
     disconnect,
     simulateVoiceInput
@@ -0,0 +1,137 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
+import { useOverlaySubscription } from './useOverlaySubscription';
+
+class MockWebSocket {
+    static instances: MockWebSocket[] = [];
+    onopen: (() => void) | null = null;
+    onmessage: ((event: any) => void) | null = null;
+    onclose: (() => void) | null = null;
+    send: Mock = vi.fn();
+    close: Mock = vi.fn();
+
+    constructor(public url: string) {
+        MockWebSocket.instances.push(this);
+        setTimeout(() => this.onopen?.(), 0);
+    }
+}
+
+const latestSocket = () => MockWebSocket.instances[MockWebSocket.instances.length - 1];
+
+const send = async (msg: object) => {
+    await act(async () => {
+        latestSocket().onmessage!({ data: JSON.stringify(msg) });
+    });
+};
+
+const source = (id: string, text: string) => ({
+    type: 'source',
+    data: { id, text, sourceLang: 'Japanese', targetLang: 'English' }
+});
+
+describe('useOverlaySubscription', () => {
+    let originalWebSocket: any;
+
+    beforeEach(() => {
+        originalWebSocket = global.WebSocket;
+        global.WebSocket = MockWebSocket as any;
+        MockWebSocket.instances = [];
+    });
+
+    afterEach(() => {
+        global.WebSocket = originalWebSocket;
+        vi.restoreAllMocks();
+    });
+
+    const subscribe = async () => {
+        const hook = renderHook(() => useOverlaySubscription('session-1'));
+        await waitFor(() => expect(latestSocket().send).toHaveBeenCalled());
+        await send({ type: 'subscribed', data: { sessionId: 'session-1' } });
+        return hook;
+    };
+
+    it('should subscribe to the session and mirror its subtitles', async () => {
+        const { result } = await subscribe();
+
+        expect(JSON.parse(latestSocket().send.mock.calls[0][0])).toEqual({ type: 'subscribe', data: { sessionId: 'session-1' } });
+        expect(result.current.isConnected).toBe(true);
+
+        await send({ type: 'interim', data: { text: 'こんに' } });
+        expect(result.current.interimText).toBe('こんに');
+
+        await send(source('r1', 'こんにちは'));
+        await send({ type: 'text', content: 'Hello', engine: 'deepl', requestId: 'r1' });
+        await send({ type: 'turn_complete', requestId: 'r1' });
+
+        expect(result.current.interimText).toBe('');
+        expect(result.current.inputText).toBe('こんにちは');
+        expect(result.current.currentText).toBe('Hello');
+        expect(result.current.currentRequestId).toBe('r1');
+        expect(result.current.history).toHaveLength(1);
+        expect(result.current.history[0]).toMatchObject({ id: 'r1', sourceText: 'こんにちは', translation: 'Hello', engine: 'deepl' });
+    });
+
+    it('should stream translations and start over on text_reset', async () => {
+        const { result } = await subscribe();
+        await send(source('r1', '今日は'));
+
+        await send({ type: 'text_delta', content: 'Today', engine: 'gemini', requestId: 'r1' });
+        await send({ type: 'text_reset', requestId: 'r1' });
+        expect(result.current.currentText).toBe('');
+
+        await send({ type: 'text_delta', content: 'Today', engine: 'gemini', requestId: 'r1' });
+        await send({ type: 'text_delta', content: ' is', engine: 'gemini', requestId: 'r1' });
+        expect(result.current.currentText).toBe('Today is');
+    });
+
+    it('should drop moderated utterances like the control panel does', async () => {
+        const { result } = await subscribe();
+        await send(source('r1', 'おはよう'));
+        await send({ type: 'text', content: 'Good morning', requestId: 'r1' });
+        await send(source('r2', 'ひどい言葉'));
+        await send({ type: 'text_delta', content: 'Terrible', engine: 'gemini', requestId: 'r2' });
+
+        await send({ type: 'moderated', requestId: 'r2', targetLang: 'English' });
+
+        expect(result.current.history.map(entry => entry.id)).toEqual(['r1']);
+        expect(result.current.currentText).toBe('');
+    });
+
+    it('should keep the streamed line when an earlier utterance is moderated', async () => {
+        const { result } = await subscribe();
+        await send({ type: 'text_delta', content: 'Still', engine: 'gemini', requestId: 'r2' });
+
+        await send({ type: 'moderated', requestId: 'r1' });
+
+        expect(result.current.currentText).toBe('Still');
+    });
+
+    it('should reconnect after the socket closes', async () => {
+        vi.useFakeTimers();
+        try {
+            const { result } = renderHook(() => useOverlaySubscription('session-1'));
+            await act(async () => {
+                vi.advanceTimersByTime(0);
+            });
+            await send({ type: 'subscribed', data: { sessionId: 'session-1' } });
+
+            await act(async () => {
+                latestSocket().onclose!();
+            });
+            expect(result.current.isConnected).toBe(false);
+
+            await act(async () => {
+                vi.advanceTimersByTime(1000);
+            });
+            expect(MockWebSocket.instances).toHaveLength(2);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('should ask for a session id', () => {
+        const { result } = renderHook(() => useOverlaySubscription(null));
+        expect(result.current.error).toContain('session');
+        expect(MockWebSocket.instances).toHaveLength(0);
+    });
+});
@@ -0,0 +1,210 @@
+import { useState, useRef, useEffect } from 'react';
+import { OverlaySettings, TranscriptEntry } from '../types';
+import { parseMessage } from '../protocol.mjs';
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+// The overlay only needs enough history for the chat log mode
+const MAX_OVERLAY_HISTORY = 20;
+
+/**
+ * Read-only view of a controller session for the OBS overlay page.
+ * OBS keeps browser sources open for hours, so this reconnects forever.
+ */
+export const useOverlaySubscription = (sessionId: string | null) => {
+  const [isConnected, setIsConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [currentText, setCurrentText] = useState('');
+  const [currentRequestId, setCurrentRequestId] = useState<string | null>(null);
+  const [extraTexts, setExtraTexts] = useState<Record<string, string>>({});
+  const [extraLangs, setExtraLangs] = useState<string[]>([]);
+  const [inputText, setInputText] = useState('');
+  const [interimText, setInterimText] = useState('');
+  const [history, setHistory] = useState<TranscriptEntry[]>([]);
+  const [settings, setSettings] = useState<OverlaySettings | null>(null);
+
+  const currentTranscriptionRef = useRef('');
+  const isStreamingRef = useRef(false);
+  const streamingEngineRef = useRef<string | null>(null);
+  const streamingRequestIdRef = useRef<string | null>(null);
+  const extraRequestIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setError('URL に ?session= を指定してください。');
+      return;
+    }
+
+    let wsUrl = 'ws://localhost:3001';
+    if (import.meta.env.VITE_BACKEND_URL) {
+      wsUrl = import.meta.env.VITE_BACKEND_URL;
+    }
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let isActive = true;
+
+    const updateEntry = (id: string, update: Partial<TranscriptEntry>) => {
+      setHistory(entries => entries.map(entry => entry.id === id ? { ...entry, ...update } : entry));
+    };
+
+    // Extra lines from the previous utterance are cleared once the next one starts arriving
+    const startExtraTurn = (requestId: string | null) => {
+      if (requestId && requestId !== extraRequestIdRef.current) {
+        extraRequestIdRef.current = requestId;
+        setExtraTexts({});
+      }
+    };
+
+    const open = () => {
+      socket = new WebSocket(wsUrl);
+
+      socket.onopen = () => {
+        socket?.send(JSON.stringify({ type: 'subscribe', data: { sessionId } }));
+      };
+
+      socket.onmessage = (event) => {
+        const parsed = parseMessage(event.data, 'server');
+        if (!parsed.ok) {
+          console.warn(`Ignoring message from server: ${parsed.error.detail}`);
+          return;
+        }
+        const msg = parsed.message;
+        switch (msg.type) {
+          case 'subscribed':
+            attempt = 0;
+            setIsConnected(true);
+            setError(null);
+            if (msg.data?.settings) setSettings(msg.data.settings);
+            break;
+          case 'overlay_settings':
+            setSettings(msg.data);
+            break;
+          case 'interim':
+            setInterimText(msg.data?.text || '');
+            break;
+          case 'source': {
+            const { id, text, sourceLang, targetLang, persona, extraTargetLangs, speaker } = msg.data;
+            const now = Date.now();
+            setInputText(text);
+            setInterimText('');
+            setExtraLangs(extraTargetLangs || []);
+            setHistory(entries => [...entries, {
+              id,
+              startedAt: now,
+              finalizedAt: now,
+              translatedAt: null,
+              sourceText: text,
+              translation: null,
+              extraTranslations: {},
+              engine: null,
+              persona,
+              speaker: speaker ?? null,
+              sourceLang,
+              targetLang,
+              latencyMs: null
+            }].slice(-MAX_OVERLAY_HISTORY));
+            break;
+          }
+          case 'text_delta':
+            if (msg.content) {
+              if (!isStreamingRef.current || (msg.engine ?? null) !== streamingEngineRef.current) {
+                isStreamingRef.current = true;
+                streamingEngineRef.current = msg.engine ?? null;
+                streamingRequestIdRef.current = msg.requestId ?? null;
+                currentTranscriptionRef.current = '';
+              }
+              currentTranscriptionRef.current += msg.content;
+              setCurrentText(currentTranscriptionRef.current);
+              setCurrentRequestId(msg.requestId ?? null);
+              startExtraTurn(msg.requestId ?? null);
+            }
+            break;
+          case 'text_reset':
+            // A retried key or fallback engine streams the translation again from the start
+            if (isStreamingRef.current) {
+              isStreamingRef.current = false;
+              currentTranscriptionRef.current = '';
+              setCurrentText('');
+            }
+            break;
+          case 'text':
+            isStreamingRef.current = false;
+            if (msg.content) {
+              currentTranscriptionRef.current = msg.content;
+              setCurrentText(msg.content);
+              setCurrentRequestId(msg.requestId ?? null);
+              startExtraTurn(msg.requestId ?? null);
+              if (msg.requestId) {
+                updateEntry(msg.requestId, { translation: msg.content, engine: msg.engine ?? null, translatedAt: Date.now() });
+              }
+            }
+            break;
+          case 'extra_text':
+            if (msg.content && msg.targetLang) {
+              startExtraTurn(msg.requestId ?? null);
+              setExtraTexts(prev => ({ ...prev, [msg.targetLang]: msg.content }));
+              if (msg.requestId) {
+                setHistory(entries => entries.map(entry => entry.id === msg.requestId
+                  ? { ...entry, extraTranslations: { ...entry.extraTranslations, [msg.targetLang]: msg.content } }
+                  : entry));
+              }
+            }
+            break;
+          case 'moderated':
+            // The content filter dropped this utterance (or its translation); the control panel drops it too
+            if (msg.requestId) {
+              const { requestId } = msg;
+              setHistory(entries => entries.filter(entry => entry.id !== requestId));
+              // Under the drop policy the start of the translation may already have streamed in
+              if (isStreamingRef.current && streamingRequestIdRef.current === requestId) {
+                isStreamingRef.current = false;
+                currentTranscriptionRef.current = '';
+                setCurrentText('');
+              }
+            }
+            break;
+          case 'turn_complete':
+            isStreamingRef.current = false;
+            break;
+          case 'error':
+            // Recoverable errors concern a single request, which this page has no use for
+            if (msg.recoverable) console.warn(`Server error (${msg.code}): ${msg.message}`);
+            else setError(msg.message);
+            break;
+        }
+      };
+
+      socket.onclose = () => {
+        setIsConnected(false);
+        isStreamingRef.current = false;
+        if (!isActive) return;
+        attempt += 1;
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * Math.pow(2, attempt - 1), RECONNECT_MAX_DELAY_MS);
+        reconnectTimer = setTimeout(open, delay);
+      };
+    };
+
+    open();
+
+    return () => {
+      isActive = false;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [sessionId]);
+
+  return {
+    isConnected,
+    error,
+    currentText,
+    currentRequestId,
+    extraTexts,
+    extraLangs,
+    inputText,
+    interimText,
+    history,
+    settings
+  };
+};
@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react';
+import { RoomLine, RoomStatus } from '../types';
+import { parseMessage } from '../protocol.mjs';
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_ROOM_LINES = 100;
+
+/**
+ * Viewer side of a broadcast room. `targetLang` null means "whatever the speaker translates to".
+ */
+export const useRoomSubscription = (room: string | null, targetLang: string | null) => {
+  const [isConnected, setIsConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lines, setLines] = useState<RoomLine[]>([]);
+  const [status, setStatus] = useState<RoomStatus | null>(null);
+
+  useEffect(() => {
+    if (!room) {
+      setError('URL に ?name= でルーム名を指定してください。');
+      return;
+    }
+
+    let wsUrl = 'ws://localhost:3001';
+    if (import.meta.env.VITE_BACKEND_URL) {
+      wsUrl = import.meta.env.VITE_BACKEND_URL;
+    }
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let isActive = true;
+
+    const upsertLine = (id: string, update: Partial<RoomLine>) => {
+      setLines(prev => {
+        const index = prev.findIndex(line => line.id === id);
+        if (index === -1) {
+          const line: RoomLine = { id, sourceText: '', sourceLang: '', translation: null, targetLang: null, speaker: null, receivedAt: Date.now(), ...update };
+          return [...prev, line].slice(-MAX_ROOM_LINES);
+        }
+        const next = [...prev];
+        next[index] = { ...next[index], ...update };
+        return next;
+      });
+    };
+
+    const open = () => {
+      socket = new WebSocket(wsUrl);
+
+      socket.onopen = () => {
+        socket?.send(JSON.stringify({ type: 'join_room', data: { room, role: 'viewer', targetLang } }));
+      };
+
+      socket.onmessage = (event) => {
+        const parsed = parseMessage(event.data, 'server');
+        if (!parsed.ok) {
+          console.warn(`Ignoring message from server: ${parsed.error.detail}`);
+          return;
+        }
+        const msg = parsed.message;
+        switch (msg.type) {
+          case 'room_joined':
+            attempt = 0;
+            setIsConnected(true);
+            setError(null);
+            break;
+          case 'room_status':
+            setStatus(msg.data);
+            break;
+          case 'room_source':
+            upsertLine(msg.data.id, { sourceText: msg.data.text, sourceLang: msg.data.sourceLang, speaker: msg.data.speaker ?? null });
+            break;
+          case 'room_text':
+            upsertLine(msg.data.id, {
+              sourceText: msg.data.sourceText,
+              sourceLang: msg.data.sourceLang,
+              translation: msg.data.content,
+              targetLang: msg.data.targetLang
+            });
+            break;
+          case 'error':
+            // Recoverable errors concern a single request, which this page has no use for
+            if (msg.recoverable) console.warn(`Server error (${msg.code}): ${msg.message}`);
+            else setError(msg.message);
+            break;
+        }
+      };
+
+      socket.onclose = () => {
+        setIsConnected(false);
+        if (!isActive) return;
+        attempt += 1;
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * Math.pow(2, attempt - 1), RECONNECT_MAX_DELAY_MS);
+        reconnectTimer = setTimeout(open, delay);
+      };
+    };
+
+    open();
+
+    return () => {
+      isActive = false;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [room, targetLang]);
+
+  return {
+    isConnected,
+    error,
+    lines,
+    status
+  };
+};
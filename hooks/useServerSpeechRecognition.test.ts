@@ -0,0 +1,135 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { useServerSpeechRecognition } from './useServerSpeechRecognition';
+
+// Captures the processor so tests can feed it audio frames
+class MockAudioContext {
+    static instances: MockAudioContext[] = [];
+    sampleRate = 48000;
+    destination = {};
+    processor = { connect: vi.fn(), disconnect: vi.fn(), onaudioprocess: null as ((event: any) => void) | null };
+    createMediaStreamSource = vi.fn().mockReturnValue({ connect: vi.fn() });
+    createScriptProcessor = vi.fn(() => this.processor);
+    close = vi.fn().mockResolvedValue(undefined);
+
+    constructor() {
+        MockAudioContext.instances.push(this);
+    }
+
+    // One 4096-sample frame of quiet noise at 48 kHz
+    feed() {
+        this.processor.onaudioprocess!({ inputBuffer: { getChannelData: () => new Float32Array(4096).fill(0.1) } });
+    }
+}
+
+describe('useServerSpeechRecognition', () => {
+    let originalAudioContext: any;
+    const stopTrack = vi.fn();
+    const getUserMedia = vi.fn();
+
+    beforeEach(() => {
+        originalAudioContext = window.AudioContext;
+        window.AudioContext = MockAudioContext as any;
+        MockAudioContext.instances = [];
+        getUserMedia.mockResolvedValue({ getTracks: () => [{ stop: stopTrack }] });
+        Object.defineProperty(navigator, 'mediaDevices', { value: { getUserMedia }, writable: true, configurable: true });
+    });
+
+    afterEach(() => {
+        window.AudioContext = originalAudioContext;
+        vi.clearAllMocks();
+        vi.restoreAllMocks();
+    });
+
+    const setup = () => {
+        const sendMessage = vi.fn().mockReturnValue(true);
+        const onError = vi.fn();
+        const hook = renderHook(() => useServerSpeechRecognition({ sendMessage, onError }));
+        return { ...hook, sendMessage, onError };
+    };
+
+    it('should open a server stream and send 16 kHz PCM frames', async () => {
+        const { result, sendMessage } = setup();
+
+        await act(async () => {
+            await result.current.startListening('Japanese');
+        });
+
+        expect(sendMessage).toHaveBeenCalledWith({ type: 'stt_start', data: { lang: 'Japanese' } });
+        expect(result.current.isListening).toBe(true);
+
+        MockAudioContext.instances[0].feed();
+        const [audio] = sendMessage.mock.calls.map(([msg]) => msg).filter(msg => msg.type === 'audio');
+        expect(audio.data.mimeType).toBe('audio/pcm;rate=16000');
+        // 4096 samples at 48 kHz become 1365 16-bit samples
+        expect(atob(audio.data.data)).toHaveLength(1365 * 2);
+    });
+
+    it('should only restart the server stream when already capturing', async () => {
+        const { result, sendMessage } = setup();
+
+        await act(async () => {
+            await result.current.startListening('Japanese');
+        });
+        await act(async () => {
+            await result.current.startListening('English');
+        });
+
+        expect(getUserMedia).toHaveBeenCalledTimes(1);
+        expect(sendMessage).toHaveBeenLastCalledWith({ type: 'stt_start', data: { lang: 'English' } });
+    });
+
+    it('should not send audio while paused for speech output', async () => {
+        const { result, sendMessage } = setup();
+        await act(async () => {
+            await result.current.startListening('Japanese');
+        });
+
+        act(() => {
+            result.current.setPaused(true);
+        });
+        MockAudioContext.instances[0].feed();
+        expect(sendMessage.mock.calls.some(([msg]) => msg.type === 'audio')).toBe(false);
+
+        act(() => {
+            result.current.setPaused(false);
+        });
+        MockAudioContext.instances[0].feed();
+        expect(sendMessage.mock.calls.some(([msg]) => msg.type === 'audio')).toBe(true);
+    });
+
+    it('should release the mic and close the server stream on stop', async () => {
+        const { result, sendMessage } = setup();
+        await act(async () => {
+            await result.current.startListening('Japanese');
+        });
+
+        act(() => {
+            result.current.stopListening();
+        });
+
+        expect(stopTrack).toHaveBeenCalled();
+        expect(MockAudioContext.instances[0].close).toHaveBeenCalled();
+        expect(sendMessage).toHaveBeenLastCalledWith({ type: 'stt_stop' });
+        expect(result.current.isListening).toBe(false);
+
+        // Stopping twice does not tell the server again
+        act(() => {
+            result.current.stopListening();
+        });
+        expect(sendMessage.mock.calls.filter(([msg]) => msg.type === 'stt_stop')).toHaveLength(1);
+    });
+
+    it('should report a denied mic as fatal', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        getUserMedia.mockRejectedValue(Object.assign(new Error('denied'), { name: 'NotAllowedError' }));
+        const { result, onError } = setup();
+
+        await act(async () => {
+            await result.current.startListening('Japanese');
+        });
+
+        expect(onError).toHaveBeenCalledWith(expect.stringContaining('許可'), true);
+        expect(result.current.isListening).toBe(false);
+    });
+});
@@ -0,0 +1,108 @@
+import { useState, useRef, useCallback } from 'react';
+import { createPcmBlob, downsampleTo16k } from '../utils/audio';
+import type { ClientMessage } from '../protocol.mjs';
+
+// ~256 ms per frame at 48 kHz; small enough for responsive interim results
+const CAPTURE_BUFFER_SIZE = 4096;
+
+interface UseServerSpeechRecognitionProps {
+  // Sends a message over the translation WebSocket; returns false while it is not open
+  sendMessage: (message: ClientMessage) => boolean;
+  onError: (errorMsg: string, isFatal: boolean) => void;
+}
+
+/**
+ * Same interface as `useSpeechRecognition`, but only captures the mic and streams
+ * 16 kHz PCM to the server. Results come back as `stt_interim` / `stt_final`
+ * messages, which the caller routes to its usual interim/final handlers.
+ */
+export const useServerSpeechRecognition = ({ sendMessage, onError }: UseServerSpeechRecognitionProps) => {
+  const [isListening, setIsListening] = useState(false);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const isActiveRef = useRef(false);
+  // Set while translations are read aloud so the app doesn't transcribe its own voice
+  const isPausedRef = useRef(false);
+
+  const releaseCapture = () => {
+    processorRef.current?.disconnect();
+    processorRef.current = null;
+    audioContextRef.current?.close().catch(() => { /* ignore */ });
+    audioContextRef.current = null;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  const startListening = useCallback(async (langDef: string) => {
+    isActiveRef.current = true;
+    // Also called on speaker switches and reconnects: the server (re)opens its stream
+    sendMessage({ type: 'stt_start', data: { lang: langDef } });
+    if (streamRef.current) return;
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      onError("ブラウザがマイク入力に対応していません", true);
+      isActiveRef.current = false;
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true } });
+      if (!isActiveRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      streamRef.current = stream;
+
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      const audioContext: AudioContext = new AudioContextClass();
+      audioContextRef.current = audioContext;
+      const source = audioContext.createMediaStreamSource(stream);
+      const processor = audioContext.createScriptProcessor(CAPTURE_BUFFER_SIZE, 1, 1);
+      processorRef.current = processor;
+
+      processor.onaudioprocess = (event) => {
+        if (!isActiveRef.current || isPausedRef.current) return;
+        const samples = downsampleTo16k(event.inputBuffer.getChannelData(0), audioContext.sampleRate);
+        // Frames captured while reconnecting are dropped; there is no server stream to feed
+        const { data, mimeType } = createPcmBlob(samples);
+        sendMessage({ type: 'audio', data: { data, mimeType } });
+      };
+
+      source.connect(processor);
+      // ScriptProcessor only runs while connected to the destination; its output stays silent
+      processor.connect(audioContext.destination);
+      setIsListening(true);
+    } catch (e: any) {
+      console.error("Failed to capture microphone:", e);
+      releaseCapture();
+      isActiveRef.current = false;
+      if (e?.name === 'NotAllowedError') {
+        onError("マイクの使用が許可されていません。ブラウザの設定を確認してください。", true);
+      } else {
+        onError("マイクが検出されませんでした。マイクを接続してください。", true);
+      }
+    }
+  }, [sendMessage, onError]);
+
+  const stopListening = useCallback(() => {
+    const wasActive = isActiveRef.current;
+    isActiveRef.current = false;
+    releaseCapture();
+    if (wasActive) {
+      sendMessage({ type: 'stt_stop' });
+    }
+    setIsListening(false);
+  }, [sendMessage]);
+
+  const setPaused = useCallback((paused: boolean) => {
+    isPausedRef.current = paused;
+  }, []);
+
+  return {
+    isListening,
+    startListening,
+    stopListening,
+    setPaused
+  };
+};
@@ -0,0 +1,190 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { useSpeechOutput, SpeechItem } from './useSpeechOutput';
+import { TtsSource } from '../types';
+
+class MockUtterance {
+    lang = '';
+    voice: any = null;
+    pitch = 1;
+    rate = 1;
+    onend: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+
+    constructor(public text: string) {}
+}
+
+// Records the buffers played; tests end one by calling its `onended`
+class MockAudioContext {
+    static instances: MockAudioContext[] = [];
+    destination = {};
+    sources: any[] = [];
+    createBuffer = vi.fn((channels: number, length: number) => ({ length, getChannelData: () => new Float32Array(length) }));
+    createBufferSource = vi.fn(() => {
+        const source = { buffer: null, connect: vi.fn(), start: vi.fn(), stop: vi.fn(), onended: null as (() => void) | null };
+        this.sources.push(source);
+        return source;
+    });
+
+    constructor() {
+        MockAudioContext.instances.push(this);
+    }
+}
+
+const item = (id: string, text: string, lang = 'English', persona = 'none'): SpeechItem => ({ id, text, lang, persona });
+
+describe('useSpeechOutput', () => {
+    let spoken: MockUtterance[];
+    let originalAudioContext: any;
+    const voices = [
+        { voiceURI: 'en-gb', lang: 'en-GB' },
+        { voiceURI: 'en-us', lang: 'en-US' },
+        { voiceURI: 'ja', lang: 'ja-JP' }
+    ];
+
+    beforeEach(() => {
+        spoken = [];
+        (window as any).SpeechSynthesisUtterance = MockUtterance;
+        (window as any).speechSynthesis = {
+            speak: vi.fn((utterance: MockUtterance) => spoken.push(utterance)),
+            cancel: vi.fn(),
+            getVoices: () => voices
+        };
+        originalAudioContext = window.AudioContext;
+        window.AudioContext = MockAudioContext as any;
+        MockAudioContext.instances = [];
+    });
+
+    afterEach(() => {
+        window.AudioContext = originalAudioContext;
+    });
+
+    const setup = (settings = {}) => {
+        const requestServerAudio = vi.fn().mockResolvedValue({ data: btoa('\0\0\0\0'), sampleRate: 24000 });
+        const onSpeakingChange = vi.fn();
+        const hook = renderHook(() => useSpeechOutput({ requestServerAudio, onSpeakingChange }));
+        act(() => {
+            hook.result.current.updateSettings({ enabled: true, source: TtsSource.BROWSER, voices: {}, ...settings });
+        });
+        return { ...hook, requestServerAudio, onSpeakingChange };
+    };
+
+    // Ends the utterance being spoken and lets the queue move on
+    const finishUtterance = async (index: number) => {
+        await act(async () => {
+            spoken[index].onend!();
+        });
+    };
+
+    it('should stay quiet while disabled', () => {
+        const { result } = setup({ enabled: false });
+
+        act(() => {
+            result.current.speak(item('r1', 'Hello'));
+        });
+
+        expect(spoken).toHaveLength(0);
+        expect(result.current.isSpeaking).toBe(false);
+    });
+
+    it('should read translations in order and pause the mic meanwhile', async () => {
+        const { result, onSpeakingChange } = setup();
+
+        act(() => {
+            result.current.speak(item('r1', 'Hello'));
+            result.current.speak(item('r2', 'World'));
+        });
+        expect(spoken.map(u => u.text)).toEqual(['Hello']);
+        expect(result.current.isSpeaking).toBe(true);
+        expect(onSpeakingChange).toHaveBeenLastCalledWith(true);
+
+        await finishUtterance(0);
+        expect(spoken.map(u => u.text)).toEqual(['Hello', 'World']);
+        // Still speaking between the two lines, so the mic stays paused
+        expect(onSpeakingChange).not.toHaveBeenCalledWith(false);
+
+        await finishUtterance(1);
+        expect(result.current.isSpeaking).toBe(false);
+        expect(onSpeakingChange).toHaveBeenLastCalledWith(false);
+    });
+
+    it('should pick the chosen voice, else one for the language, and shape it by persona', () => {
+        const { result } = setup({ voices: { English: 'en-gb' } });
+
+        act(() => {
+            result.current.speak({ ...item('r1', 'Hello', 'English', 'samurai'), pitch: 0.7, rate: 0.9 });
+        });
+
+        expect(spoken[0]).toMatchObject({ lang: 'en-US', pitch: 0.7, rate: 0.9 });
+        expect(spoken[0].voice.voiceURI).toBe('en-gb');
+    });
+
+    it('should prefer the voice chosen for the persona over the language\'s', async () => {
+        const { result } = setup({ voices: { English: 'en-gb', 'cat:English': 'en-us' } });
+
+        act(() => {
+            result.current.speak(item('r1', 'Hello', 'English', 'cat'));
+            result.current.speak(item('r2', 'Hello', 'English', 'samurai'));
+        });
+        await finishUtterance(0);
+
+        expect(spoken.map(u => u.voice.voiceURI)).toEqual(['en-us', 'en-gb']);
+    });
+
+    it('should drop the oldest waiting lines when they pile up', async () => {
+        const { result } = setup();
+
+        act(() => {
+            ['one', 'two', 'three', 'four', 'five', 'six', 'seven'].forEach((text, i) => result.current.speak(item(`r${i}`, text)));
+        });
+        for (let i = 0; i < 6; i++) {
+            await finishUtterance(i);
+        }
+
+        // "one" was already playing; "two" fell off the queue
+        expect(spoken.map(u => u.text)).toEqual(['one', 'three', 'four', 'five', 'six', 'seven']);
+    });
+
+    it('should request server audio as soon as a line is queued', async () => {
+        const { result, requestServerAudio } = setup({ source: TtsSource.SERVER, voices: { English: 'alloy' } });
+
+        await act(async () => {
+            result.current.speak(item('r1', 'Hello'));
+            result.current.speak(item('r2', 'World'));
+        });
+
+        expect(requestServerAudio).toHaveBeenCalledTimes(2);
+        expect(requestServerAudio).toHaveBeenCalledWith(item('r2', 'World'), 'alloy');
+        const [ctx] = MockAudioContext.instances;
+        expect(ctx.createBuffer).toHaveBeenCalledWith(1, 2, 24000);
+        expect(ctx.sources).toHaveLength(1);
+
+        await act(async () => {
+            ctx.sources[0].onended();
+        });
+        expect(ctx.sources).toHaveLength(2);
+        expect(spoken).toHaveLength(0);
+    });
+
+    it('should stop and forget the queue when turned off', () => {
+        const { result, onSpeakingChange } = setup();
+        act(() => {
+            result.current.speak(item('r1', 'Hello'));
+            result.current.speak(item('r2', 'World'));
+        });
+
+        act(() => {
+            result.current.updateSettings({ enabled: false, source: TtsSource.BROWSER, voices: {} });
+        });
+
+        expect(window.speechSynthesis.cancel).toHaveBeenCalled();
+        expect(result.current.isSpeaking).toBe(false);
+        expect(onSpeakingChange).toHaveBeenLastCalledWith(false);
+
+        // The cut-off utterance ending late does not start the next one
+        act(() => {
+            spoken[0].onend!();
+        });
+        expect(spoken).toHaveLength(1);
+    });
+});
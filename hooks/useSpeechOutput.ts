@@ -0,0 +1,194 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { decode, decodeAudioData } from '../utils/audio';
+import { SpeechSettings, TtsSource } from '../types';
+
+// Translations arriving faster than they can be read are dropped from the front
+const MAX_QUEUED_SPEECH = 5;
+
+export const speechLangTags: { [key: string]: string } = {
+  'Japanese': 'ja-JP',
+  'English': 'en-US',
+  'Spanish': 'es-ES',
+  'Chinese': 'zh-CN',
+  'Korean': 'ko-KR',
+  'French': 'fr-FR',
+  'German': 'de-DE'
+};
+
+export interface SpeechItem {
+  id: string;
+  text: string;
+  lang: string;
+  persona: string;
+  // Browser speech style from the persona file; the voice's normal delivery when unset
+  pitch?: number;
+  rate?: number;
+}
+
+/**
+ * Key of a voice choice in `SpeechSettings.voices`: the language, or "persona:language"
+ * for a voice that only applies while that persona is selected.
+ */
+export const voiceKey = (lang: string, persona?: string) =>
+  persona && persona !== 'none' ? `${persona}:${lang}` : lang;
+
+// The persona's own voice for the language, else the one chosen for the language
+const chosenVoice = (voices: Record<string, string>, item: SpeechItem) =>
+  voices[voiceKey(item.lang, item.persona)] || voices[item.lang] || undefined;
+
+export interface ServerSpeechAudio {
+  data: string;
+  sampleRate: number;
+}
+
+interface QueuedSpeech extends SpeechItem {
+  // Server audio is requested as soon as the item is queued so synthesis overlaps playback
+  audio: Promise<ServerSpeechAudio> | null;
+}
+
+interface UseSpeechOutputProps {
+  requestServerAudio: (item: SpeechItem, voice?: string) => Promise<ServerSpeechAudio>;
+  // Called when the queue starts and finishes playing, so the mic can be paused meanwhile
+  onSpeakingChange: (isSpeaking: boolean) => void;
+}
+
+export const useSpeechOutput = ({ requestServerAudio, onSpeakingChange }: UseSpeechOutputProps) => {
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [browserVoices, setBrowserVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const settingsRef = useRef<SpeechSettings>({ enabled: false, source: TtsSource.BROWSER, voices: {} });
+  const queueRef = useRef<QueuedSpeech[]>([]);
+  const isPlayingRef = useRef(false);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const currentSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Bumped by cancel() so a playback that was cut off doesn't start the next item
+  const generationRef = useRef(0);
+  const onSpeakingChangeRef = useRef(onSpeakingChange);
+  onSpeakingChangeRef.current = onSpeakingChange;
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || !window.speechSynthesis) return;
+    const loadVoices = () => setBrowserVoices(window.speechSynthesis.getVoices());
+    loadVoices();
+    window.speechSynthesis.addEventListener?.('voiceschanged', loadVoices);
+    return () => window.speechSynthesis.removeEventListener?.('voiceschanged', loadVoices);
+  }, []);
+
+  const setSpeaking = (speaking: boolean) => {
+    setIsSpeaking(speaking);
+    onSpeakingChangeRef.current(speaking);
+  };
+
+  const speakWithBrowser = (item: SpeechItem) => new Promise<void>((resolve) => {
+    if (!window.speechSynthesis) {
+      resolve();
+      return;
+    }
+    const tag = speechLangTags[item.lang] || item.lang;
+    const voices = window.speechSynthesis.getVoices();
+    const chosen = chosenVoice(settingsRef.current.voices, item);
+    const voice = voices.find(v => v.voiceURI === chosen)
+      || voices.find(v => v.lang === tag)
+      || voices.find(v => v.lang.startsWith(tag.split('-')[0]));
+
+    const utterance = new SpeechSynthesisUtterance(item.text);
+    utterance.lang = tag;
+    if (voice) utterance.voice = voice;
+    utterance.pitch = item.pitch ?? 1;
+    utterance.rate = item.rate ?? 1;
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    window.speechSynthesis.speak(utterance);
+  });
+
+  const playServerAudio = async (audio: Promise<ServerSpeechAudio>) => {
+    const { data, sampleRate } = await audio;
+    if (!audioContextRef.current) {
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      audioContextRef.current = new AudioContextClass();
+    }
+    const ctx = audioContextRef.current;
+    const buffer = await decodeAudioData(decode(data), ctx, sampleRate, 1);
+
+    await new Promise<void>((resolve) => {
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => resolve();
+      currentSourceRef.current = source;
+      source.start();
+    });
+    currentSourceRef.current = null;
+  };
+
+  const playNext = useCallback(async () => {
+    if (isPlayingRef.current) return;
+    const item = queueRef.current.shift();
+    if (!item) return;
+
+    const generation = generationRef.current;
+    isPlayingRef.current = true;
+    setSpeaking(true);
+    try {
+      if (item.audio) {
+        await playServerAudio(item.audio);
+      } else {
+        await speakWithBrowser(item);
+      }
+    } catch (e: any) {
+      console.warn("Speech playback failed:", e?.message || e);
+    }
+    if (generation !== generationRef.current) return;
+
+    isPlayingRef.current = false;
+    if (queueRef.current.length === 0) {
+      setSpeaking(false);
+    } else {
+      playNext();
+    }
+  }, []);
+
+  const speak = useCallback((item: SpeechItem) => {
+    const settings = settingsRef.current;
+    if (!settings.enabled || !item.text.trim()) return;
+
+    const audio = settings.source === TtsSource.SERVER
+      ? requestServerAudio(item, chosenVoice(settings.voices, item))
+      : null;
+    // Keep unhandled rejections quiet for items that get dropped before playing
+    audio?.catch(() => {});
+    queueRef.current.push({ ...item, audio });
+    if (queueRef.current.length > MAX_QUEUED_SPEECH) {
+      queueRef.current.shift();
+    }
+    playNext();
+  }, [requestServerAudio, playNext]);
+
+  const cancel = useCallback(() => {
+    generationRef.current += 1;
+    queueRef.current = [];
+    window.speechSynthesis?.cancel();
+    try {
+      currentSourceRef.current?.stop();
+    } catch (e) { /* ignore */ }
+    currentSourceRef.current = null;
+    if (isPlayingRef.current) {
+      isPlayingRef.current = false;
+      setSpeaking(false);
+    }
+  }, []);
+
+  const updateSettings = useCallback((settings: SpeechSettings) => {
+    settingsRef.current = settings;
+    if (!settings.enabled) {
+      cancel();
+    }
+  }, [cancel]);
+
+  return {
+    isSpeaking,
+    browserVoices,
+    speak,
+    cancel,
+    updateSettings
+  };
+};
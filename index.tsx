@@ -1,15 +1,24 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import Overlay from './Overlay';
+import Room from './Room';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// /overlay is the OBS browser source, /room the broadcast viewer; everything else is the controller
+const pages: Record<string, React.FC> = {
+  '/overlay': Overlay,
+  '/room': Room,
+};
+const Page = pages[window.location.pathname.replace(/\/+$/, '')] || App;
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <Page />
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,301 @@
+/**
+ * Gemini Key Pool
+ * Spreads requests over several API keys, each with its own per-minute /
+ * per-day RateLimiter. Keys that hit a 429 cool down, keys that keep failing
+ * auth are disabled, and usage can be persisted through a UsageStore.
+ */
+
+const { GoogleGenAI } = require('@google/genai');
+const { keyId } = require('./usageStore');
+
+class RateLimiter {
+  constructor(rpm, rpd) {
+    this.rpm = rpm;
+    this.rpd = rpd;
+    this.minuteRequests = [];
+    this.dayRequests = [];
+    this.exhaustedUntil = 0;
+    this.onChange = null;
+  }
+
+  check() {
+    const now = Date.now();
+    this.minuteRequests = this.minuteRequests.filter(t => now - t < 60000);
+    this.dayRequests = this.dayRequests.filter(t => now - t < 86400000);
+    const exhaustedIn = Math.max(0, this.exhaustedUntil - now);
+    return {
+      allowed: exhaustedIn === 0 && this.minuteRequests.length < this.rpm && this.dayRequests.length < this.rpd,
+      minuteRemaining: Math.max(0, this.rpm - this.minuteRequests.length),
+      dayRemaining: exhaustedIn > 0 ? 0 : Math.max(0, this.rpd - this.dayRequests.length),
+      minuteResetIn: this.minuteRequests.length > 0 ? Math.max(0, 60000 - (now - this.minuteRequests[0])) : 0,
+      dayResetIn: this.dayRequests.length > 0 ? Math.max(0, 86400000 - (now - this.dayRequests[0])) : 0,
+      exhaustedIn,
+      minuteUsed: this.minuteRequests.length,
+      dayUsed: this.dayRequests.length
+    };
+  }
+
+  record() {
+    const now = Date.now();
+    this.minuteRequests.push(now);
+    this.dayRequests.push(now);
+    this.changed();
+  }
+
+  /**
+   * Blocks the key after the API itself rejected it (429 / quota), even if our
+   * own counters say it still has room.
+   */
+  markExhausted(isDailyLimit, retryAfterMs = null) {
+    const { dayResetIn } = this.check();
+    this.coolDown(retryAfterMs || (isDailyLimit ? (dayResetIn || 86400000) : 60000));
+  }
+
+  coolDown(duration) {
+    this.exhaustedUntil = Math.max(this.exhaustedUntil, Date.now() + duration);
+    this.changed();
+  }
+
+  lastUsedAt() {
+    return this.dayRequests.length > 0 ? this.dayRequests[this.dayRequests.length - 1] : 0;
+  }
+
+  changed() {
+    if (this.onChange) this.onChange();
+  }
+
+  serialize() {
+    this.check();
+    return {
+      requests: this.dayRequests,
+      exhaustedUntil: this.exhaustedUntil > Date.now() ? this.exhaustedUntil : 0
+    };
+  }
+
+  /**
+   * Restores saved usage; entries outside the day/minute windows are pruned.
+   */
+  restore(state) {
+    if (!state) return;
+    const now = Date.now();
+    const requests = (state.requests || []).filter(t => typeof t === 'number' && t <= now).sort((a, b) => a - b);
+    this.dayRequests = requests;
+    this.minuteRequests = requests.filter(t => now - t < 60000);
+    this.exhaustedUntil = state.exhaustedUntil || 0;
+    this.check();
+  }
+
+  getStatus() {
+    const now = Date.now();
+    this.minuteRequests = this.minuteRequests.filter(t => now - t < 60000);
+    this.dayRequests = this.dayRequests.filter(t => now - t < 86400000);
+    return {
+      minuteUsed: this.minuteRequests.length,
+      dayUsed: this.dayRequests.length,
+      minuteRemaining: Math.max(0, this.rpm - this.minuteRequests.length),
+      dayRemaining: Math.max(0, this.rpd - this.dayRequests.length)
+    };
+  }
+}
+
+/**
+ * Extracts the server-suggested wait from a Gemini error, in ms.
+ * Handles RetryInfo ("retryDelay": "37s"), "Please retry in 12.5s" and Retry-After headers.
+ */
+const parseRetryAfter = (error) => {
+  const header = error.headers?.['retry-after'] ?? error.response?.headers?.get?.('retry-after');
+  if (header && !isNaN(Number(header))) return Number(header) * 1000;
+
+  const message = error.message || '';
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+const KEY_STRATEGIES = ['lru', 'round-robin', 'weighted', 'first'];
+
+class KeyPool {
+  constructor(keys, rpm, rpd, { store = null, strategy = 'lru', authFailureLimit = 3, authCooldownMs = 30000 } = {}) {
+    this.rpm = rpm;
+    this.rpd = rpd;
+    this.store = store;
+    this.strategy = KEY_STRATEGIES.includes(strategy) ? strategy : 'lru';
+    this.authFailureLimit = authFailureLimit;
+    this.authCooldownMs = authCooldownMs;
+    this.cursor = -1;
+
+    this.keyPool = keys.map((key, index) => {
+      const item = {
+        index,
+        key,
+        id: keyId(key),
+        hint: `...${key.slice(-4)}`,
+        limiter: new RateLimiter(rpm, rpd),
+        client: new GoogleGenAI({ apiKey: key }),
+        health: { disabled: false, authFailures: 0, lastError: null, lastErrorAt: null }
+      };
+      if (store) {
+        const saved = store.get(item.id);
+        item.limiter.restore(saved);
+        if (saved) {
+          item.health.disabled = !!saved.disabled;
+          item.health.authFailures = saved.authFailures || 0;
+        }
+        item.limiter.onChange = () => this.persist(item);
+      }
+      return item;
+    });
+  }
+
+  persist(item) {
+    if (!this.store) return;
+    this.store.set(item.id, {
+      index: item.index,
+      hint: item.hint,
+      ...item.limiter.serialize(),
+      disabled: item.health.disabled,
+      authFailures: item.health.authFailures
+    });
+  }
+
+  getAvailableKey() {
+    const candidates = this.keyPool
+      .filter(item => !item.health.disabled)
+      .map(item => ({ item, status: item.limiter.check() }))
+      .filter(({ status }) => status.allowed);
+
+    if (candidates.length === 0) return null;
+
+    switch (this.strategy) {
+      case 'first':
+        return candidates[0].item;
+      case 'round-robin': {
+        const next = candidates.find(({ item }) => item.index > this.cursor) || candidates[0];
+        this.cursor = next.item.index;
+        return next.item;
+      }
+      case 'weighted': {
+        // Random pick, weighted by the share of daily quota each key has left
+        const weights = candidates.map(({ status }) => Math.max(1, Math.min(status.dayRemaining, status.minuteRemaining * (this.rpd / this.rpm))));
+        let roll = Math.random() * weights.reduce((a, b) => a + b, 0);
+        for (let i = 0; i < candidates.length; i++) {
+          roll -= weights[i];
+          if (roll <= 0) return candidates[i].item;
+        }
+        return candidates[candidates.length - 1].item;
+      }
+      default:
+        return candidates.reduce((a, b) => (b.item.limiter.lastUsedAt() < a.item.limiter.lastUsedAt() ? b : a)).item;
+    }
+  }
+
+  reportSuccess(item) {
+    if (item.health.authFailures > 0) {
+      item.health.authFailures = 0;
+      this.persist(item);
+    }
+  }
+
+  /**
+   * Classifies a failed call and applies cooldown / disabling to the key.
+   * Returns { kind: 'rate_limit' | 'auth' | 'other', isDailyLimit, message }.
+   */
+  reportFailure(item, error) {
+    const message = error.message || String(error);
+    const status = error.status || error.statusCode;
+    item.health.lastError = message.slice(0, 200);
+    item.health.lastErrorAt = Date.now();
+
+    if (status === 401 || status === 403 || /API_KEY_INVALID|API key not valid|PERMISSION_DENIED/i.test(message)) {
+      item.health.authFailures += 1;
+      if (item.health.authFailures >= this.authFailureLimit) {
+        item.health.disabled = true;
+        console.error(`Key #${item.index + 1} disabled after ${item.health.authFailures} auth failures:`, message);
+        this.persist(item);
+      } else {
+        console.error(`Auth error on Key #${item.index + 1} (${item.health.authFailures}/${this.authFailureLimit}):`, message);
+        item.limiter.coolDown(this.authCooldownMs);
+      }
+      return { kind: 'auth', isDailyLimit: false, message };
+    }
+
+    if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|rate limit|quota/i.test(message)) {
+      // Gemini names the exhausted quota (e.g. "GenerateRequestsPerDayPerProjectPerModel-FreeTier").
+      // Only a per-day metric blocks the key until the daily window resets; anything else gets the per-minute cooldown.
+      const isDailyLimit = /PerDay|per day|daily/i.test(message);
+      const retryAfter = parseRetryAfter(error);
+      item.limiter.markExhausted(isDailyLimit, retryAfter);
+      console.error(`Gemini API rate limit hit on Key #${item.index + 1}, cooling down for ${Math.ceil(item.limiter.check().exhaustedIn / 1000)}s:`, message);
+      return { kind: 'rate_limit', isDailyLimit, message };
+    }
+
+    return { kind: 'other', isDailyLimit: false, message };
+  }
+
+  getKeyHealth(item) {
+    const status = item.limiter.check();
+    let state = 'ok';
+    if (item.health.disabled) state = 'disabled';
+    else if (status.exhaustedIn > 0) state = 'cooldown';
+    else if (!status.allowed) state = 'limited';
+
+    return {
+      index: item.index,
+      hint: item.hint,
+      state,
+      minuteRemaining: status.minuteRemaining,
+      dayRemaining: status.dayRemaining,
+      cooldownIn: status.exhaustedIn,
+      authFailures: item.health.authFailures,
+      lastError: item.health.lastError,
+      lastErrorAt: item.health.lastErrorAt,
+      lastUsedAt: item.limiter.lastUsedAt() || null
+    };
+  }
+
+  getAggregatedStatus() {
+    let totalMinuteRemaining = 0;
+    let totalDayRemaining = 0;
+    let totalMinuteUsed = 0;
+    let totalDayUsed = 0;
+    let minResetIn = Infinity;
+    let allLimited = true;
+
+    for (const item of this.keyPool) {
+      const status = item.limiter.check();
+      totalMinuteUsed += status.minuteUsed;
+      totalDayUsed += status.dayUsed;
+      if (item.health.disabled) continue;
+
+      totalMinuteRemaining += status.minuteRemaining;
+      totalDayRemaining += status.dayRemaining;
+      if (status.allowed) allLimited = false;
+      const resetIn = Math.max(status.minuteResetIn, status.exhaustedIn);
+      if (!status.allowed && resetIn < minResetIn) {
+        minResetIn = resetIn;
+      }
+    }
+
+    return {
+      allowed: !allLimited,
+      minuteRemaining: totalMinuteRemaining,
+      dayRemaining: totalDayRemaining,
+      minuteUsed: totalMinuteUsed,
+      dayUsed: totalDayUsed,
+      waitTime: minResetIn === Infinity ? 0 : minResetIn,
+      keyCount: this.keyPool.length,
+      strategy: this.strategy,
+      keys: this.keyPool.map(item => this.getKeyHealth(item))
+    };
+  }
+
+  hasKeys() {
+    return this.keyPool.length > 0;
+  }
+}
+
+module.exports = {
+  RateLimiter,
+  KeyPool,
+  KEY_STRATEGIES,
+  parseRetryAfter
+};
@@ -0,0 +1,170 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RateLimiter, KeyPool, parseRetryAfter } from './keyPool';
+
+describe('RateLimiter', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should enforce the per-minute limit and reopen after a minute', () => {
+        vi.useFakeTimers();
+        const limiter = new RateLimiter(2, 10);
+        limiter.record();
+        limiter.record();
+
+        expect(limiter.check()).toMatchObject({ allowed: false, minuteRemaining: 0, dayRemaining: 8 });
+        vi.advanceTimersByTime(60001);
+        expect(limiter.check()).toMatchObject({ allowed: true, minuteRemaining: 2, dayUsed: 2 });
+    });
+
+    it('should cool down for a minute or until the day resets', () => {
+        vi.useFakeTimers();
+        const limiter = new RateLimiter(5, 10);
+        limiter.record();
+
+        limiter.markExhausted(false);
+        expect(limiter.check().exhaustedIn).toBe(60000);
+
+        limiter.markExhausted(true);
+        expect(limiter.check()).toMatchObject({ allowed: false, dayRemaining: 0, exhaustedIn: 86400000 });
+    });
+
+    it('should prefer the wait suggested by the API', () => {
+        vi.useFakeTimers();
+        const limiter = new RateLimiter(5, 10);
+        limiter.markExhausted(true, 5000);
+
+        expect(limiter.check().exhaustedIn).toBe(5000);
+    });
+
+    it('should restore saved usage and drop requests older than a day', () => {
+        vi.useFakeTimers();
+        const now = Date.now();
+        const limiter = new RateLimiter(5, 10);
+        limiter.restore({ requests: [now - 90000000, now - 3600000, now - 1000], exhaustedUntil: now + 2000 });
+
+        expect(limiter.check()).toMatchObject({ minuteUsed: 1, dayUsed: 2, exhaustedIn: 2000 });
+        expect(limiter.serialize()).toEqual({ requests: [now - 3600000, now - 1000], exhaustedUntil: now + 2000 });
+    });
+});
+
+describe('parseRetryAfter', () => {
+    it('should read RetryInfo, the message text and the Retry-After header', () => {
+        expect(parseRetryAfter({ message: '{"retryDelay": "37s"}' })).toBe(37000);
+        expect(parseRetryAfter({ message: 'Please retry in 12.5s.' })).toBe(12500);
+        expect(parseRetryAfter({ message: 'quota', headers: { 'retry-after': '3' } })).toBe(3000);
+        expect(parseRetryAfter({ message: 'quota' })).toBeNull();
+    });
+});
+
+describe('KeyPool', () => {
+    const keys = ['key-aaaa', 'key-bbbb', 'key-cccc'];
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    // Takes a key and records a request on it, the way generateWithPool does
+    const take = (pool: KeyPool) => {
+        const item = pool.getAvailableKey();
+        item.limiter.record();
+        return item.index;
+    };
+
+    it('should pick keys by strategy', () => {
+        vi.useFakeTimers();
+        const first = new KeyPool(keys, 5, 20, { strategy: 'first' });
+        expect([take(first), take(first), take(first)]).toEqual([0, 0, 0]);
+
+        const roundRobin = new KeyPool(keys, 5, 20, { strategy: 'round-robin' });
+        expect([take(roundRobin), take(roundRobin), take(roundRobin), take(roundRobin)]).toEqual([0, 1, 2, 0]);
+
+        const lru = new KeyPool(keys, 5, 20, { strategy: 'lru' });
+        take(lru);
+        vi.advanceTimersByTime(10);
+        take(lru);
+        vi.advanceTimersByTime(10);
+        take(lru);
+        vi.advanceTimersByTime(10);
+        // Key #1 has waited longest
+        expect(take(lru)).toBe(0);
+    });
+
+    it('should fall back to lru for an unknown strategy', () => {
+        expect(new KeyPool(keys, 5, 20, { strategy: 'nonsense' }).strategy).toBe('lru');
+    });
+
+    it('should skip keys that are cooling down after a per-minute 429', () => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const pool = new KeyPool(keys.slice(0, 2), 5, 20, { strategy: 'first' });
+        const [item] = pool.keyPool;
+
+        const failure = pool.reportFailure(item, Object.assign(new Error('Quota exceeded for metric GenerateRequestsPerMinutePerProjectPerModel'), { status: 429 }));
+
+        expect(failure).toMatchObject({ kind: 'rate_limit', isDailyLimit: false });
+        expect(pool.getKeyHealth(item)).toMatchObject({ state: 'cooldown', cooldownIn: 60000 });
+        expect(pool.getAvailableKey().index).toBe(1);
+        vi.advanceTimersByTime(60000);
+        expect(pool.getAvailableKey().index).toBe(0);
+    });
+
+    it('should block a key for the day only when a per-day quota is named', () => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const pool = new KeyPool(keys.slice(0, 1), 5, 20);
+        const [item] = pool.keyPool;
+
+        const failure = pool.reportFailure(item, new Error('429 RESOURCE_EXHAUSTED: quota GenerateRequestsPerDayPerProjectPerModel-FreeTier'));
+
+        expect(failure.isDailyLimit).toBe(true);
+        expect(pool.getKeyHealth(item).cooldownIn).toBe(86400000);
+        expect(pool.getAggregatedStatus()).toMatchObject({ allowed: false, dayRemaining: 0, waitTime: 86400000 });
+    });
+
+    it('should disable a key after repeated auth failures', () => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const pool = new KeyPool(keys.slice(0, 2), 5, 20, { strategy: 'first', authFailureLimit: 2, authCooldownMs: 1000 });
+        const [item] = pool.keyPool;
+        const authError = Object.assign(new Error('API key not valid'), { status: 400 });
+
+        expect(pool.reportFailure(item, authError).kind).toBe('auth');
+        expect(pool.getKeyHealth(item)).toMatchObject({ state: 'cooldown', authFailures: 1 });
+        vi.advanceTimersByTime(1000);
+        pool.reportFailure(item, authError);
+
+        expect(pool.getKeyHealth(item).state).toBe('disabled');
+        expect(pool.getAvailableKey().index).toBe(1);
+        expect(pool.getAggregatedStatus().keys.map(key => key.state)).toEqual(['disabled', 'ok']);
+    });
+
+    it('should reset the auth failure count after a success', () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const pool = new KeyPool(keys.slice(0, 1), 5, 20, { authCooldownMs: 0 });
+        const [item] = pool.keyPool;
+        pool.reportFailure(item, Object.assign(new Error('denied'), { status: 403 }));
+        pool.reportSuccess(item);
+
+        expect(item.health.authFailures).toBe(0);
+    });
+
+    it('should save usage to the store and restore it in a new pool', () => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const entries = new Map();
+        const store = { get: (id: string) => entries.get(id) || null, set: (id: string, entry: unknown) => entries.set(id, entry) };
+
+        const pool = new KeyPool(keys.slice(0, 2), 5, 20, { store, strategy: 'first', authFailureLimit: 1 });
+        take(pool);
+        take(pool);
+        pool.reportFailure(pool.keyPool[1], Object.assign(new Error('API key not valid'), { status: 401 }));
+
+        const restored = new KeyPool(keys.slice(0, 2), 5, 20, { store, strategy: 'first' });
+        expect(restored.getKeyHealth(restored.keyPool[0])).toMatchObject({ minuteRemaining: 3, dayRemaining: 18 });
+        expect(restored.getKeyHealth(restored.keyPool[1]).state).toBe('disabled');
+        // Stored under a hash of the key, never the key itself
+        expect([...entries.keys()].some(id => keys.includes(id))).toBe(false);
+    });
+});
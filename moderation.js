@@ -0,0 +1,297 @@
+/**
+ * Content Moderation
+ * Filters recognized speech and translations before anything is displayed,
+ * relayed to overlays / rooms or written to the transcript.
+ *
+ * Word lists live in the moderation directory, one file per language
+ * (<Language>.txt, plus all.txt for every language). Each line is a word,
+ * optionally with its replacement: `word => replacement`. Lines starting
+ * with # are comments.
+ *
+ * Policies:
+ *   - mask:    the word is replaced by asterisks of the same length
+ *   - replace: the word is replaced by its listed replacement (or MODERATION_REPLACEMENT)
+ *   - drop:    the whole line is not shown
+ *   - off:     nothing is filtered
+ *
+ * The optional LLM check asks an LLM engine whether a line the word lists let
+ * through is still unsuitable for a stream; flagged lines are dropped (or
+ * replaced as a whole unless the policy is drop). It needs the complete line,
+ * so translations are not streamed while it is on.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_MODERATION_DIR = path.join(__dirname, 'moderation');
+const DEFAULT_LOG_PATH = path.join(__dirname, 'data', 'moderation-log.jsonl');
+const MODERATION_POLICIES = ['mask', 'replace', 'drop', 'off'];
+const DEFAULT_REPLACEMENT = '(ピー)';
+const COMMON_LIST = 'all';
+
+// Keeps a huge list from slowing down every utterance
+const MAX_WORDS_PER_LANGUAGE = 2000;
+
+const LLM_CHECK_PROMPT = `You moderate live-stream subtitles. Reply with exactly one word:
+FLAG if the text contains slurs, hate speech, sexual content, threats or heavy profanity, otherwise OK.`;
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Words written in Latin script only match whole words ("ass" must not hit "class");
+// other scripts have no spaces, so they match anywhere
+const isLatinWord = (word) => /^[\p{Script=Latin}\d' -]+$/u.test(word);
+
+const wordPattern = (word) => isLatinWord(word)
+  ? `(?<![\\p{L}\\p{N}])${escapeRegExp(word)}(?![\\p{L}\\p{N}])`
+  : escapeRegExp(word);
+
+/**
+ * Parses a word list file: one `word` or `word => replacement` per line.
+ */
+function parseWordList(content) {
+  return content.split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const [word, ...replacement] = line.split('=>');
+      return { word: word.trim(), replacement: replacement.join('=>').trim() || null };
+    })
+    .filter(entry => entry.word)
+    .slice(0, MAX_WORDS_PER_LANGUAGE);
+}
+
+/**
+ * One regex for a set of entries. Longest words come first, so "shithead" wins over "shit".
+ */
+function compileWordLists(entries) {
+  const sorted = [...entries].sort((a, b) => b.word.length - a.word.length);
+  return {
+    pattern: new RegExp(sorted.map(entry => wordPattern(entry.word)).join('|'), 'giu'),
+    byWord: new Map(sorted.map(entry => [entry.word.toLowerCase(), entry])),
+    // In UTF-16 units, like regex match indices
+    maxLength: sorted[0].word.length
+  };
+}
+
+const replaceMatch = (match, compiled, { policy, replacement }) => {
+  if (policy === 'mask') return '*'.repeat(Array.from(match).length);
+  return compiled.byWord.get(match.toLowerCase())?.replacement ?? replacement;
+};
+
+/**
+ * Applies word lists to a line.
+ * Returns { text, matches } where text is null when the line is dropped.
+ */
+function applyWordLists(text, entries, { policy, replacement = DEFAULT_REPLACEMENT }) {
+  if (!text || policy === 'off' || entries.length === 0) return { text, matches: [] };
+
+  const compiled = compileWordLists(entries);
+  const matches = [];
+  const filtered = text.replace(compiled.pattern, (match) => {
+    matches.push(match);
+    return replaceMatch(match, compiled, { policy, replacement });
+  });
+
+  if (matches.length === 0) return { text, matches };
+  return { text: policy === 'drop' ? null : filtered, matches };
+}
+
+const isHighSurrogate = (code) => code >= 0xD800 && code <= 0xDBFF;
+
+/**
+ * Filters a translation while it streams in. The last few characters are held
+ * back until no listed word can still be forming there, so every piece that
+ * push() returns is final: a word is never shown half-typed and then masked.
+ * Under the drop policy the stream stops at the first match; the complete
+ * line is dropped afterwards anyway.
+ */
+class StreamFilter {
+  constructor(entries, { policy, replacement = DEFAULT_REPLACEMENT }) {
+    this.compiled = policy !== 'off' && entries.length > 0 ? compileWordLists(entries) : null;
+    this.options = { policy, replacement };
+    this.reset();
+  }
+
+  /**
+   * Starts over, e.g. when a retry streams the translation again.
+   */
+  reset() {
+    this.text = '';
+    this.emitted = 0;
+    this.stopped = false;
+  }
+
+  /**
+   * Adds a streamed fragment. Returns the filtered text that can be shown now (possibly '').
+   */
+  push(delta) {
+    this.text += delta;
+    if (this.stopped) return '';
+    if (!this.compiled) {
+      const output = this.text.slice(this.emitted);
+      this.emitted = this.text.length;
+      return output;
+    }
+
+    // A word ending within maxLength of the end may still be incomplete, and a
+    // Latin word needs the character after it to know that it ends there
+    let end = this.text.length - this.compiled.maxLength - 1;
+    const matches = [...this.text.matchAll(this.compiled.pattern)].filter(match => match.index >= this.emitted && match.index < end);
+    const last = matches[matches.length - 1];
+    if (last && last.index + last[0].length > end) {
+      // Never cut through a word
+      end = last.index;
+    }
+    if (isHighSurrogate(this.text.charCodeAt(end - 1))) end -= 1;
+    if (end <= this.emitted) return '';
+
+    if (matches.length > 0 && this.options.policy === 'drop') {
+      this.stopped = true;
+      return '';
+    }
+
+    let output = '';
+    let position = this.emitted;
+    for (const match of matches) {
+      if (match.index >= end) break;
+      output += this.text.slice(position, match.index) + replaceMatch(match[0], this.compiled, this.options);
+      position = match.index + match[0].length;
+    }
+    output += this.text.slice(position, end);
+    this.emitted = end;
+    return output;
+  }
+}
+
+class ContentModerator {
+  /**
+   * llmCheck(text, lang) resolves true when the LLM flags the line; omit it to rely on word lists only.
+   */
+  constructor({ dir = DEFAULT_MODERATION_DIR, policy = 'mask', replacement = DEFAULT_REPLACEMENT, llmCheck = null, logPath = DEFAULT_LOG_PATH } = {}) {
+    this.dir = dir;
+    this.policy = MODERATION_POLICIES.includes(policy) ? policy : 'mask';
+    this.replacement = replacement;
+    this.llmCheck = llmCheck;
+    this.logPath = logPath;
+    this.lists = {}; // language -> [{ word, replacement }]
+    this.load();
+  }
+
+  load() {
+    let files = [];
+    try {
+      files = fs.readdirSync(this.dir).filter(file => /\.txt$/i.test(file));
+    } catch (err) {
+      if (err.code !== 'ENOENT') {
+        console.error(`Failed to read moderation directory ${this.dir}:`, err.message);
+      }
+    }
+
+    this.lists = {};
+    files.forEach(file => {
+      try {
+        this.lists[path.basename(file, path.extname(file))] = parseWordList(fs.readFileSync(path.join(this.dir, file), 'utf8'));
+      } catch (err) {
+        console.warn(`Skipping word list ${file}:`, err.message);
+      }
+    });
+  }
+
+  isEnabled() {
+    return this.policy !== 'off';
+  }
+
+  /**
+   * Words for one language or several (translations are checked against both
+   * languages, since LLMs and the passthrough engine leave source words in).
+   */
+  wordsFor(lang) {
+    const langs = [COMMON_LIST, ...[].concat(lang).filter(l => l !== COMMON_LIST)];
+    return langs.flatMap(l => this.lists[l] || []);
+  }
+
+  /**
+   * Filter for a translation streaming in `lang`, or null when lines can only
+   * be shown once complete (the LLM check needs the whole line).
+   */
+  streamFilter(lang) {
+    if (this.isEnabled() && this.llmCheck) return null;
+    return new StreamFilter(this.isEnabled() ? this.wordsFor(lang) : [], { policy: this.policy, replacement: this.replacement });
+  }
+
+  /**
+   * Word lists only; cheap enough for interim results.
+   * Returns { text, matches } where text is null when the line is dropped.
+   */
+  filter(text, lang) {
+    if (!this.isEnabled()) return { text, matches: [] };
+    return applyWordLists(text, this.wordsFor(lang), { policy: this.policy, replacement: this.replacement });
+  }
+
+  /**
+   * Word lists, then the LLM check (unless `llm` is false) for lines that passed them.
+   * `stage` ('source' or 'translation') and `sessionId` are only used for the log.
+   */
+  async check(text, lang, { stage = 'text', sessionId = null, llm = true } = {}) {
+    const result = this.filter(text, lang);
+    if (result.matches.length > 0) {
+      this.log({ stage, lang, reason: 'word_list', matches: result.matches, dropped: result.text === null, sessionId });
+    }
+    if (!result.text || !this.isEnabled() || !this.llmCheck || !llm) return result;
+
+    let flagged = false;
+    try {
+      flagged = await this.llmCheck(result.text, lang);
+    } catch (err) {
+      // The stream goes on with the word-list result when the LLM is unavailable
+      console.warn('Moderation LLM check failed:', err.message);
+    }
+    if (!flagged) return result;
+
+    const dropped = this.policy === 'drop';
+    this.log({ stage, lang, reason: 'llm', matches: [], dropped, sessionId });
+    return { text: dropped ? null : this.replacement, matches: result.matches };
+  }
+
+  log(event) {
+    const entry = { at: new Date().toISOString(), policy: this.policy, ...event };
+    console.log(`[Moderation] ${entry.stage} (${entry.lang}) ${entry.reason}: ${entry.dropped ? 'dropped' : 'filtered'}${entry.matches.length ? ` [${entry.matches.join(', ')}]` : ''}`);
+    if (!this.logPath) return;
+    try {
+      fs.mkdirSync(path.dirname(this.logPath), { recursive: true });
+      fs.appendFileSync(this.logPath, JSON.stringify(entry) + '\n');
+    } catch (err) {
+      console.error(`Failed to write moderation log ${this.logPath}:`, err.message);
+    }
+  }
+
+  /**
+   * Settings shown to the client. The words themselves never leave the server.
+   */
+  describe() {
+    return {
+      policy: this.policy,
+      lists: this.isEnabled() ? Object.keys(this.lists) : []
+    };
+  }
+}
+
+/**
+ * Builds an llmCheck function that asks an LLM engine (see TranslationEngine.complete).
+ */
+function createLlmCheck(engine) {
+  return async (text) => {
+    const answer = await engine.complete(`${LLM_CHECK_PROMPT}\n\nText: "${text}"\nAnswer:`);
+    return /\bFLAG\b/i.test(answer || '');
+  };
+}
+
+module.exports = {
+  ContentModerator,
+  StreamFilter,
+  applyWordLists,
+  parseWordList,
+  createLlmCheck,
+  MODERATION_POLICIES,
+  COMMON_LIST
+};
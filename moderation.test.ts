@@ -0,0 +1,152 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ContentModerator, StreamFilter, applyWordLists, parseWordList } from './moderation';
+
+describe('word lists', () => {
+    it('should parse words, replacements and comments', () => {
+        expect(parseWordList('# comment\nshit => crap\n\n  cunt  \n=> nothing\n')).toEqual([
+            { word: 'shit', replacement: 'crap' },
+            { word: 'cunt', replacement: null }
+        ]);
+    });
+
+    it('should prefer the longest match', () => {
+        const entries = [{ word: 'shit', replacement: 'crap' }, { word: 'bullshit', replacement: 'nonsense' }];
+        expect(applyWordLists('That is bullshit', entries, { policy: 'replace' })).toEqual({ text: 'That is nonsense', matches: ['bullshit'] });
+    });
+
+    const english = [{ word: 'shit', replacement: 'crap' }, { word: 'ass', replacement: null }];
+
+    it('should mask whole Latin words only', () => {
+        expect(applyWordLists('Oh SHIT, a classic', english, { policy: 'mask' }).text).toBe('Oh ****, a classic');
+        expect(applyWordLists('kick ass', english, { policy: 'mask' }).text).toBe('kick ***');
+    });
+
+    it('should replace Japanese words inside a sentence', () => {
+        expect(applyWordLists('お前死ねよ', [{ word: '死ね', replacement: 'やめて' }], { policy: 'replace' }).text).toBe('お前やめてよ');
+        expect(applyWordLists('kick ass', english, { policy: 'replace', replacement: '(ピー)' }).text).toBe('kick (ピー)');
+    });
+
+    it('should drop the line or leave it alone', () => {
+        expect(applyWordLists('this is shit', english, { policy: 'drop' })).toEqual({ text: null, matches: ['shit'] });
+        expect(applyWordLists('this is shit', english, { policy: 'off' }).text).toBe('this is shit');
+        expect(applyWordLists('this is shit', [], { policy: 'drop' }).text).toBe('this is shit');
+    });
+});
+
+describe('ContentModerator', () => {
+    let tmpDir: string;
+
+    const makeModerator = (options = {}) => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'moderation-'));
+        fs.writeFileSync(path.join(tmpDir, 'English.txt'), 'shit => crap\n');
+        fs.writeFileSync(path.join(tmpDir, 'all.txt'), 'badword\n');
+        return new ContentModerator({ dir: tmpDir, logPath: path.join(tmpDir, 'log.jsonl'), ...options });
+    };
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+        vi.restoreAllMocks();
+    });
+
+    it('should apply per-language and common lists and log matches', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const moderator = makeModerator({ policy: 'mask' });
+
+        expect((await moderator.check('oh shit', 'English', { stage: 'translation' })).text).toBe('oh ****');
+        expect((await moderator.check('oh shit', 'Japanese')).text).toBe('oh shit');
+        expect((await moderator.check('a badword', 'Japanese', { stage: 'source' })).text).toBe('a *******');
+
+        const log = fs.readFileSync(path.join(tmpDir, 'log.jsonl'), 'utf8').trim().split('\n').map(line => JSON.parse(line));
+        expect(log).toHaveLength(2);
+        expect(log[0]).toMatchObject({ stage: 'translation', lang: 'English', reason: 'word_list', matches: ['shit'], dropped: false });
+    });
+
+    it('should drop lines the LLM flags', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const llmCheck = vi.fn(async (text: string) => text.includes('rude'));
+        const moderator = makeModerator({ policy: 'drop', llmCheck });
+
+        expect((await moderator.check('a rude line', 'English')).text).toBe(null);
+        expect((await moderator.check('a nice line', 'English')).text).toBe('a nice line');
+        expect((await moderator.check('a rude line', 'English', { llm: false })).text).toBe('a rude line');
+        expect(llmCheck).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the line when the LLM check fails', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const moderator = makeModerator({ llmCheck: async () => { throw new Error('quota'); } });
+        expect((await moderator.check('a nice line', 'English')).text).toBe('a nice line');
+    });
+
+    it('should describe the lists without their words', () => {
+        expect(makeModerator({ policy: 'replace' }).describe()).toEqual({ policy: 'replace', lists: ['English', 'all'] });
+        expect(makeModerator({ policy: 'off' }).describe()).toEqual({ policy: 'off', lists: [] });
+    });
+});
+
+describe('StreamFilter', () => {
+    // Feeds the chunks one by one and returns what would be streamed for each
+    const stream = (filter: StreamFilter, chunks: string[]) => chunks.map(chunk => filter.push(chunk));
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('should stream with the word lists loaded without showing a listed word', () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const moderator = new ContentModerator({ policy: 'mask', logPath: null });
+        const filter = moderator.streamFilter(['English', 'Japanese']);
+        const chunks = ['What the fu', 'ck is this? I am ', 'fucking tired of waiting ', 'for the train to ', 'arrive at the station today.'];
+        const full = chunks.join('');
+
+        const pieces = stream(filter, chunks);
+        const streamed = pieces.join('');
+
+        // Text reaches the overlay while the translation is still streaming...
+        expect(pieces.filter(Boolean).length).toBeGreaterThan(1);
+        // ...never contains a listed word, and only ever grows into the final filtered line
+        pieces.forEach(piece => expect(piece).not.toMatch(/fu|ck/));
+        expect(moderator.filter(full, ['English', 'Japanese']).text.startsWith(streamed)).toBe(true);
+        expect(streamed).toContain('What the **** is this? I am ******* tired');
+    });
+
+    it('should only mask Latin words that end where the stream has not arrived yet', () => {
+        const filter = new StreamFilter([{ word: 'ass', replacement: null }], { policy: 'mask' });
+
+        expect(stream(filter, ['I will pass', 'ive aggressive ', 'ass ', 'no more words here'])).toEqual(['I will ', 'passive aggress', 'ive ', '*** no more words ']);
+    });
+
+    it('should match words in scripts without spaces across fragments', () => {
+        const filter = new StreamFilter([{ word: '死ね', replacement: 'やめて' }], { policy: 'replace' });
+
+        expect(stream(filter, ['お前なんか死', 'ねと言われた', 'けど気にしない'])).toEqual(['お前な', 'んかやめてと言', 'われたけど気に']);
+    });
+
+    it('should stop streaming a line the drop policy removes', () => {
+        const filter = new StreamFilter([{ word: 'fuck', replacement: null }], { policy: 'drop' });
+
+        expect(stream(filter, ['Good morning everyone, ', 'fuck this ', 'weather, it is raining again'])).toEqual(['Good morning every', '', '']);
+    });
+
+    it('should start over after a reset', () => {
+        const filter = new StreamFilter([{ word: 'shit', replacement: null }], { policy: 'mask' });
+        filter.push('This is a long shit');
+        filter.reset();
+
+        expect(filter.push('Another long sentence')).toBe('Another long sen');
+    });
+
+    it('should pass everything through without word lists or with the policy off', () => {
+        expect(stream(new StreamFilter([], { policy: 'mask' }), ['a', 'b'])).toEqual(['a', 'b']);
+        expect(stream(new StreamFilter([{ word: 'shit', replacement: null }], { policy: 'off' }), ['shit'])).toEqual(['shit']);
+    });
+
+    it('should not stream while the LLM check is on', () => {
+        const moderator = new ContentModerator({ dir: os.tmpdir(), llmCheck: async () => false, logPath: null });
+        expect(moderator.streamFilter('English')).toBeNull();
+        expect(new ContentModerator({ dir: os.tmpdir(), policy: 'off', llmCheck: async () => false, logPath: null }).streamFilter('English')).not.toBeNull();
+    });
+});
@@ -0,0 +1,69 @@
+/**
+ * Overlay Hub
+ * Browser-source overlays subscribe to a controller's session id and receive a
+ * copy of its subtitles plus the controller's display settings.
+ */
+
+const { WebSocket } = require('ws');
+
+// Messages to the controller that overlays mirror
+const OVERLAY_RELAYED_TYPES = new Set(['source', 'interim', 'text_delta', 'text_reset', 'text', 'extra_text', 'moderated', 'turn_complete']);
+
+class OverlayHub {
+  constructor() {
+    this.subscribers = new Map(); // sessionId -> Set<ws>
+    this.settings = new Map(); // sessionId -> latest overlay settings from the controller
+  }
+
+  subscribe(sessionId, ws) {
+    this.unsubscribe(ws);
+    if (!this.subscribers.has(sessionId)) this.subscribers.set(sessionId, new Set());
+    this.subscribers.get(sessionId).add(ws);
+    ws.overlaySessionId = sessionId;
+  }
+
+  unsubscribe(ws) {
+    const sessionId = ws.overlaySessionId;
+    if (!sessionId) return;
+    const subs = this.subscribers.get(sessionId);
+    if (subs) {
+      subs.delete(ws);
+      if (subs.size === 0) this.subscribers.delete(sessionId);
+    }
+    ws.overlaySessionId = null;
+  }
+
+  count(sessionId) {
+    return this.subscribers.get(sessionId)?.size || 0;
+  }
+
+  publish(sessionId, msg) {
+    const subs = this.subscribers.get(sessionId);
+    if (!subs) return;
+    const payload = JSON.stringify(msg);
+    subs.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) client.send(payload);
+    });
+  }
+
+  setSettings(sessionId, settings) {
+    this.settings.set(sessionId, settings);
+    this.publish(sessionId, { type: 'overlay_settings', data: settings });
+  }
+
+  getSettings(sessionId) {
+    return this.settings.get(sessionId) || null;
+  }
+
+  /**
+   * Passes on a message sent to the controller if overlays show it.
+   */
+  relay(sessionId, msg) {
+    if (OVERLAY_RELAYED_TYPES.has(msg.type)) this.publish(sessionId, msg);
+  }
+}
+
+module.exports = {
+  OverlayHub,
+  OVERLAY_RELAYED_TYPES
+};
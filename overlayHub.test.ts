@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OverlayHub } from './overlayHub';
+
+const client = (readyState = 1) => ({ readyState, send: vi.fn() } as any);
+
+const received = (ws: any) => ws.send.mock.calls.map(([payload]: [string]) => JSON.parse(payload));
+
+describe('OverlayHub', () => {
+    it('should publish to the overlays of one session only', () => {
+        const hub = new OverlayHub();
+        const mine = client();
+        const other = client();
+        const closed = client(3);
+        hub.subscribe('s1', mine);
+        hub.subscribe('s1', closed);
+        hub.subscribe('s2', other);
+
+        hub.publish('s1', { type: 'text', content: 'Hello' });
+
+        expect(received(mine)).toEqual([{ type: 'text', content: 'Hello' }]);
+        expect(other.send).not.toHaveBeenCalled();
+        expect(closed.send).not.toHaveBeenCalled();
+        expect(hub.count('s1')).toBe(2);
+    });
+
+    it('should relay subtitles but not the controller\'s own messages', () => {
+        const hub = new OverlayHub();
+        const overlay = client();
+        hub.subscribe('s1', overlay);
+
+        ['source', 'interim', 'text_delta', 'text_reset', 'text', 'extra_text', 'moderated', 'turn_complete', 'rate_limit', 'error', 'tts_audio']
+            .forEach(type => hub.relay('s1', { type }));
+
+        expect(received(overlay).map((msg: any) => msg.type)).toEqual(
+            ['source', 'interim', 'text_delta', 'text_reset', 'text', 'extra_text', 'moderated', 'turn_complete']
+        );
+    });
+
+    it('should move an overlay to a new session and forget empty ones', () => {
+        const hub = new OverlayHub();
+        const overlay = client();
+        hub.subscribe('s1', overlay);
+        hub.subscribe('s2', overlay);
+
+        expect(hub.count('s1')).toBe(0);
+        expect(hub.subscribers.has('s1')).toBe(false);
+        expect(overlay.overlaySessionId).toBe('s2');
+
+        hub.unsubscribe(overlay);
+        expect(hub.count('s2')).toBe(0);
+        expect(overlay.overlaySessionId).toBe(null);
+    });
+
+    it('should keep the latest settings for overlays that subscribe later', () => {
+        const hub = new OverlayHub();
+        const early = client();
+        hub.subscribe('s1', early);
+
+        hub.setSettings('s1', { bgMode: 'green' });
+
+        expect(received(early)).toEqual([{ type: 'overlay_settings', data: { bgMode: 'green' } }]);
+        expect(hub.getSettings('s1')).toEqual({ bgMode: 'green' });
+        expect(hub.getSettings('s2')).toBe(null);
+    });
+});
@@ -1,75 +1,208 @@
 /**
- * Rich Persona Profiles for Natural Translations
- * Each profile includes a personality description, linguistic rules, 
- * and few-shot examples to guide the LLM.
+ * Persona Profiles for Natural Translations
+ * Each persona is a JSON (or YAML) file in the personas directory:
+ * a personality description, linguistic rules, and few-shot examples
+ * to guide the LLM. The file name is the persona id. Optional `voice`
+ * (server speech) and `pitch` / `rate` (browser speech) set how it sounds.
+ *
+ * Files are watched, so a character can be added or tweaked mid-stream
+ * by editing the file or saving it from the control panel.
+ *
+ * YAML files need the optional `yaml` package (npm install yaml).
  */
 
-const PERSONA_PROFILES = {
-  samurai: {
-    name: 'Samurai (侍)',
-    description: "An honorable warrior from the Edo period. Speaks with dignity, humility toward superiors, and authority toward others. Uses archaic Japanese (Sourou-bun style influenced).",
-    rules: [
-      "Use 'Sessha' (拙者) or 'Soregashi' (某) for 'I'.",
-      "Use 'Onushi' (お主) or 'Kiden' (貴殿) for 'You'.",
-      "End sentences with 'de-gozaru' (でござる), 'mousu' (申す), or 'tsukamatsuru' (つかまつる).",
-      "Use archaic verbs (e.g., 'ide-mousu' instead of 'ikimasu').",
-      "Tone should be stoic and resolute."
-    ],
-    examples: [
-      { input: "I'll go to the store.", output: "拙者、これより萬屋へと参るでござる。" },
-      { input: "What is your name?", output: "お主、名を何と申すか？" },
-      { input: "That's a great idea!", output: "実に見事な考えでござる！感服いたした。" }
-    ]
-  },
-  tsundere: {
-    name: 'Tsundere (ツンデレ)',
-    description: "A personality that is initially cold and even hostile but gradually shows a warmer, friendlier side. Often uses harsh language to hide embarrassment or care.",
-    rules: [
-      "Use 'Anta' (あんた) or 'Omae' (お前) for 'You'.",
-      "Use sharp sentence endings like 'wa-yo' (わよ!), 'ja-nai' (じゃない), or 'tte-ba' (ってば!).",
-      "Include phrases of denial or feigned indifference (e.g., 'Betsu-ni', 'Sakkaku-shinaide').",
-      "Mix harshness with a hint of helpfulness or concern.",
-      "Tone should be 'high energy' and slightly defensive."
-    ],
-    examples: [
-      { input: "I'll help you.", output: "あんたが困ってるから、つ、ついでに助けてあげるだけなんだからね！勘違いしないでよ！" },
-      { input: "Thank you.", output: "べ、別にあんたにお礼なんて言われたくないわよ。当然のことをしたまでよ！" },
-      { input: "Do you like this?", output: "これ？べ、別に好きじゃないわよ。ただ、悪くはないって言ってるだけでしょ！" }
-    ]
-  },
-  cat: {
-    name: 'Cat (猫)',
-    description: "A whimsical, playful, and slightly lazy feline. Childlike and focuses on immediate senses and comfort.",
-    rules: [
-      "End almost every sentence with 'nya' (にゃ), 'nyan' (にゃん), or 'meow'.",
-      "Use soft, cute particles like 'da-nyan' (だにゃん).",
-      "Include feline-related metaphors (naps, fish, yarn, scratching).",
-      "Pronouns should be 'Boku' (僕) or 'Ore' (俺) in a cute way.",
-      "Tone should be lighthearted and curious."
-    ],
-    examples: [
-      { input: "It's sunny today.", output: "今日はお日様がポカポカで、お昼寝日和だにゃ〜。" },
-      { input: "I'm hungry.", output: "お腹が空いたにゃ。美味しいお魚が食べたいにゃん！" },
-      { input: "Where are you going?", output: "どこに行くにゃ？僕も一緒に遊んでほしいにゃ！" }
-    ]
-  },
-  butler: {
-    name: 'Butler (執事)',
-    description: "A perfect, refined, and impeccably polite domestic servant. Completely dedicated to the 'Master/Mistress'.",
-    rules: [
-      "Address the listener as 'O-kyaku-sama' (お客様), 'Goshujin-sama' (ご主人様), or 'Ojou-sama' (お嬢様).",
-      "Use extremely formal Keigo (Sonkeigo and Kenjougo).",
-      "End sentences with 'de-gozaimasu' (でございます) or 'itashimasu' (いたします).",
-      "Tone should be calm, poised, and professional.",
-      "Include phrases of service (e.g., 'As you wish', 'If I may')."
-    ],
-    examples: [
-      { input: "I'll drink coffee.", output: "かしこまりました。ただいま香り高い珈琲をご用意いたします、ご主人様。" },
-      { input: "It's cold outside.", output: "外は少々冷え込みますので、羽織るものをお持ちしましょうか、お嬢様？" },
-      { input: "Good morning.", output: "おはようございます、お客様。本日も素晴らしい一日になりますようお仕えいたします。" }
-    ]
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { GEMINI_VOICES } = require('./tts');
+
+const DEFAULT_PERSONA_DIR = path.join(__dirname, 'personas');
+const PERSONA_ID_PATTERN = /^[a-z0-9_-]{1,32}$/;
+const RELOAD_DELAY_MS = 200;
+// Browser speech pitch and rate a persona may set; 1 is the voice's normal delivery
+const SPEECH_STYLE_RANGE = { min: 0.5, max: 2 };
+
+let yaml = null;
+try {
+  yaml = require('yaml');
+} catch {
+  // YAML personas are skipped unless the package is installed
+}
+
+const isYamlFile = (file) => /\.ya?ml$/i.test(file);
+
+/**
+ * Returns a list of problems with a persona id / profile, empty when it is valid.
+ */
+function validatePersona(id, profile) {
+  const errors = [];
+  if (!PERSONA_ID_PATTERN.test(id || '') || id === 'none') {
+    errors.push('IDは英小文字・数字・_・- の32文字以内で指定してください ("none" は使えません)。');
   }
-};
+  if (!profile || typeof profile !== 'object') {
+    return [...errors, 'ペルソナの内容がありません。'];
+  }
+  if (typeof profile.name !== 'string' || !profile.name.trim()) errors.push('名前 (name) は必須です。');
+  if (typeof profile.description !== 'string' || !profile.description.trim()) errors.push('説明 (description) は必須です。');
+  if (!Array.isArray(profile.rules) || profile.rules.some(rule => typeof rule !== 'string')) {
+    errors.push('ルール (rules) は文字列の配列にしてください。');
+  }
+  if (profile.examples !== undefined && (!Array.isArray(profile.examples)
+    || profile.examples.some(ex => !ex || typeof ex.input !== 'string' || typeof ex.output !== 'string'))) {
+    errors.push('例文 (examples) は { input, output } の配列にしてください。');
+  }
+  if (profile.voice !== undefined && (typeof profile.voice !== 'string' || !GEMINI_VOICES.includes(profile.voice))) {
+    errors.push(`声 (voice) は ${GEMINI_VOICES.join(', ')} のいずれかにしてください。`);
+  }
+  ['pitch', 'rate'].forEach(key => {
+    const value = profile[key];
+    if (value !== undefined && (typeof value !== 'number' || value < SPEECH_STYLE_RANGE.min || value > SPEECH_STYLE_RANGE.max)) {
+      errors.push(`${key} は ${SPEECH_STYLE_RANGE.min}〜${SPEECH_STYLE_RANGE.max} の数値にしてください。`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Keeps only the known fields, so stray keys in a file never reach the prompt.
+ */
+const normalizeProfile = (profile) => ({
+  name: profile.name.trim(),
+  label: typeof profile.label === 'string' && profile.label.trim() ? profile.label.trim() : undefined,
+  description: profile.description.trim(),
+  rules: profile.rules.map(rule => rule.trim()).filter(Boolean),
+  examples: (profile.examples || []).filter(ex => ex.input.trim() && ex.output.trim()),
+  voice: profile.voice,
+  pitch: profile.pitch,
+  rate: profile.rate
+});
+
+class PersonaStore {
+  constructor(dir = DEFAULT_PERSONA_DIR, { onChange } = {}) {
+    this.dir = dir;
+    this.onChange = onChange || (() => {});
+    this.personas = new Map(); // id -> { id, ...profile, file, fingerprint }
+    this.watcher = null;
+    this.reloadTimer = null;
+    this.load();
+  }
+
+  load() {
+    let files = [];
+    try {
+      files = fs.readdirSync(this.dir).filter(file => /\.json$/i.test(file) || isYamlFile(file));
+    } catch (err) {
+      if (err.code !== 'ENOENT') {
+        console.error(`Failed to read persona directory ${this.dir}:`, err.message);
+      }
+    }
+
+    const personas = new Map();
+    files.forEach(file => {
+      const id = path.basename(file, path.extname(file));
+      if (personas.has(id)) {
+        console.warn(`Persona "${id}" is defined twice; ignoring ${file}`);
+        return;
+      }
+      if (isYamlFile(file) && !yaml) {
+        console.warn(`Skipping persona ${file}: install the "yaml" package to use YAML personas`);
+        return;
+      }
+      try {
+        const raw = fs.readFileSync(path.join(this.dir, file), 'utf8');
+        const profile = isYamlFile(file) ? yaml.parse(raw) : JSON.parse(raw);
+        const errors = validatePersona(id, profile);
+        if (errors.length > 0) {
+          console.warn(`Skipping persona ${file}: ${errors.join(' ')}`);
+          return;
+        }
+        const clean = normalizeProfile(profile);
+        const fingerprint = crypto.createHash('sha256').update(JSON.stringify(clean)).digest('hex').slice(0, 16);
+        personas.set(id, { id, ...clean, file, fingerprint });
+      } catch (err) {
+        console.warn(`Skipping persona ${file}:`, err.message);
+      }
+    });
+
+    this.personas = personas;
+    return personas;
+  }
+
+  get(id) {
+    return this.personas.get(id) || null;
+  }
+
+  /**
+   * Profiles as sent to the client (without file details).
+   */
+  list() {
+    return [...this.personas.values()].map(({ file, fingerprint, ...profile }) => profile);
+  }
+
+  /**
+   * Writes a persona to disk (keeping YAML personas in YAML) and reloads.
+   * Throws with the validation messages when the profile is invalid.
+   */
+  save(id, profile) {
+    const errors = validatePersona(id, profile);
+    if (errors.length > 0) {
+      throw new Error(errors.join(' '));
+    }
+    const clean = normalizeProfile(profile);
+    const existing = this.get(id);
+    const file = existing ? existing.file : `${id}.json`;
+    const content = isYamlFile(file) ? yaml.stringify(clean) : JSON.stringify(clean, null, 2) + '\n';
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    const tmpPath = path.join(this.dir, `.${file}.tmp`);
+    fs.writeFileSync(tmpPath, content);
+    fs.renameSync(tmpPath, path.join(this.dir, file));
+    this.reload();
+  }
+
+  remove(id) {
+    const existing = this.get(id);
+    if (!existing) return false;
+    fs.unlinkSync(path.join(this.dir, existing.file));
+    this.reload();
+    return true;
+  }
+
+  reload() {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    const before = JSON.stringify(this.list());
+    this.load();
+    if (JSON.stringify(this.list()) !== before) {
+      console.log(`Personas reloaded: ${[...this.personas.keys()].join(', ') || '(none)'}`);
+      this.onChange(this.list());
+    }
+  }
+
+  /**
+   * Reloads shortly after files in the directory change (editors write in several steps).
+   */
+  watch() {
+    if (this.watcher) return;
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      this.watcher = fs.watch(this.dir, () => {
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => this.reload(), RELOAD_DELAY_MS);
+      });
+    } catch (err) {
+      console.warn(`Persona hot reload unavailable for ${this.dir}:`, err.message);
+    }
+  }
+
+  close() {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer);
+    if (this.watcher) this.watcher.close();
+    this.watcher = null;
+  }
+}
 
 const BASE_INSTRUCTION = `
 Translate input text naturally into the target language while strictly adhering to the specified persona.
@@ -79,6 +212,7 @@ Output ONLY the translated text.
 `;
 
 module.exports = {
-  PERSONA_PROFILES,
+  PersonaStore,
+  validatePersona,
   BASE_INSTRUCTION
 };
@@ -0,0 +1,75 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PersonaStore, validatePersona } from './personae';
+
+const pirate = {
+    name: 'Pirate (海賊)',
+    label: '海賊',
+    description: 'A boisterous sea captain.',
+    rules: ["Say 'Arr' often."],
+    examples: [{ input: 'Hello', output: 'Ahoy!' }]
+};
+
+describe('PersonaStore', () => {
+    let tmpDir: string | null = null;
+
+    const makeDir = () => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'personas-'));
+        return tmpDir;
+    };
+
+    afterEach(() => {
+        if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+        tmpDir = null;
+    });
+
+    it('should ship the built-in personas as files', () => {
+        const store = new PersonaStore();
+        expect(store.list().map(p => p.id).sort()).toEqual(['butler', 'cat', 'samurai', 'tsundere']);
+        expect(store.get('samurai')?.rules.length).toBeGreaterThan(0);
+        expect(store.get('samurai')).toMatchObject({ voice: 'Charon', pitch: 0.7, rate: 0.9 });
+    });
+
+    it('should skip invalid files', () => {
+        const dir = makeDir();
+        fs.writeFileSync(path.join(dir, 'pirate.json'), JSON.stringify(pirate));
+        fs.writeFileSync(path.join(dir, 'broken.json'), '{ not json');
+        fs.writeFileSync(path.join(dir, 'nameless.json'), JSON.stringify({ ...pirate, name: '' }));
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const store = new PersonaStore(dir);
+        expect(store.list().map(p => p.id)).toEqual(['pirate']);
+        warn.mockRestore();
+    });
+
+    it('should save, reload and notify listeners', () => {
+        const dir = makeDir();
+        const onChange = vi.fn();
+        const store = new PersonaStore(dir, { onChange });
+
+        store.save('pirate', pirate);
+        expect(JSON.parse(fs.readFileSync(path.join(dir, 'pirate.json'), 'utf8')).name).toBe('Pirate (海賊)');
+        expect(onChange).toHaveBeenCalledTimes(1);
+        expect(onChange.mock.calls[0][0][0]).toMatchObject({ id: 'pirate', label: '海賊' });
+
+        const before = store.get('pirate')?.fingerprint;
+        store.save('pirate', { ...pirate, rules: ["Say 'Yo-ho' often."] });
+        expect(store.get('pirate')?.fingerprint).not.toBe(before);
+
+        expect(store.remove('pirate')).toBe(true);
+        expect(store.list()).toEqual([]);
+        expect(onChange).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject bad ids and profiles', () => {
+        expect(validatePersona('pirate', pirate)).toEqual([]);
+        expect(validatePersona('none', pirate)).toHaveLength(1);
+        expect(validatePersona('../etc', pirate)).toHaveLength(1);
+        expect(validatePersona('pirate', { ...pirate, rules: 'Arr' })).toHaveLength(1);
+        expect(validatePersona('pirate', { ...pirate, voice: 'Puck', pitch: 1.2, rate: 0.8 })).toEqual([]);
+        expect(validatePersona('pirate', { ...pirate, voice: 'Jack Sparrow' })).toHaveLength(1);
+        expect(validatePersona('pirate', { ...pirate, pitch: 5, rate: '1' })).toHaveLength(2);
+    });
+});
@@ -0,0 +1,224 @@
+// Generated from protocol.mjs by `npm run build:protocol` for the server. Do not edit.
+'use strict';
+
+/**
+ * WebSocket Protocol
+ * Every message exchanged between the browser pages (control panel, overlay,
+ * room) and the server, with a runtime schema per message type.
+ *
+ * This file is an ES module so the client can import it directly; the server
+ * loads protocol.cjs, built from it by `npm run build:protocol`. The TypeScript
+ * types are in protocol.d.mts.
+ *
+ * Schemas are plain objects: each key is a field, each value either a type
+ * name ('string', 'number', 'boolean', 'object', 'array', 'string[]', 'any')
+ * or a nested schema. A trailing '?' makes the field optional (null is
+ * accepted too). Fields that are not listed are allowed and passed through.
+ */
+
+// Bump when a message changes shape; the server accepts clients from MIN_PROTOCOL_VERSION up
+// 2: `error` carries `code` and `recoverable`
+// 3: `config_update` / `config_updated`
+// 4: `text_reset`
+// 5: `text_input.raw`
+// 6: `interim.lang`; `interim` and `source` echoed to the sender; `connected.moderation` names lists only
+// 7: `connected.resumeToken` / `config.resumeToken`
+const PROTOCOL_VERSION = 7;
+const MIN_PROTOCOL_VERSION = 1;
+
+const PROTOCOL_ERROR_CODES = {
+  MALFORMED: 'MALFORMED_MESSAGE',
+  UNKNOWN_TYPE: 'UNKNOWN_MESSAGE_TYPE',
+  INVALID: 'INVALID_MESSAGE',
+  VERSION: 'UNSUPPORTED_PROTOCOL_VERSION'
+};
+
+// Why a request failed, as sent in `error.code` (alongside the protocol codes above)
+const ERROR_CODES = {
+  ENGINE_UNREACHABLE: 'ENGINE_UNREACHABLE',
+  AUTH: 'AUTH',
+  QUOTA: 'QUOTA',
+  BAD_INPUT: 'BAD_INPUT',
+  INTERNAL: 'INTERNAL'
+};
+
+// Messages sent by the browser
+const CLIENT_MESSAGES = {
+  config: {
+    data: {
+      sourceLang: 'string?',
+      targetLang: 'string?',
+      persona: 'string?',
+      sessionId: 'string?',
+      resume: 'boolean?',
+      // From `connected`; needed to take up a session id the server already knows
+      resumeToken: 'string?',
+      // Missing on clients older than the handshake, which speak version 1
+      protocolVersion: 'number?'
+    }
+  },
+  config_update: { data: { sourceLang: 'string?', targetLang: 'string?', persona: 'string?' } },
+  text_input: {
+    data: {
+      id: 'string?',
+      text: 'string',
+      sourceLang: 'string',
+      targetLang: 'string',
+      persona: 'string?',
+      extraTargetLangs: 'string[]?',
+      speaker: 'string?',
+      // Raw mode: show the recognized line itself instead of a translation
+      raw: 'boolean?'
+    }
+  },
+  interim: { data: { text: 'string', lang: 'string?' } },
+  rate_status: {},
+  cache_stats: {},
+  engine_status: {},
+  audio: { data: { data: 'string', mimeType: 'string?' } },
+  stt_start: { data: { lang: 'string?' } },
+  stt_stop: {},
+  tts: { data: { id: 'string', text: 'string', lang: 'string?', persona: 'string?', voice: 'string?' } },
+  glossary_update: {
+    data: { sourceLang: 'string?', targetLang: 'string?', entries: 'array?', doNotTranslate: 'string[]?' }
+  },
+  persona_save: { data: { id: 'string', profile: 'object' } },
+  persona_delete: { data: { id: 'string' } },
+  persona_preview: {
+    data: { id: 'string?', profile: 'object', text: 'string', sourceLang: 'string', targetLang: 'string' }
+  },
+  overlay_settings: { data: 'object' },
+  subscribe: { data: { sessionId: 'string' } },
+  join_room: { data: { room: 'string', role: 'string?', targetLang: 'string?' } },
+  leave_room: {}
+};
+
+// Messages sent by the server
+const SERVER_MESSAGES = {
+  // protocolVersion is missing from servers older than the handshake
+  connected: { data: { sessionId: 'string', resumed: 'boolean', protocolVersion: 'number?', resumeToken: 'string?' } },
+  config_updated: { data: { historyCleared: 'boolean' } },
+  text_delta: { content: 'string', engine: 'string?', requestId: 'string?' },
+  // The streamed text so far is void: a retry or fallback starts the translation over
+  text_reset: { requestId: 'string?' },
+  text: { content: 'string', engine: 'string?', requestId: 'string?', speaker: 'string?' },
+  extra_text: { content: 'string', engine: 'string?', targetLang: 'string', requestId: 'string?' },
+  turn_complete: { requestId: 'string?' },
+  moderated: { requestId: 'string?', targetLang: 'string?' },
+  rate_limit: { data: 'object' },
+  rate_status: { data: 'object' },
+  cache_stats: { data: 'object' },
+  engine_status: { data: 'array' },
+  // recoverable: false means the server gave up on the session, true only the current request
+  error: { message: 'string', code: 'string', recoverable: 'boolean' },
+  stt_interim: { text: 'string' },
+  stt_final: { text: 'string' },
+  stt_error: { message: 'string' },
+  tts_audio: { id: 'string', data: 'string', sampleRate: 'number' },
+  tts_error: { id: 'string?', message: 'string' },
+  glossary: { data: 'object' },
+  personas: { data: 'array' },
+  persona_saved: { id: 'string' },
+  persona_preview: { content: 'string', engine: 'string' },
+  persona_error: { message: 'string' },
+  // Overlay pages
+  subscribed: { data: { sessionId: 'string', settings: 'object?' } },
+  overlay_settings: { data: 'object' },
+  interim: { data: { text: 'string' } },
+  source: { data: { id: 'string?', text: 'string', sourceLang: 'string', targetLang: 'string' } },
+  // Room pages
+  room_joined: { data: { room: 'string', role: 'string', targetLang: 'string?' } },
+  room_status: { data: 'object' },
+  room_source: { data: { room: 'string', id: 'string?', text: 'string', sourceLang: 'string' } },
+  room_text: { data: { room: 'string', id: 'string?', sourceText: 'string', sourceLang: 'string', targetLang: 'string', content: 'string' } }
+};
+
+const describeValue = (value) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+const matchesType = (value, type) => {
+  switch (type) {
+    case 'any': return true;
+    case 'array': return Array.isArray(value);
+    case 'string[]': return Array.isArray(value) && value.every(item => typeof item === 'string');
+    case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+    default: return typeof value === type;
+  }
+};
+
+/**
+ * Checks `value` against a schema. Returns a description of the first problem, or null.
+ */
+function checkSchema(value, schema, path) {
+  if (typeof schema === 'string') {
+    const optional = schema.endsWith('?');
+    const type = optional ? schema.slice(0, -1) : schema;
+    if (value === undefined || value === null) {
+      return optional ? null : `${path} is required`;
+    }
+    return matchesType(value, type) ? null : `${path} must be ${type === 'string[]' ? 'a list of strings' : `a ${type}`} (got ${describeValue(value)})`;
+  }
+
+  if (!matchesType(value, 'object')) {
+    return `${path} must be an object (got ${describeValue(value)})`;
+  }
+  for (const [key, fieldSchema] of Object.entries(schema)) {
+    const problem = checkSchema(value[key], fieldSchema, path ? `${path}.${key}` : key);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+/**
+ * Validates a decoded message sent by `sender` ('client' or 'server').
+ * Returns { ok: true, message } or { ok: false, error: { code, detail, type } }.
+ */
+function validateMessage(message, sender) {
+  const schemas = sender === 'server' ? SERVER_MESSAGES : CLIENT_MESSAGES;
+  if (!matchesType(message, 'object') || typeof message.type !== 'string') {
+    return { ok: false, error: { code: PROTOCOL_ERROR_CODES.MALFORMED, detail: 'message must be an object with a "type"', type: null } };
+  }
+  if (!Object.prototype.hasOwnProperty.call(schemas, message.type)) {
+    return { ok: false, error: { code: PROTOCOL_ERROR_CODES.UNKNOWN_TYPE, detail: `unknown message type "${message.type}"`, type: message.type } };
+  }
+  const problem = checkSchema(message, schemas[message.type], '');
+  if (problem) {
+    return { ok: false, error: { code: PROTOCOL_ERROR_CODES.INVALID, detail: `${message.type}: ${problem}`, type: message.type } };
+  }
+  return { ok: true, message };
+}
+
+/**
+ * JSON.parse + validateMessage for a raw WebSocket frame.
+ */
+function parseMessage(raw, sender) {
+  let message;
+  try {
+    message = JSON.parse(typeof raw === 'string' ? raw : raw.toString());
+  } catch (err) {
+    return { ok: false, error: { code: PROTOCOL_ERROR_CODES.MALFORMED, detail: `invalid JSON (${err.message})`, type: null } };
+  }
+  return validateMessage(message, sender);
+}
+
+const encodeMessage = (message) => JSON.stringify(message);
+
+/**
+ * Whether the server can talk to a client announcing `version` (undefined = before the handshake existed).
+ */
+const isSupportedVersion = (version) => {
+  const effective = version ?? MIN_PROTOCOL_VERSION;
+  return Number.isInteger(effective) && effective >= MIN_PROTOCOL_VERSION && effective <= PROTOCOL_VERSION;
+};
+
+module.exports = {
+  PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_ERROR_CODES,
+  ERROR_CODES,
+  CLIENT_MESSAGES,
+  SERVER_MESSAGES,
+  validateMessage,
+  parseMessage,
+  encodeMessage,
+  isSupportedVersion
+};
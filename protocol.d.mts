@@ -0,0 +1,227 @@
+// Types for protocol.mjs: one interface per WebSocket message, grouped by sender.
+import type {
+  CacheStats,
+  Glossary,
+  GlossaryEntry,
+  KeyHealth,
+  ModerationSettings,
+  OverlaySettings,
+  PersonaProfile,
+  QuotaStatus,
+  RoomStatus,
+  Speaker
+} from './types';
+
+export const PROTOCOL_VERSION: number;
+export const MIN_PROTOCOL_VERSION: number;
+
+export const PROTOCOL_ERROR_CODES: {
+  MALFORMED: 'MALFORMED_MESSAGE';
+  UNKNOWN_TYPE: 'UNKNOWN_MESSAGE_TYPE';
+  INVALID: 'INVALID_MESSAGE';
+  VERSION: 'UNSUPPORTED_PROTOCOL_VERSION';
+};
+
+export type ProtocolErrorCode = typeof PROTOCOL_ERROR_CODES[keyof typeof PROTOCOL_ERROR_CODES];
+
+export const ERROR_CODES: {
+  ENGINE_UNREACHABLE: 'ENGINE_UNREACHABLE';
+  AUTH: 'AUTH';
+  QUOTA: 'QUOTA';
+  BAD_INPUT: 'BAD_INPUT';
+  INTERNAL: 'INTERNAL';
+};
+
+export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
+
+type Schema = { [field: string]: string | Schema };
+export const CLIENT_MESSAGES: Record<ClientMessage['type'], Schema>;
+export const SERVER_MESSAGES: Record<ServerMessage['type'], Schema>;
+
+// --- Client → server ---
+
+export interface ConfigMessage {
+  type: 'config';
+  data: {
+    sourceLang?: string;
+    targetLang?: string;
+    persona?: string;
+    sessionId?: string | null;
+    resume?: boolean;
+    resumeToken?: string | null;
+    protocolVersion?: number;
+  };
+}
+
+export interface ConfigUpdateMessage {
+  type: 'config_update';
+  data: { sourceLang?: string; targetLang?: string; persona?: string };
+}
+
+export interface TextInputMessage {
+  type: 'text_input';
+  data: {
+    id?: string;
+    text: string;
+    sourceLang: string;
+    targetLang: string;
+    persona?: string;
+    extraTargetLangs?: string[];
+    speaker?: Speaker;
+    // Raw mode: the server shows the (moderated) line itself instead of translating it
+    raw?: boolean;
+  };
+}
+
+export type ClientMessage =
+  | ConfigMessage
+  | ConfigUpdateMessage
+  | TextInputMessage
+  | { type: 'interim'; data: { text: string; lang?: string } }
+  | { type: 'rate_status' }
+  | { type: 'cache_stats' }
+  | { type: 'engine_status' }
+  | { type: 'audio'; data: { data: string; mimeType?: string } }
+  | { type: 'stt_start'; data: { lang?: string } }
+  | { type: 'stt_stop' }
+  | { type: 'tts'; data: { id: string; text: string; lang?: string; persona?: string; voice?: string } }
+  | { type: 'glossary_update'; data: { sourceLang?: string; targetLang?: string; entries?: GlossaryEntry[]; doNotTranslate?: string[] } }
+  | { type: 'persona_save'; data: { id: string; profile: Omit<PersonaProfile, 'id'> } }
+  | { type: 'persona_delete'; data: { id: string } }
+  | { type: 'persona_preview'; data: { id?: string; profile: Omit<PersonaProfile, 'id'>; text: string; sourceLang: string; targetLang: string } }
+  | { type: 'overlay_settings'; data: OverlaySettings }
+  | { type: 'subscribe'; data: { sessionId: string } }
+  | { type: 'join_room'; data: { room: string; role?: 'speaker' | 'viewer'; targetLang?: string | null } }
+  | { type: 'leave_room' };
+
+// --- Server → client ---
+
+export interface ConnectedMessage {
+  type: 'connected';
+  data: {
+    sessionId: string;
+    resumed: boolean;
+    protocolVersion?: number;
+    resumeToken?: string;
+    hasLocalAI?: boolean;
+    ollamaModel?: string;
+    isRemoteOllama?: boolean;
+    hasGemini?: boolean;
+    hasDeepL?: boolean;
+    mockMode?: boolean;
+    engines?: unknown[];
+    stt?: { id: string; label: string; configured: boolean } | null;
+    tts?: { id: string; label: string; configured: boolean; voices: string[] } | null;
+    glossary?: Glossary;
+    personas?: PersonaProfile[];
+    moderation?: ModerationSettings;
+    cache?: CacheStats;
+    rateLimits?: { rpm: number; rpd: number; keyCount: number; effectiveRpm: number; effectiveRpd: number };
+  };
+}
+
+export interface TextMessage {
+  type: 'text';
+  content: string;
+  engine?: string;
+  requestId?: string;
+  speaker?: Speaker;
+}
+
+export interface TextDeltaMessage {
+  type: 'text_delta';
+  content: string;
+  engine?: string;
+  requestId?: string;
+}
+
+export interface RateStatusData extends Omit<QuotaStatus, 'limited' | 'limitedUntil'> {
+  allowed: boolean;
+  waitTime: number;
+  keys?: KeyHealth[];
+}
+
+export interface ErrorMessage {
+  type: 'error';
+  // Localized, ready to show to the user
+  message: string;
+  code: ErrorCode | ProtocolErrorCode;
+  recoverable: boolean;
+}
+
+export interface SourceData {
+  id?: string;
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  persona?: string;
+  extraTargetLangs?: string[];
+  speaker?: Speaker;
+}
+
+export interface RoomTextData {
+  room: string;
+  id?: string;
+  sourceText: string;
+  sourceLang: string;
+  targetLang: string;
+  content: string;
+  engine?: string;
+  speaker?: Speaker;
+}
+
+export type ServerMessage =
+  | ConnectedMessage
+  | { type: 'config_updated'; data: { sourceLang?: string; targetLang?: string; persona?: string; historyCleared: boolean } }
+  | TextDeltaMessage
+  | { type: 'text_reset'; requestId?: string }
+  | TextMessage
+  | { type: 'extra_text'; content: string; engine?: string; targetLang: string; requestId?: string }
+  | { type: 'turn_complete'; requestId?: string }
+  | { type: 'moderated'; requestId?: string; targetLang?: string }
+  | { type: 'rate_limit'; data: Partial<QuotaStatus> & { waitTime?: number } }
+  | { type: 'rate_status'; data: RateStatusData }
+  | { type: 'cache_stats'; data: CacheStats }
+  | { type: 'engine_status'; data: unknown[] }
+  | ErrorMessage
+  | { type: 'stt_interim'; text: string }
+  | { type: 'stt_final'; text: string }
+  | { type: 'stt_error'; message: string }
+  | { type: 'tts_audio'; id: string; data: string; sampleRate: number }
+  | { type: 'tts_error'; id?: string; message: string }
+  | { type: 'glossary'; data: Glossary }
+  | { type: 'personas'; data: PersonaProfile[] }
+  | { type: 'persona_saved'; id: string }
+  | { type: 'persona_preview'; content: string; engine: string }
+  | { type: 'persona_error'; message: string }
+  | { type: 'subscribed'; data: { sessionId: string; settings?: OverlaySettings | null } }
+  | { type: 'overlay_settings'; data: OverlaySettings }
+  | { type: 'interim'; data: { text: string } }
+  | { type: 'source'; data: SourceData }
+  | { type: 'room_joined'; data: { room: string; role: 'speaker' | 'viewer'; targetLang: string | null } }
+  | { type: 'room_status'; data: RoomStatus }
+  | { type: 'room_source'; data: { room: string; id?: string; text: string; sourceLang: string; speaker?: Speaker } }
+  | { type: 'room_text'; data: RoomTextData };
+
+// --- Validation ---
+
+export interface ProtocolError {
+  code: ProtocolErrorCode;
+  detail: string;
+  // The message type, when the frame got far enough to have one
+  type: string | null;
+}
+
+export type ParseResult<T> =
+  | { ok: true; message: T; error?: undefined }
+  | { ok: false; message?: undefined; error: ProtocolError };
+
+export function validateMessage(message: unknown, sender: 'client'): ParseResult<ClientMessage>;
+export function validateMessage(message: unknown, sender: 'server'): ParseResult<ServerMessage>;
+
+export function parseMessage(raw: string, sender: 'client'): ParseResult<ClientMessage>;
+export function parseMessage(raw: string, sender: 'server'): ParseResult<ServerMessage>;
+
+export function encodeMessage(message: ClientMessage | ServerMessage): string;
+
+export function isSupportedVersion(version: number | undefined): boolean;
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import { buildProtocolCjs, SOURCE_PATH, OUTPUT_PATH } from './buildProtocol';
+import { PROTOCOL_ERROR_CODES, PROTOCOL_VERSION, isSupportedVersion, parseMessage, validateMessage } from './protocol.mjs';
+
+describe('protocol', () => {
+    it('should accept well-formed messages and pass unknown fields through', () => {
+        const result = parseMessage(JSON.stringify({
+            type: 'text_input',
+            data: { text: 'hello', sourceLang: 'English', targetLang: 'Japanese', extraTargetLangs: ['French'], extra: 1 }
+        }), 'client');
+        expect(result.ok).toBe(true);
+        expect(result.message).toMatchObject({ type: 'text_input', data: { text: 'hello', extra: 1 } });
+        expect(validateMessage({ type: 'rate_status' }, 'client').ok).toBe(true);
+        expect(validateMessage({ type: 'config', data: { sessionId: null } }, 'client').ok).toBe(true);
+    });
+
+    it('should reject malformed frames, unknown types and bad fields with a code', () => {
+        expect(parseMessage('{oops', 'client').error?.code).toBe(PROTOCOL_ERROR_CODES.MALFORMED);
+        expect(parseMessage('[1, 2]', 'client').error?.code).toBe(PROTOCOL_ERROR_CODES.MALFORMED);
+        expect(validateMessage({ type: 'launch_rockets' }, 'client').error).toMatchObject({
+            code: PROTOCOL_ERROR_CODES.UNKNOWN_TYPE,
+            type: 'launch_rockets'
+        });
+        // Server-only messages are unknown when a client sends them
+        expect(validateMessage({ type: 'text', content: 'hi' }, 'client').error?.code).toBe(PROTOCOL_ERROR_CODES.UNKNOWN_TYPE);
+
+        const missing = validateMessage({ type: 'text_input', data: { sourceLang: 'English', targetLang: 'Japanese' } }, 'client');
+        expect(missing.error).toMatchObject({ code: PROTOCOL_ERROR_CODES.INVALID, detail: 'text_input: data.text is required' });
+        const wrongType = validateMessage({ type: 'text_input', data: { text: 'hi', sourceLang: 'English', targetLang: 'Japanese', extraTargetLangs: [1] } }, 'client');
+        expect(wrongType.error?.detail).toBe('text_input: data.extraTargetLangs must be a list of strings (got array)');
+        expect(validateMessage({ type: 'subscribe', data: 'abc' }, 'client').error?.detail).toBe('subscribe: data must be an object (got string)');
+    });
+
+    it('should validate server messages', () => {
+        expect(validateMessage({ type: 'connected', data: { sessionId: 's', resumed: false, protocolVersion: PROTOCOL_VERSION } }, 'server').ok).toBe(true);
+        expect(validateMessage({ type: 'text', content: 42 }, 'server').error?.detail).toBe('text: content must be a string (got number)');
+        expect(validateMessage({ type: 'error', message: 'oops' }, 'server').error?.detail).toBe('error: code is required');
+    });
+
+    it('should accept clients from the minimum version up to the current one', () => {
+        expect(isSupportedVersion(PROTOCOL_VERSION)).toBe(true);
+        expect(isSupportedVersion(undefined)).toBe(true);
+        expect(isSupportedVersion(PROTOCOL_VERSION + 1)).toBe(false);
+        expect(isSupportedVersion(0)).toBe(false);
+    });
+
+    it('should ship a CommonJS build that matches protocol.mjs', () => {
+        // Out of date: run `npm run build:protocol`
+        expect(fs.readFileSync(OUTPUT_PATH, 'utf8')).toBe(buildProtocolCjs(fs.readFileSync(SOURCE_PATH, 'utf8')));
+        expect(() => buildProtocolCjs("import fs from 'fs';\nexport const A = 1;")).toThrow();
+    });
+});
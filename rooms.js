@@ -0,0 +1,119 @@
+/**
+ * Broadcast Rooms
+ * A speaker connection publishes transcripts to a named room; any number of
+ * viewer connections receive them, each in its own target language.
+ */
+
+const { WebSocket } = require('ws');
+
+const ROOM_NAME_PATTERN = /^[\w-]{1,64}$/;
+const ROOM_ROLES = ['speaker', 'viewer'];
+// Languages a viewer may read (the ones the engines translate into)
+const ROOM_LANGUAGES = ['Japanese', 'English', 'Spanish', 'Chinese', 'Korean', 'French', 'German'];
+// Each language viewers pick costs a translation per line
+const MAX_ROOM_LANGUAGES = 4;
+
+const isValidRoomName = (name) => typeof name === 'string' && ROOM_NAME_PATTERN.test(name);
+
+class RoomManager {
+  constructor() {
+    // name -> { owner: sessionId of the first speaker, speakers: Set<ws>, viewers: Map<ws, { targetLang }> }
+    this.rooms = new Map();
+  }
+
+  /**
+   * Returns why `ws` may not join the room as asked, or null when it may.
+   * Only the session that first spoke in a room may speak in it again (sessions
+   * are held by their resume token), so a viewer cannot take the microphone.
+   */
+  checkJoin(name, ws, { role = 'viewer', targetLang = null } = {}) {
+    const room = this.rooms.get(name);
+    if (role === 'speaker') {
+      return room?.owner && room.owner !== ws.sessionId ? 'このルームには話者として参加できません。' : null;
+    }
+    if (!targetLang) return null;
+    if (!ROOM_LANGUAGES.includes(targetLang)) return `対応していない言語です: ${targetLang}`;
+    const languages = new Set();
+    room?.viewers.forEach((viewer, client) => {
+      if (client !== ws && viewer.targetLang) languages.add(viewer.targetLang);
+    });
+    if (!languages.has(targetLang) && languages.size >= MAX_ROOM_LANGUAGES) {
+      return `このルームで選べる言語は${MAX_ROOM_LANGUAGES}つまでです。`;
+    }
+    return null;
+  }
+
+  join(name, ws, { role = 'viewer', targetLang = null } = {}) {
+    this.leave(ws);
+    if (!this.rooms.has(name)) {
+      this.rooms.set(name, { owner: null, speakers: new Set(), viewers: new Map() });
+    }
+    const room = this.rooms.get(name);
+    if (role === 'speaker') {
+      room.owner = room.owner || ws.sessionId;
+      room.speakers.add(ws);
+    } else {
+      room.viewers.set(ws, { targetLang: targetLang || null });
+    }
+    ws.roomName = name;
+    ws.roomRole = role;
+  }
+
+  leave(ws) {
+    const name = ws.roomName;
+    if (!name) return null;
+    const room = this.rooms.get(name);
+    if (room) {
+      room.speakers.delete(ws);
+      room.viewers.delete(ws);
+      if (room.speakers.size === 0 && room.viewers.size === 0) this.rooms.delete(name);
+    }
+    ws.roomName = null;
+    ws.roomRole = null;
+    return name;
+  }
+
+  /**
+   * Groups viewers by the language they read. Viewers that did not pick one
+   * follow the speaker's target language.
+   */
+  viewersByLanguage(name, defaultLang) {
+    const groups = new Map(); // lang -> ws[]
+    const room = this.rooms.get(name);
+    if (!room) return groups;
+    room.viewers.forEach(({ targetLang }, ws) => {
+      const lang = targetLang || defaultLang;
+      if (!groups.has(lang)) groups.set(lang, []);
+      groups.get(lang).push(ws);
+    });
+    return groups;
+  }
+
+  send(clients, msg) {
+    const payload = JSON.stringify(msg);
+    clients.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) client.send(payload);
+    });
+  }
+
+  broadcast(name, msg) {
+    const room = this.rooms.get(name);
+    if (!room) return;
+    this.send([...room.speakers, ...room.viewers.keys()], msg);
+  }
+
+  describe(name) {
+    const room = this.rooms.get(name);
+    if (!room) return { room: name, speakers: 0, viewers: 0, languages: [] };
+    const languages = [...new Set([...room.viewers.values()].map(v => v.targetLang).filter(Boolean))];
+    return { room: name, speakers: room.speakers.size, viewers: room.viewers.size, languages };
+  }
+}
+
+module.exports = {
+  RoomManager,
+  ROOM_ROLES,
+  ROOM_LANGUAGES,
+  MAX_ROOM_LANGUAGES,
+  isValidRoomName
+};
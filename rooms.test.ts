@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RoomManager, isValidRoomName } from './rooms';
+
+const client = () => ({ readyState: 1, send: vi.fn() } as any);
+
+describe('RoomManager', () => {
+    it('should validate room names', () => {
+        expect(isValidRoomName('conf-2024_main')).toBe(true);
+        expect(isValidRoomName('')).toBe(false);
+        expect(isValidRoomName('../etc')).toBe(false);
+        expect(isValidRoomName(42)).toBe(false);
+    });
+
+    it('should group viewers by language, defaulting to the speaker language', () => {
+        const rooms = new RoomManager();
+        const speaker = client();
+        const en = client();
+        const ko = client();
+        const auto = client();
+
+        rooms.join('talk', speaker, { role: 'speaker' });
+        rooms.join('talk', en, { targetLang: 'English' });
+        rooms.join('talk', ko, { targetLang: 'Korean' });
+        rooms.join('talk', auto);
+
+        const groups = rooms.viewersByLanguage('talk', 'English');
+        expect([...groups.keys()].sort()).toEqual(['English', 'Korean']);
+        expect(groups.get('English')).toEqual([en, auto]);
+        expect(rooms.describe('talk')).toEqual({ room: 'talk', speakers: 1, viewers: 3, languages: ['English', 'Korean'] });
+    });
+
+    it('should only let the room\'s first speaking session speak', () => {
+        const rooms = new RoomManager();
+        const speaker = { ...client(), sessionId: 's1' };
+        const stranger = { ...client(), sessionId: 's2' };
+        const reconnected = { ...client(), sessionId: 's1' };
+
+        expect(rooms.checkJoin('talk', speaker, { role: 'speaker' })).toBe(null);
+        rooms.join('talk', speaker, { role: 'speaker' });
+
+        expect(rooms.checkJoin('talk', stranger, { role: 'speaker' })).not.toBe(null);
+        expect(rooms.checkJoin('talk', stranger, { role: 'viewer' })).toBe(null);
+        expect(rooms.checkJoin('talk', reconnected, { role: 'speaker' })).toBe(null);
+    });
+
+    it('should refuse unknown languages and too many languages per room', () => {
+        const rooms = new RoomManager();
+        expect(rooms.checkJoin('talk', client(), { targetLang: 'Klingon' })).not.toBe(null);
+
+        ['English', 'Korean', 'French', 'German'].forEach(targetLang => rooms.join('talk', client(), { targetLang }));
+        expect(rooms.checkJoin('talk', client(), { targetLang: 'Spanish' })).not.toBe(null);
+        // Languages already read in the room and the speaker's own language stay open
+        expect(rooms.checkJoin('talk', client(), { targetLang: 'Korean' })).toBe(null);
+        expect(rooms.checkJoin('talk', client())).toBe(null);
+    });
+
+    it('should broadcast to open members and drop empty rooms', () => {
+        const rooms = new RoomManager();
+        const speaker = client();
+        const viewer = client();
+        const closed = { ...client(), readyState: 3 };
+
+        rooms.join('talk', speaker, { role: 'speaker' });
+        rooms.join('talk', viewer);
+        rooms.join('talk', closed);
+        rooms.broadcast('talk', { type: 'room_source' });
+
+        expect(speaker.send).toHaveBeenCalledTimes(1);
+        expect(viewer.send).toHaveBeenCalledWith(JSON.stringify({ type: 'room_source' }));
+        expect(closed.send).not.toHaveBeenCalled();
+
+        [speaker, viewer, closed].forEach(ws => rooms.leave(ws));
+        expect(rooms.rooms.size).toBe(0);
+        expect(speaker.roomName).toBe(null);
+    });
+});
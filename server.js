@@ -5,10 +5,33 @@
  * 3. Run: npm start
  */
 
-const { WebSocketServer } = require('ws');
-const { GoogleGenAI } = require('@google/genai');
+const { randomUUID } = require('crypto');
+const { WebSocketServer, WebSocket } = require('ws');
 const deepl = require('deepl-node');
-const { PERSONA_PROFILES, BASE_INSTRUCTION } = require('./personae');
+const {
+  OllamaEngine,
+  DeepLEngine,
+  GeminiEngine,
+  MockEngine,
+  PassthroughEngine,
+  EngineRouter,
+  EngineError,
+  parseEngineList,
+  parseRouteOverrides
+} = require('./engines');
+const { UsageStore, DEFAULT_STORE_PATH } = require('./usageStore');
+const { KeyPool } = require('./keyPool');
+const { TranslationCache } = require('./translationCache');
+const { RoomManager, ROOM_ROLES, isValidRoomName } = require('./rooms');
+const { createSttAdapter, decodePcmFrame } = require('./stt');
+const { createTtsAdapter } = require('./tts');
+const { GlossaryStore, enforceGlossary } = require('./glossary');
+const { PersonaStore, validatePersona } = require('./personae');
+const { ContentModerator, createLlmCheck } = require('./moderation');
+const { SessionManager } = require('./sessions');
+const { OverlayHub } = require('./overlayHub');
+// The CommonJS build of protocol.mjs, which the client shares
+const { PROTOCOL_VERSION, MIN_PROTOCOL_VERSION, PROTOCOL_ERROR_CODES, ERROR_CODES, parseMessage, isSupportedVersion } = require('./protocol.cjs');
 require('dotenv').config();
 
 const port = process.env.PORT || 3001;
@@ -33,43 +56,16 @@ const parseApiKeys = () => {
 
 const ENABLE_MOCK = process.env.ENABLE_MOCK === 'true';
 const ENABLE_LOCAL_AI = process.env.ENABLE_LOCAL_AI === 'true';
+const ENABLE_STREAMING = process.env.ENABLE_STREAMING !== 'false';
 const OLLAMA_MODEL = process.env.OLLAMA_MODEL || 'phi';
 const OLLAMA_URL = process.env.OLLAMA_URL || 'http://localhost:11434/api/generate';
 
 const GEMINI_RPM = parseInt(process.env.GEMINI_RPM || '5', 10);
 const GEMINI_RPD = parseInt(process.env.GEMINI_RPD || '20', 10);
 
-const geminiKeys = parseApiKeys();
+const SESSION_RESUME_TTL_MS = parseInt(process.env.SESSION_RESUME_TTL_MS || '120000', 10);
 
-/**
- * Helper to fetch with retry for transient network errors (common in tunnel setups)
- */
-async function fetchWithRetry(url, options, maxRetries = 3, delay = 1000) {
-  let lastError;
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      const response = await fetch(url, options);
-      if (response.ok) return response;
-      
-      // Don't retry for 4xx errors (except 429/408)
-      if (response.status >= 400 && response.status < 500 && ![408, 429].includes(response.status)) {
-        throw new Error(`HTTP Error ${response.status}: ${response.statusText}`);
-      }
-      
-      lastError = new Error(`HTTP Error ${response.status}: ${response.statusText}`);
-    } catch (err) {
-      lastError = err;
-      // Don't retry for certain fatal errors if needed, but for now we retry most
-    }
-    
-    if (i < maxRetries - 1) {
-      const wait = delay * Math.pow(2, i); // Exponential backoff
-      console.log(`[Retry] Attempt ${i + 1} failed. Retrying in ${wait}ms... (${lastError.message})`);
-      await new Promise(res => setTimeout(res, wait));
-    }
-  }
-  throw lastError;
-}
+const geminiKeys = parseApiKeys();
 
 console.log(`Translation Server (Web Speech API + Gemini) running on port ${port}`);
 
@@ -91,203 +87,172 @@ if (!process.env.DEEPL_API_KEY) {
   console.error("WARNING: DEEPL_API_KEY is missing. Standard translations will fail.");
 }
 
-const deeplLangMap = {
-  'Japanese': 'ja',
-  'English': 'en-US',
-  'Spanish': 'es',
-  'Chinese': 'zh',
-  'Korean': 'ko',
-  'French': 'fr',
-  'German': 'de'
-};
-
-const mockPersonaStyles = {
-  'samurai': (text) => {
-    const endings = ['でござる', 'である', 'じゃ'];
-    const ending = endings[Math.floor(Math.random() * endings.length)];
-    return text.replace(/です/g, ending).replace(/ます/g, 'まする') + '...某もそう思うでござる。';
-  },
-  'tsundere': (text) => {
-    const prefixes = ['べ、別に...', 'あんたのために翻訳したわけじゃないんだから！', 'ちゅ、ちゅういしてあげるわよ... '];
-    const prefix = prefixes[Math.floor(Math.random() * prefixes.length)];
-    return prefix + text;
-  },
-  'cat': (text) => {
-    const catEndings = ['にゃ', 'にゃん', 'ニャ'];
-    const ending = catEndings[Math.floor(Math.random() * catEndings.length)];
-    return text + ending + '🐱';
-  },
-  'butler': (text) => {
-    return 'お客様、' + text.replace(/です/g, 'でございます').replace(/ます/g, 'ます') + '...何かご用命があればお申し付けくださいませ。';
-  }
-};
-
-function mockTranslate(text, sourceLang, targetLang, persona) {
-  let result = text;
-  if (persona && persona !== 'none' && mockPersonaStyles[persona]) {
-    result = mockPersonaStyles[persona](text);
-  }
-  return `[MOCK] ${result}`;
-}
-
-class RateLimiter {
-  constructor(rpm, rpd) {
-    this.rpm = rpm;
-    this.rpd = rpd;
-    this.minuteRequests = [];
-    this.dayRequests = [];
-  }
-
-  check() {
-    const now = Date.now();
-    this.minuteRequests = this.minuteRequests.filter(t => now - t < 60000);
-    this.dayRequests = this.dayRequests.filter(t => now - t < 86400000);
-    return {
-      allowed: this.minuteRequests.length < this.rpm && this.dayRequests.length < this.rpd,
-      minuteRemaining: Math.max(0, this.rpm - this.minuteRequests.length),
-      dayRemaining: Math.max(0, this.rpd - this.dayRequests.length),
-      minuteResetIn: this.minuteRequests.length > 0 ? Math.max(0, 60000 - (now - this.minuteRequests[0])) : 0,
-      dayResetIn: this.dayRequests.length > 0 ? Math.max(0, 86400000 - (now - this.dayRequests[0])) : 0,
-      minuteUsed: this.minuteRequests.length,
-      dayUsed: this.dayRequests.length
-    };
-  }
-
-  record() {
-    const now = Date.now();
-    this.minuteRequests.push(now);
-    this.dayRequests.push(now);
-  }
+// Set USAGE_STORE_PATH= (empty) to keep usage in memory only
+const usageStore = process.env.USAGE_STORE_PATH === ''
+  ? null
+  : new UsageStore(process.env.USAGE_STORE_PATH || DEFAULT_STORE_PATH);
 
-  getStatus() {
-    const now = Date.now();
-    this.minuteRequests = this.minuteRequests.filter(t => now - t < 60000);
-    this.dayRequests = this.dayRequests.filter(t => now - t < 86400000);
-    return {
-      minuteUsed: this.minuteRequests.length,
-      dayUsed: this.dayRequests.length,
-      minuteRemaining: Math.max(0, this.rpm - this.minuteRequests.length),
-      dayRemaining: Math.max(0, this.rpd - this.dayRequests.length)
-    };
-  }
+if (usageStore) {
+  console.log(`📁 Key usage is persisted to ${usageStore.filePath}`);
 }
 
-class KeyPool {
-  constructor(keys, rpm, rpd) {
-    this.keyPool = keys.map((key, index) => ({
-      index,
-      key,
-      limiter: new RateLimiter(rpm, rpd),
-      client: new GoogleGenAI({ apiKey: key })
-    }));
-  }
+const keyPool = new KeyPool(geminiKeys, GEMINI_RPM, GEMINI_RPD, {
+  store: usageStore,
+  strategy: process.env.KEY_SELECTION_STRATEGY || 'lru',
+  authFailureLimit: parseInt(process.env.KEY_AUTH_FAILURE_LIMIT || '3', 10)
+});
 
-  getAvailableKey() {
-    for (const item of this.keyPool) {
-      const check = item.limiter.check();
-      if (check.allowed) {
-        return item;
-      }
-    }
+const createDeepLTranslator = () => {
+  const deeplKey = sanitizeKey(process.env.DEEPL_API_KEY);
+  if (!deeplKey || deeplKey.includes("your_deepl_api_key_here")) return null;
+  try {
+    const translator = new deepl.Translator(deeplKey);
+    const isFree = deeplKey.endsWith(':fx');
+    console.log(`DeepL: Initialized with ${isFree ? 'Free (:fx)' : 'Pro'} key.`);
+    return translator;
+  } catch (err) {
+    console.error("DeepL Initialization failed:", err.message);
     return null;
   }
+};
 
-  getAggregatedStatus() {
-    let totalMinuteRemaining = 0;
-    let totalDayRemaining = 0;
-    let totalMinuteUsed = 0;
-    let totalDayUsed = 0;
-    let minResetIn = Infinity;
-    let allLimited = true;
-
-    for (const item of this.keyPool) {
-      const status = item.limiter.check();
-      totalMinuteRemaining += status.minuteRemaining;
-      totalDayRemaining += status.dayRemaining;
-      totalMinuteUsed += status.minuteUsed;
-      totalDayUsed += status.dayUsed;
-      if (status.allowed) allLimited = false;
-      if (!status.allowed && status.minuteResetIn < minResetIn) {
-        minResetIn = status.minuteResetIn;
-      }
-    }
+const engines = [
+  new DeepLEngine({ translator: createDeepLTranslator(), keyPresent: !!process.env.DEEPL_API_KEY }),
+  new GeminiEngine({ keyPool })
+];
+if (ENABLE_LOCAL_AI) {
+  engines.push(new OllamaEngine({ url: OLLAMA_URL, model: OLLAMA_MODEL, apiKey: process.env.OLLAMA_API_KEY }));
+}
+if (ENABLE_MOCK) {
+  engines.push(new MockEngine());
+}
+engines.push(new PassthroughEngine());
+
+// Default routes mirror the original behaviour: local AI handles everything,
+// otherwise DeepL for plain translations and Gemini (or mock) for personas.
+const engineRouter = new EngineRouter(engines, {
+  standard: process.env.ENGINE_STANDARD || (ENABLE_LOCAL_AI ? 'ollama' : 'deepl'),
+  persona: process.env.ENGINE_PERSONA || (ENABLE_LOCAL_AI ? 'ollama' : ENABLE_MOCK ? 'mock' : 'gemini'),
+  overrides: parseRouteOverrides(process.env.ENGINE_ROUTES),
+  fallback: parseEngineList(process.env.ENGINE_FALLBACK ?? 'ollama,gemini,deepl,passthrough')
+});
 
-    return {
-      allowed: !allLimited,
-      minuteRemaining: totalMinuteRemaining,
-      dayRemaining: totalDayRemaining,
-      minuteUsed: totalMinuteUsed,
-      dayUsed: totalDayUsed,
-      waitTime: minResetIn === Infinity ? 0 : minResetIn,
-      keyCount: this.keyPool.length
-    };
-  }
+engineRouter.checkHealth().then((status) => {
+  status.forEach(e => console.log(`Engine ${e.id}: ${e.health.ok ? 'OK' : 'UNAVAILABLE'}${e.health.detail ? ` (${e.health.detail})` : ''} [${e.routes.join(', ') || 'unrouted'}]`));
+});
 
-  hasKeys() {
-    return this.keyPool.length > 0;
-  }
+// Optional server-side speech recognition for browsers without the Web Speech API
+const sttAdapter = createSttAdapter(process.env);
+if (sttAdapter) {
+  console.log(`Server STT: ${sttAdapter.label}${sttAdapter.url ? ` (${sttAdapter.url})` : ''}`);
 }
 
-const keyPool = new KeyPool(geminiKeys, GEMINI_RPM, GEMINI_RPD);
-
-class TranslationCache {
-  constructor(maxSize = 100) {
-    this.cache = new Map();
-    this.maxSize = maxSize;
-  }
+// Optional server-side speech for translations read aloud (playAudio)
+const ttsAdapter = createTtsAdapter(process.env, { keyPool });
+if (ttsAdapter) {
+  console.log(`Server TTS: ${ttsAdapter.label}${ttsAdapter.isConfigured() ? '' : ' (no API keys)'}`);
+}
 
-  getKey(text, sourceLang, targetLang, persona) {
-    return `${text}|${sourceLang}|${targetLang}|${persona || 'none'}`;
+const endSttStream = (ws) => {
+  if (ws.sttStream) {
+    ws.sttStream.end();
+    ws.sttStream = null;
   }
+};
 
-  get(text, sourceLang, targetLang, persona) {
-    const key = this.getKey(text, sourceLang, targetLang, persona);
-    return this.cache.get(key);
-  }
+const translationCache = new TranslationCache({
+  maxSize: parseInt(process.env.TRANSLATION_CACHE_SIZE || '500', 10),
+  ttl: parseInt(process.env.TRANSLATION_CACHE_TTL_MS || String(6 * 60 * 60 * 1000), 10),
+  filePath: process.env.TRANSLATION_CACHE_PATH || null
+});
 
-  set(text, sourceLang, targetLang, persona, result) {
-    if (this.cache.size >= this.maxSize) {
-      const firstKey = this.cache.keys().next().value;
-      this.cache.delete(firstKey);
-    }
-    const key = this.getKey(text, sourceLang, targetLang, persona);
-    this.cache.set(key, result);
-  }
-}
+// Terms are edited from the control panel; set GLOSSARY_PATH empty to keep them in memory only
+const glossaryStore = new GlossaryStore(process.env.GLOSSARY_PATH);
 
-const translationCache = new TranslationCache();
+// Overlays and room viewers only watch; everything else is a control panel
+const isController = (client) => !client.overlaySessionId && client.roomRole !== 'viewer';
 
-class SessionManager {
-  constructor(maxHistory = 5) {
-    this.history = new Map(); // ws -> [{input, output}]
-    this.maxHistory = maxHistory;
-  }
+// Messages that change files on the server, so only control panels may send them
+const CONTROLLER_ONLY_TYPES = new Set(['glossary_update', 'persona_save', 'persona_delete']);
 
-  getHistory(ws) {
-    return this.history.get(ws) || [];
-  }
+/**
+ * Sends a message to every control panel (not overlays or room viewers).
+ */
+const broadcastToControllers = (msg) => {
+  const payload = JSON.stringify(msg);
+  wss.clients.forEach(client => {
+    if (client.readyState === WebSocket.OPEN && isController(client)) client.send(payload);
+  });
+};
 
-  addEntry(ws, input, output) {
-    const h = this.getHistory(ws);
-    h.push({ input, output });
-    if (h.length > this.maxHistory) h.shift();
-    this.history.set(ws, h);
+// Persona files are watched, so edits (from disk or the control panel) apply without a restart
+const personaStore = new PersonaStore(process.env.PERSONA_DIR || undefined, {
+  onChange: (personas) => broadcastToControllers({ type: 'personas', data: personas })
+});
+personaStore.watch();
+console.log(`Personas: ${personaStore.list().map(p => p.id).join(', ') || '(none)'}`);
+
+// Filters recognized text and translations before they are shown anywhere
+const createModerator = () => {
+  let llmCheck = null;
+  if (process.env.MODERATION_LLM === 'true') {
+    const engineId = process.env.MODERATION_LLM_ENGINE || engineRouter.routes.persona;
+    const engine = engineRouter.get(engineId);
+    if (engine && engine.capabilities.persona) {
+      llmCheck = createLlmCheck(engine);
+    } else {
+      console.warn(`Moderation LLM check disabled: "${engineId}" is not an LLM engine`);
+    }
   }
+  return new ContentModerator({
+    dir: process.env.MODERATION_DIR || undefined,
+    policy: process.env.MODERATION_POLICY || 'mask',
+    replacement: process.env.MODERATION_REPLACEMENT || undefined,
+    llmCheck,
+    // Set MODERATION_LOG_PATH= (empty) to log to the console only
+    logPath: process.env.MODERATION_LOG_PATH === '' ? null : process.env.MODERATION_LOG_PATH || undefined
+  });
+};
+const moderator = createModerator();
+console.log(`Moderation: ${moderator.policy}${moderator.llmCheck ? ' + LLM check' : ''} (word lists: ${Object.keys(moderator.lists).join(', ') || 'none'})`);
+
+// Write pending usage / cache data before Render (or Ctrl+C) stops the process
+['SIGINT', 'SIGTERM'].forEach(signal => process.on(signal, () => {
+  if (usageStore) usageStore.flush();
+  translationCache.flush();
+  glossaryStore.flush();
+  process.exit(0);
+}));
+
+const sessionManager = new SessionManager(5, SESSION_RESUME_TTL_MS);
+
+const overlayHub = new OverlayHub();
+const roomManager = new RoomManager();
+
+// Shown when an error has no more specific message
+const ERROR_MESSAGES = {
+  [ERROR_CODES.ENGINE_UNREACHABLE]: '翻訳エンジンに接続できませんでした。しばらくしてから再度お試しください。',
+  [ERROR_CODES.AUTH]: 'APIキーの認証に失敗しました。サーバーの設定を確認してください。',
+  [ERROR_CODES.QUOTA]: 'APIの利用上限に達しました。しばらく待ってから再度お試しください。',
+  [ERROR_CODES.BAD_INPUT]: '送信された内容を処理できませんでした。',
+  [ERROR_CODES.INTERNAL]: 'サーバーで予期しないエラーが発生しました。',
+  [PROTOCOL_ERROR_CODES.VERSION]: 'クライアントとサーバーのバージョンが一致しません。ページを再読み込みしてください。'
+};
 
-  clear(ws) {
-    this.history.delete(ws);
-  }
+// Only these end the session; any other error just fails the request that caused it
+const FATAL_ERROR_CODES = new Set([ERROR_CODES.AUTH, PROTOCOL_ERROR_CODES.VERSION]);
 
-  formatHistoryForPrompt(ws) {
-    const h = this.getHistory(ws);
-    if (h.length === 0) return "";
-    return "\n--- Recent Conversation Context ---\n" + 
-      h.map(e => `Input: "${e.input}"\nTranslation: "${e.output}"`).join("\n---\n") + 
-      "\n----------------------------------\n";
-  }
-}
+/**
+ * Builds an `error` message. `recoverable` defaults to what the code implies.
+ */
+const errorMessage = (code, message, recoverable = !FATAL_ERROR_CODES.has(code)) => ({
+  type: 'error',
+  code,
+  recoverable,
+  message: message || ERROR_MESSAGES[code] || ERROR_MESSAGES[ERROR_CODES.INTERNAL]
+});
 
-const sessionManager = new SessionManager();
+const MAX_EXTRA_TARGET_LANGS = 4;
 
 class RequestQueue {
   constructor() {
@@ -295,13 +260,15 @@ class RequestQueue {
     this.processing = false;
   }
 
+  /**
+   * Requests are translated one at a time, in the order they arrived. Nothing is
+   * skipped: the client already splits and merges utterances, so each one counts.
+   */
   enqueue(request) {
-    const existingIndex = this.queue.findIndex(r => r.ws === request.ws && r.type === 'text_input');
-    if (existingIndex !== -1) {
-      this.queue[existingIndex] = request;
-      return;
-    }
     this.queue.push(request);
+    if (this.processing) {
+      console.log(`Queued translation request (${this.queue.length} waiting)`);
+    }
     this.process();
   }
 
@@ -318,261 +285,302 @@ class RequestQueue {
   }
 
   async handleRequest(request) {
-    const { ws, message, translator } = request;
+    // `sourceText` is the recognized text after moderation, as shown to overlays and rooms
+    const { ws, message, sourceText } = request;
 
     if (message.type === 'text_input') {
-      const { text, sourceLang, targetLang, persona } = message.data;
-      console.log(`Translate Request: "${text}" [${sourceLang} -> ${targetLang}] Persona: ${persona}`);
+      // `id` is echoed back as `requestId` so the client can match replies to its transcript
+      // `speaker` labels conversation-mode utterances (A or B); it is passed through untouched
+      const { id: requestId, text, sourceLang, targetLang, persona, extraTargetLangs, speaker } = message.data;
+      // Each extra language costs a request per utterance, so only a few are honoured
+      const extraLangs = new Set((Array.isArray(extraTargetLangs) ? extraTargetLangs : [])
+        .filter(lang => typeof lang === 'string' && lang && lang !== targetLang)
+        .slice(0, MAX_EXTRA_TARGET_LANGS));
+      console.log(`Translate Request: "${text}" [${sourceLang} -> ${[targetLang, ...extraLangs].join(', ')}] Persona: ${persona}`);
 
       if (!text || text.trim().length === 0) return;
 
-      try {
-        let translatedText = '';
-
-        const cached = translationCache.get(text, sourceLang, targetLang, persona);
-        if (cached) {
-          console.log('Cache hit!');
-          translatedText = cached;
-        } else if (ENABLE_LOCAL_AI) {
-          // --- Proprietary Engine Mode ---
-          console.log(`Using Precision Engine (${OLLAMA_MODEL}) [Context: ${persona || 'none'}]`);
-
-          const profile = PERSONA_PROFILES[persona];
-          let systemInstruction = BASE_INSTRUCTION + (profile ? `\nPersona Profile: ${profile.description}\nRules:\n${profile.rules.map(r => "- " + r).join("\n")}` : "");
-          
-          let fullPrompt = `${systemInstruction}\n\n${sessionManager.formatHistoryForPrompt(ws)}`;
-
-          if (profile && profile.examples) {
-            fullPrompt += "\nExamples of Persona Style:\n" + profile.examples.map(ex => `Input: "${ex.input}" -> Output: "${ex.output}"`).join("\n");
-          }
+      const send = (msg) => {
+        ws.send(JSON.stringify(msg));
+        overlayHub.relay(ws.sessionId, msg);
+      };
 
-          fullPrompt += `\n\nTarget Language: ${targetLang}\nCurrent Input: "${text}"\nNatural Persona Translation:`;
+      const history = sessionManager.formatHistoryForPrompt(ws.sessionId);
+      // Persona output depends on the conversation so far, so it is cached per context
+      const cacheContext = persona && persona !== 'none' ? history : '';
 
-          try {
-            const headers = { 'Content-Type': 'application/json' };
-            if (process.env.OLLAMA_API_KEY) {
-              headers['X-API-KEY'] = process.env.OLLAMA_API_KEY;
-            }
-
-            const response = await fetchWithRetry(OLLAMA_URL, {
-              method: 'POST',
-              headers,
-              body: JSON.stringify({
-                model: OLLAMA_MODEL,
-                prompt: fullPrompt,
-                stream: false
-              })
-            }, 3, 1000); // 3 retries, start with 1s delay
-
-            const data = await response.json();
-            translatedText = data.response;
-          } catch (err) {
-            console.error("Precision Engine failed after retries:", err.message);
-            const isTimeout = err.message.includes('ETIMEDOUT') || err.message.includes('timeout');
-            const isConnectionRefused = err.message.includes('ECONNREFUSED');
-            
-            let userMessage = `翻訳エンジン (Precision Engine) に接続できません。`;
-            if (isConnectionRefused) {
-              userMessage += "エンジンの起動状態を確認してください。";
-            } else if (isTimeout) {
-              userMessage += "通信タイムアウトが発生しました。トンネルの状態を確認してください。";
-            } else {
-              userMessage += `(${err.message})`;
-            }
-            
-            ws.send(JSON.stringify({ type: 'error', message: userMessage }));
-            return;
-          }
-        } else if (!persona || persona === 'none') {
-          // --- Standard (DeepL) Mode ---
-          if (!translator) {
-            const keyPresent = !!process.env.DEEPL_API_KEY;
-            ws.send(JSON.stringify({
-              type: 'error',
-              message: keyPresent ? 'Engine auth error (Standard).' : 'Engine API Key is missing (Standard).'
-            }));
-            return;
-          }
-          console.log(`Using Standard Engine for translation`);
-          const targetCode = deeplLangMap[targetLang] || 'en-US';
-          const result = await translator.translateText(text, null, targetCode);
-          translatedText = result.text;
-        } else {
-          // --- Gemini / Mock Mode for persona translations ---
-          if (ENABLE_MOCK) {
-            console.log(`Using MOCK for persona: ${persona}`);
-            translatedText = mockTranslate(text, sourceLang, targetLang, persona);
+      const room = ws.roomRole === 'speaker' ? ws.roomName : null;
+      const viewerGroups = room ? roomManager.viewersByLanguage(room, targetLang) : new Map();
+      if (room) {
+        roomManager.broadcast(room, { type: 'room_source', data: { room, id: requestId, text: sourceText, sourceLang, speaker } });
+      }
 
-          } else {
-            const rateStatus = keyPool.getAggregatedStatus();
-
-            if (!rateStatus.allowed) {
-              const isDailyLimit = rateStatus.dayRemaining === 0;
-              console.error(`All keys rate limited. ${isDailyLimit ? 'Daily' : 'Minute'} limit reached.`);
-
-              ws.send(JSON.stringify({
-                type: 'rate_limit',
-                data: {
-                  limited: true,
-                  isDailyLimit,
-                  waitTime: rateStatus.waitTime,
-                  minuteRemaining: rateStatus.minuteRemaining,
-                  dayRemaining: rateStatus.dayRemaining,
-                  message: isDailyLimit
-                    ? `エンジンのリクエスト上限に達しました（1日）。`
-                    : `エンジンのリクエスト上限に達しました（1分）。${Math.ceil(rateStatus.waitTime / 1000)}秒お待ちください。`
-                }
-              }));
-              return;
-            }
+      // Extra languages and the languages of viewers in the speaker's room are each
+      // translated once, in parallel with the primary (streamed) translation
+      const otherLangs = new Set([...extraLangs, ...[...viewerGroups.keys()].filter(lang => lang !== targetLang)]);
+      const otherTranslations = Promise.allSettled([...otherLangs].map(async (lang) => {
+        const result = await this.translateSecondary(text, { sourceLang, targetLang: lang, persona });
+        if (!result) return;
+        const content = await this.moderate(result.text, [lang, sourceLang], ws);
+        if (content === null) return;
+        if (extraLangs.has(lang)) {
+          send({ type: 'extra_text', content, engine: result.engineId, targetLang: lang, requestId });
+        }
+        if (viewerGroups.has(lang)) {
+          roomManager.send(viewerGroups.get(lang), {
+            type: 'room_text',
+            data: { room, id: requestId, sourceText, sourceLang, targetLang: lang, content, engine: result.engineId, speaker }
+          });
+        }
+      }));
 
-            ws.send(JSON.stringify({
-              type: 'rate_limit',
-              data: {
-                limited: false,
-                minuteRemaining: rateStatus.minuteRemaining,
-                dayRemaining: rateStatus.dayRemaining
-              }
-            }));
-
-            const keyItem = keyPool.getAvailableKey();
-            if (!keyItem) {
-              ws.send(JSON.stringify({ type: 'error', message: 'No available API keys' }));
-              return;
+      // Streamed text goes through the word lists piece by piece; null when lines must be complete first
+      const streamFilter = ENABLE_STREAMING ? moderator.streamFilter([targetLang, sourceLang]) : null;
+      try {
+        const { text: translatedText, engineId } = await this.translate(text, {
+          sourceLang,
+          targetLang,
+          persona,
+          history,
+          cacheContext,
+          onDelta: streamFilter
+            ? (delta, engine) => {
+              const content = streamFilter.push(delta);
+              if (content) send({ type: 'text_delta', content, engine: engine.id, requestId });
             }
-
-            console.log(`Using Gemini for persona: ${persona} (Key #${keyItem.index + 1})`);
-
-            const profile = PERSONA_PROFILES[persona];
-            let systemInstruction = BASE_INSTRUCTION + (profile ? `\nPersona Profile: ${profile.description}\nRules:\n${profile.rules.map(r => "- " + r).join("\n")}` : "");
-            
-            let fullPrompt = `${systemInstruction}\n\n${sessionManager.formatHistoryForPrompt(ws)}`;
-
-            if (profile && profile.examples) {
-              fullPrompt += "\nExamples of Persona Style:\n" + profile.examples.map(ex => `Input: "${ex.input}" -> Output: "${ex.output}"`).join("\n");
+            : undefined,
+          onReset: streamFilter
+            ? () => {
+              streamFilter.reset();
+              send({ type: 'text_reset', requestId });
             }
-
-            fullPrompt += `\n\nTarget Language: ${targetLang}\nCurrent Input: "${text}"\nNatural Persona Translation:`;
-
-            try {
-              const response = await keyItem.client.models.generateContent({
-                model: 'gemini-2.0-flash',
-                contents: fullPrompt,
-              });
-
-              keyItem.limiter.record();
-              translatedText = response.text;
-
-            } catch (apiError) {
-              const errorMsg = apiError.message || String(apiError);
-              const status = apiError.status || apiError.statusCode;
-
-              if (status === 429 || errorMsg.includes('429') || errorMsg.includes('rate') || errorMsg.includes('quota')) {
-                console.error(`Gemini API rate limit hit on Key #${keyItem.index + 1}:`, errorMsg);
-                keyItem.limiter.record();
-
-                const retryKey = keyPool.getAvailableKey();
-                if (retryKey) {
-                  console.log(`Retrying with Key #${retryKey.index + 1}...`);
-                  try {
-                    const retryResponse = await retryKey.client.models.generateContent({
-                      model: 'gemini-2.0-flash',
-                      contents: fullPrompt,
-                    });
-                    retryKey.limiter.record();
-                    translatedText = retryResponse.text;
-                  } catch (retryErr) {
-                    console.error(`Retry failed on Key #${retryKey.index + 1}:`, retryErr.message);
-                    ws.send(JSON.stringify({
-                      type: 'rate_limit',
-                      data: {
-                        limited: true,
-                        isDailyLimit: errorMsg.includes('quota') || errorMsg.includes('daily'),
-                        waitTime: 60000,
-                        message: 'Gemini APIのレートリミットに達しました。'
-                      }
-                    }));
-                    return;
-                  }
-                } else {
-                  ws.send(JSON.stringify({
-                    type: 'rate_limit',
-                    data: {
-                      limited: true,
-                      isDailyLimit: errorMsg.includes('quota') || errorMsg.includes('daily'),
-                      waitTime: 60000,
-                      message: '全てのAPIキーでレートリミットに達しました。'
-                    }
-                  }));
-                  return;
-                }
-              } else {
-                throw apiError;
-              }
+            : undefined,
+          send,
+          onFallback: (failed, err) => {
+            if (err.rateLimit) {
+              send({ type: 'rate_limit', data: err.rateLimit });
             }
           }
-        }
-
-        if (translatedText) {
-          translationCache.set(text, sourceLang, targetLang, persona, translatedText);
+        });
 
-          ws.send(JSON.stringify({
+        const content = translatedText ? await this.moderate(translatedText, [targetLang, sourceLang], ws) : translatedText;
+        if (content === null) {
+          // The client removes the utterance from its transcript
+          send({ type: 'moderated', requestId, targetLang });
+          send({ type: 'turn_complete', requestId });
+        } else if (content) {
+          send({
             type: 'text',
-            content: translatedText
-          }));
-          if (persona && persona !== 'none') {
-            sessionManager.addEntry(ws, text, translatedText);
+            content,
+            engine: engineId,
+            requestId,
+            speaker
+          });
+          // Untranslated passthrough output must not be fed back as persona context
+          if (persona && persona !== 'none' && engineId !== 'passthrough') {
+            sessionManager.addEntry(ws.sessionId, text, content);
+          }
+          send({ type: 'turn_complete', requestId });
+
+          if (viewerGroups.has(targetLang)) {
+            roomManager.send(viewerGroups.get(targetLang), {
+              type: 'room_text',
+              data: { room, id: requestId, sourceText, sourceLang, targetLang, content, engine: engineId, speaker }
+            });
           }
-          ws.send(JSON.stringify({ type: 'turn_complete' }));
         }
       } catch (err) {
+        // Every engine in the chain has failed
+        if (err.rateLimit) {
+          send({ type: 'rate_limit', data: err.rateLimit });
+          return;
+        }
+        if (err instanceof EngineError) {
+          send(errorMessage(err.code, err.userMessage));
+          return;
+        }
         console.error("Translation Error:", err);
-        ws.send(JSON.stringify({ type: 'error', message: 'Translation failed: ' + err.message }));
+        send(errorMessage(ERROR_CODES.INTERNAL));
+      } finally {
+        await otherTranslations;
       }
     }
   }
-}
 
-const requestQueue = new RequestQueue();
+  /**
+   * Cache lookup, then the engine chain. Successful results are cached unless
+   * they came from the passthrough engine.
+   */
+  async translate(text, { sourceLang, targetLang, persona, history, cacheContext, onDelta, onReset, send, onFallback }) {
+    const glossary = glossaryStore.forRequest(text, sourceLang, targetLang);
+    const profile = persona && persona !== 'none' ? personaStore.get(persona) : null;
+    // Translations made with an older glossary or persona must not be served from the cache
+    let context = cacheContext || '';
+    if (glossary) context += `|glossary:${glossary.fingerprint}`;
+    if (profile) context += `|persona:${profile.fingerprint}`;
+    const cached = translationCache.get(text, sourceLang, targetLang, persona, context);
+    if (cached) {
+      console.log('Cache hit!');
+      return { text: cached, engineId: 'cache' };
+    }
 
-wss.on('connection', (ws, req) => {
-  console.log(`Client connected from ${req.socket.remoteAddress}`);
+    const result = await engineRouter.translate(text, {
+      sourceLang,
+      targetLang,
+      persona,
+      profile,
+      history,
+      glossary,
+      onDelta,
+      onReset,
+      send
+    }, {
+      onFallback: (failed, err, next) => {
+        console.log(`Falling back from ${failed.id} to ${next.id}`);
+        if (onFallback) onFallback(failed, err, next);
+      }
+    });
 
-  let translator = null;
-  const deeplKey = sanitizeKey(process.env.DEEPL_API_KEY);
-  if (deeplKey && !deeplKey.includes("your_deepl_api_key_here")) {
+    if (result.engine.id === 'passthrough') {
+      return { text: result.text, engineId: result.engine.id };
+    }
+
+    const checked = enforceGlossary(result.text, glossary);
+    if (checked.missing.length > 0) {
+      console.warn(`Glossary terms missing from ${result.engine.id} output: ${checked.missing.join(', ')}`);
+    }
+    if (checked.text) {
+      translationCache.set(text, sourceLang, targetLang, persona, context, checked.text);
+    }
+    return { text: checked.text, engineId: result.engine.id };
+  }
+
+  /**
+   * Runs a translation through the moderation stage. Resolves with null when the line is dropped.
+   */
+  async moderate(text, langs, ws) {
+    const result = await moderator.check(text, langs, { stage: 'translation', sessionId: ws.sessionId });
+    return result.text;
+  }
+
+  /**
+   * Extra languages and room viewers only get finished lines; engine status
+   * messages and failures stay with the primary translation. The session's
+   * history is in the primary target language, so these go without it.
+   */
+  async translateSecondary(text, { sourceLang, targetLang, persona }) {
     try {
-      translator = new deepl.Translator(deeplKey);
-      const isFree = deeplKey.endsWith(':fx');
-      console.log(`DeepL: Initialized with ${isFree ? 'Free (:fx)' : 'Pro'} key.`);
+      const result = await this.translate(text, {
+        sourceLang, targetLang, persona, history: '', cacheContext: '', send: () => {}
+      });
+      return result.text ? result : null;
     } catch (err) {
-      console.error("DeepL Initialization failed:", err.message);
+      console.error(`${targetLang} translation failed:`, err.message);
+      return null;
     }
   }
+}
+
+const requestQueue = new RequestQueue();
+
+wss.on('connection', (ws, req) => {
+  console.log(`Client connected from ${req.socket.remoteAddress}`);
+  ws.sessionId = randomUUID();
 
   ws.on('close', () => {
     console.log('Client disconnected');
-    sessionManager.clear(ws);
+    endSttStream(ws);
+    const room = roomManager.leave(ws);
+    if (room) {
+      roomManager.broadcast(room, { type: 'room_status', data: roomManager.describe(room) });
+    }
+    if (ws.overlaySessionId) {
+      overlayHub.unsubscribe(ws);
+      return;
+    }
+    // A resumed connection may already have taken over this session
+    const stillActive = [...wss.clients].some(client => client !== ws && client.sessionId === ws.sessionId);
+    if (!stillActive) {
+      sessionManager.suspend(ws.sessionId);
+    }
   });
 
   ws.on('message', async (data) => {
     try {
-      const message = JSON.parse(data.toString());
+      const parsed = parseMessage(data, 'client');
+      if (!parsed.ok) {
+        console.warn(`Rejected message (${parsed.error.code}): ${parsed.error.detail}`);
+        ws.send(JSON.stringify(errorMessage(parsed.error.code, `メッセージを処理できませんでした (${parsed.error.detail})`)));
+        return;
+      }
+      const message = parsed.message;
+
+      if (CONTROLLER_ONLY_TYPES.has(message.type) && !isController(ws)) {
+        console.warn(`Rejected ${message.type} from an overlay or room viewer`);
+        ws.send(JSON.stringify(errorMessage(ERROR_CODES.BAD_INPUT, 'オーバーレイや視聴者の画面からは用語集・ペルソナを変更できません。', false)));
+        return;
+      }
 
       if (message.type === 'config') {
+        const { protocolVersion } = message.data;
+        if (!isSupportedVersion(protocolVersion)) {
+          console.warn(`Rejected client speaking protocol v${protocolVersion} (server: v${PROTOCOL_VERSION})`);
+          ws.send(JSON.stringify(errorMessage(PROTOCOL_ERROR_CODES.VERSION)));
+          return;
+        }
+
         const hasGemini = keyPool.hasKeys() || ENABLE_MOCK;
-        const hasDeepL = !!translator;
+        const hasDeepL = engineRouter.get('deepl').isConfigured();
         console.log(`Session config: Persona=${message.data.persona}, LocalAI=${ENABLE_LOCAL_AI}, GeminiReady=${hasGemini}, DeepLReady=${hasDeepL}, MockMode=${ENABLE_MOCK}`);
 
-        ws.persona = message.data.persona;
+        // Requests carry their own languages and persona; this is only used to notice a change of context
+        ws.config = { sourceLang: message.data.sourceLang, targetLang: message.data.targetLang, persona: message.data.persona };
+
+        let resumed = false;
+        const { sessionId, resumeToken } = message.data;
+        if (sessionId && sessionId !== ws.sessionId && !sessionManager.claim(sessionId, resumeToken)) {
+          // Someone else's session: this socket keeps the new id it was given on connection
+          console.warn(`Session ${sessionId} refused: wrong resume token, using ${ws.sessionId}`);
+        } else if (sessionId) {
+          if (message.data.resume) {
+            resumed = sessionManager.resume(sessionId);
+            console.log(`Session ${sessionId} ${resumed ? 'resumed with context' : 'resumed without context'}`);
+          } else {
+            // Session ids are reused across starts so overlay URLs stay stable; a new start begins fresh
+            sessionManager.clear(sessionId);
+          }
+          if (ws.sessionId !== sessionId) {
+            // Drop the placeholder id given at connection time
+            sessionManager.forget(ws.sessionId);
+            ws.sessionId = sessionId;
+          }
+        }
+        if (sessionManager.configure(ws.sessionId, ws.config) && resumed) {
+          // Resumed under another language or persona: the old lines would mislead the prompt
+          resumed = false;
+          console.log(`Session ${ws.sessionId} resumed with new settings; context cleared`);
+        }
         ws.send(JSON.stringify({
           type: 'connected',
           data: {
+            sessionId: ws.sessionId,
+            // Proves ownership of the session when the client reconnects or starts again
+            resumeToken: sessionManager.tokenFor(ws.sessionId),
+            resumed,
+            // The version both sides speak on this connection (clients from before the handshake speak v1)
+            protocolVersion: protocolVersion ?? MIN_PROTOCOL_VERSION,
             hasLocalAI: ENABLE_LOCAL_AI,
             ollamaModel: OLLAMA_MODEL,
             hasGemini,
             hasDeepL,
             mockMode: ENABLE_MOCK,
+            engines: engineRouter.describe(),
+            stt: sttAdapter ? sttAdapter.describe() : null,
+            tts: ttsAdapter ? ttsAdapter.describe() : null,
+            glossary: glossaryStore.describe(),
+            personas: personaStore.list(),
+            moderation: moderator.describe(),
+            cache: translationCache.getStats(),
             rateLimits: {
               rpm: GEMINI_RPM,
               rpd: GEMINI_RPD,
@@ -583,6 +591,15 @@ wss.on('connection', (ws, req) => {
           }
         }));
       }
+      else if (message.type === 'config_update') {
+        // Switching language or persona mid-session; earlier lines would only mislead the persona prompt
+        const { config, historyCleared } = sessionManager.reconfigure(ws.sessionId, ws.config, message.data);
+        ws.config = config;
+        if (historyCleared) {
+          console.log(`Session ${ws.sessionId} reconfigured: ${config.sourceLang} -> ${config.targetLang}, Persona=${config.persona}`);
+        }
+        ws.send(JSON.stringify({ type: 'config_updated', data: { ...config, historyCleared } }));
+      }
       else if (message.type === 'rate_status') {
         const status = keyPool.getAggregatedStatus();
         ws.send(JSON.stringify({
@@ -590,17 +607,212 @@ wss.on('connection', (ws, req) => {
           data: status
         }));
       }
+      else if (message.type === 'cache_stats') {
+        ws.send(JSON.stringify({
+          type: 'cache_stats',
+          data: translationCache.getStats()
+        }));
+      }
+      else if (message.type === 'engine_status') {
+        ws.send(JSON.stringify({
+          type: 'engine_status',
+          data: await engineRouter.checkHealth()
+        }));
+      }
+      else if (message.type === 'audio') {
+        // PCM frames from the client's mic; ignored until stt_start opened a stream
+        if (ws.sttStream && message.data?.data) {
+          ws.sttStream.write(decodePcmFrame(message.data.data));
+        }
+      }
+      else if (message.type === 'stt_start') {
+        if (!sttAdapter) {
+          // The client cannot listen without it, so this ends the session
+          ws.send(JSON.stringify(errorMessage(ERROR_CODES.BAD_INPUT, 'サーバー音声認識が設定されていません (STT_ENGINE)。', false)));
+          return;
+        }
+        // Restarting (e.g. a conversation switching language) replaces the current stream
+        endSttStream(ws);
+        const lang = message.data?.lang;
+        const stream = sttAdapter.createStream({
+          lang,
+          onInterim: (text) => {
+            if (ws.sttStream === stream) ws.send(JSON.stringify({ type: 'stt_interim', text }));
+          },
+          onFinal: (text) => ws.send(JSON.stringify({ type: 'stt_final', text })),
+          onError: (err) => {
+            console.error(`[STT] ${sttAdapter.id} error:`, err.message);
+            ws.send(JSON.stringify({ type: 'stt_error', message: `音声認識サーバーでエラーが発生しました: ${err.message}` }));
+          }
+        });
+        ws.sttStream = stream;
+        console.log(`Server STT started (${sttAdapter.id}, ${lang})`);
+      }
+      else if (message.type === 'stt_stop') {
+        endSttStream(ws);
+      }
+      else if (message.type === 'tts') {
+        const { id, text, lang, persona, voice } = message.data || {};
+        if (!ttsAdapter || !ttsAdapter.isConfigured()) {
+          ws.send(JSON.stringify({ type: 'tts_error', id, message: 'サーバー音声合成が設定されていません (TTS_ENGINE)。' }));
+          return;
+        }
+        try {
+          const profile = persona && persona !== 'none' ? personaStore.get(persona) : null;
+          const audio = await ttsAdapter.synthesize(text, { lang, persona: profile, voice });
+          ws.send(JSON.stringify({ type: 'tts_audio', id, ...audio }));
+        } catch (err) {
+          console.error(`[TTS] ${ttsAdapter.id} error:`, err.message);
+          ws.send(JSON.stringify({ type: 'tts_error', id, message: `音声合成に失敗しました: ${err.message}` }));
+        }
+      }
+      else if (message.type === 'glossary_update') {
+        const { sourceLang, targetLang, entries, doNotTranslate } = message.data || {};
+        if (sourceLang && targetLang && entries !== undefined) {
+          glossaryStore.setTerms(sourceLang, targetLang, entries);
+        }
+        if (doNotTranslate !== undefined) {
+          glossaryStore.setDoNotTranslate(doNotTranslate);
+        }
+        // Other control panels connected to this server show the same glossary
+        broadcastToControllers({ type: 'glossary', data: glossaryStore.describe() });
+      }
+      else if (message.type === 'persona_save') {
+        const { id, profile } = message.data || {};
+        try {
+          // The reload broadcasts the new list to every control panel
+          personaStore.save(id, profile);
+          ws.send(JSON.stringify({ type: 'persona_saved', id }));
+        } catch (err) {
+          ws.send(JSON.stringify({ type: 'persona_error', message: err.message }));
+        }
+      }
+      else if (message.type === 'persona_delete') {
+        const id = message.data?.id;
+        try {
+          if (!personaStore.remove(id)) {
+            ws.send(JSON.stringify({ type: 'persona_error', message: `ペルソナ "${id}" は存在しません。` }));
+          }
+        } catch (err) {
+          ws.send(JSON.stringify({ type: 'persona_error', message: err.message }));
+        }
+      }
+      else if (message.type === 'persona_preview') {
+        // Translates a sample with an unsaved profile; nothing is cached or added to the session
+        const { id, profile, text, sourceLang, targetLang } = message.data || {};
+        const previewId = id || 'preview';
+        const errors = validatePersona(previewId, profile);
+        if (errors.length > 0 || !text) {
+          ws.send(JSON.stringify({ type: 'persona_error', message: errors.join(' ') || 'プレビューする文を入力してください。' }));
+          return;
+        }
+        try {
+          const result = await engineRouter.translate(text, {
+            sourceLang,
+            targetLang,
+            persona: previewId,
+            profile,
+            history: '',
+            glossary: null,
+            send: () => {}
+          });
+          ws.send(JSON.stringify({ type: 'persona_preview', content: result.text, engine: result.engine.id }));
+        } catch (err) {
+          ws.send(JSON.stringify({ type: 'persona_error', message: err.userMessage || err.message }));
+        }
+      }
+      else if (message.type === 'subscribe') {
+        const sessionId = message.data?.sessionId;
+        if (!sessionId || typeof sessionId !== 'string') {
+          ws.send(JSON.stringify(errorMessage(ERROR_CODES.BAD_INPUT, 'オーバーレイのセッションIDが指定されていません。', false)));
+          return;
+        }
+        overlayHub.subscribe(sessionId, ws);
+        console.log(`Overlay subscribed to session ${sessionId} (${overlayHub.count(sessionId)} overlays)`);
+        ws.send(JSON.stringify({
+          type: 'subscribed',
+          data: { sessionId, settings: overlayHub.getSettings(sessionId) }
+        }));
+      }
+      else if (message.type === 'join_room') {
+        const { room, role = 'viewer', targetLang } = message.data || {};
+        if (!isValidRoomName(room) || !ROOM_ROLES.includes(role)) {
+          ws.send(JSON.stringify(errorMessage(ERROR_CODES.BAD_INPUT, 'ルーム名または役割が正しくありません。', false)));
+          return;
+        }
+        const refusal = roomManager.checkJoin(room, ws, { role, targetLang });
+        if (refusal) {
+          console.warn(`Room ${room}: ${role} refused (${refusal})`);
+          // A refused speaker still translates for itself; a refused viewer has nothing to show
+          ws.send(JSON.stringify(errorMessage(ERROR_CODES.BAD_INPUT, refusal, role === 'speaker')));
+          return;
+        }
+        roomManager.join(room, ws, { role, targetLang });
+        console.log(`Room ${room}: ${role} joined${targetLang ? ` (${targetLang})` : ''}`);
+        ws.send(JSON.stringify({ type: 'room_joined', data: { room, role, targetLang: targetLang || null } }));
+        roomManager.broadcast(room, { type: 'room_status', data: roomManager.describe(room) });
+      }
+      else if (message.type === 'leave_room') {
+        const room = roomManager.leave(ws);
+        if (room) {
+          roomManager.broadcast(room, { type: 'room_status', data: roomManager.describe(room) });
+        }
+      }
+      else if (message.type === 'overlay_settings') {
+        overlayHub.setSettings(ws.sessionId, message.data);
+      }
+      else if (message.type === 'interim') {
+        // Echoed back filtered, so the controller only ever shows what overlays show
+        const { text, lang } = message.data || {};
+        const interim = { type: 'interim', data: { text: moderator.filter(text, lang || ws.config?.sourceLang).text ?? '' } };
+        ws.send(JSON.stringify(interim));
+        if (overlayHub.count(ws.sessionId) > 0) {
+          overlayHub.publish(ws.sessionId, interim);
+        }
+      }
       else if (message.type === 'text_input') {
+        const { id, text, sourceLang, targetLang, persona, extraTargetLangs, speaker, raw } = message.data || {};
+        // The LLM check is kept for translations so it does not delay the source line
+        const source = await moderator.check(text, sourceLang, { stage: 'source', llm: false, sessionId: ws.sessionId });
+        if (source.text === null) {
+          ws.send(JSON.stringify({ type: 'moderated', requestId: id, targetLang }));
+          return;
+        }
+        const sourceMessage = { type: 'source', data: { id, text: source.text, sourceLang, targetLang, persona, extraTargetLangs, speaker } };
+        ws.send(JSON.stringify(sourceMessage));
+        overlayHub.publish(ws.sessionId, sourceMessage);
+        if (raw) {
+          // Raw mode: the recognized line is the subtitle, for the controller, its overlays and its room alike.
+          // It skips the queue, so it is not held up by translations still running.
+          [
+            { type: 'text', content: source.text, engine: 'raw', requestId: id, speaker },
+            { type: 'turn_complete', requestId: id }
+          ].forEach(msg => {
+            ws.send(JSON.stringify(msg));
+            overlayHub.publish(ws.sessionId, msg);
+          });
+          // Room viewers get the line as it was said, whatever language they read
+          const room = ws.roomRole === 'speaker' ? ws.roomName : null;
+          if (room) {
+            roomManager.broadcast(room, { type: 'room_source', data: { room, id, text: source.text, sourceLang, speaker } });
+            const viewers = [...roomManager.viewersByLanguage(room, targetLang).values()].flat();
+            roomManager.send(viewers, {
+              type: 'room_text',
+              data: { room, id, sourceText: source.text, sourceLang, targetLang: sourceLang, content: source.text, engine: 'raw', speaker }
+            });
+          }
+          return;
+        }
         requestQueue.enqueue({
           ws,
           message,
-          translator
+          sourceText: source.text
         });
       }
 
     } catch (e) {
       console.error('Server Logic Error:', e.message);
-      ws.send(JSON.stringify({ type: 'error', message: 'Internal server error' }));
+      ws.send(JSON.stringify(errorMessage(ERROR_CODES.INTERNAL)));
     }
   });
 });
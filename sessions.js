@@ -0,0 +1,132 @@
+/**
+ * Translation Sessions
+ * Recent lines per session for the persona prompt. A session outlives its socket for a
+ * while so a reconnecting client can resume it, but only with the token it was given.
+ */
+
+const { randomBytes, timingSafeEqual } = require('crypto');
+
+// The settings the history was built under; a change makes earlier lines misleading
+const CONTEXT_KEYS = ['sourceLang', 'targetLang', 'persona'];
+
+const tokensMatch = (expected, given) => {
+  if (typeof given !== 'string') return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(given);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+class SessionManager {
+  constructor(maxHistory = 5, resumeTtl = 120000) {
+    this.history = new Map(); // sessionId -> [{input, output}]
+    this.expiryTimers = new Map(); // sessionId -> timeout for disconnected sessions
+    this.tokens = new Map(); // sessionId -> resume token, kept while the server runs
+    this.configs = new Map(); // sessionId -> { sourceLang, targetLang, persona } of the history
+    this.maxHistory = maxHistory;
+    this.resumeTtl = resumeTtl;
+  }
+
+  /**
+   * Whether a socket may use a session id. Ids the server has not seen are free; a known
+   * one needs its token, so one client cannot take over another's history or overlays.
+   */
+  claim(sessionId, token) {
+    const known = this.tokens.get(sessionId);
+    return !known || tokensMatch(known, token);
+  }
+
+  /**
+   * The session's resume token, issued on first use.
+   */
+  tokenFor(sessionId) {
+    if (!this.tokens.has(sessionId)) this.tokens.set(sessionId, randomBytes(24).toString('base64url'));
+    return this.tokens.get(sessionId);
+  }
+
+  /**
+   * Records the settings the session now translates under. Clears the history and
+   * returns true when they differ from the ones it was built under.
+   */
+  configure(sessionId, config) {
+    const context = Object.fromEntries(CONTEXT_KEYS.map(key => [key, config?.[key]]));
+    const previous = this.configs.get(sessionId);
+    this.configs.set(sessionId, context);
+    const changed = !!previous && CONTEXT_KEYS.some(key => previous[key] !== context[key]);
+    if (changed) this.history.delete(sessionId);
+    return changed;
+  }
+
+  /**
+   * Applies a `config_update` over the socket's current settings.
+   * Returns the merged settings and whether the history had to go.
+   */
+  reconfigure(sessionId, current, changes) {
+    const config = { ...current, ...changes };
+    return { config, historyCleared: this.configure(sessionId, config) };
+  }
+
+  getHistory(sessionId) {
+    return this.history.get(sessionId) || [];
+  }
+
+  addEntry(sessionId, input, output) {
+    const h = this.getHistory(sessionId);
+    h.push({ input, output });
+    if (h.length > this.maxHistory) h.shift();
+    this.history.set(sessionId, h);
+  }
+
+  clear(sessionId) {
+    this.cancelExpiry(sessionId);
+    this.history.delete(sessionId);
+  }
+
+  /**
+   * Drops everything about a session, token included (a placeholder id nobody will claim).
+   */
+  forget(sessionId) {
+    this.clear(sessionId);
+    this.configs.delete(sessionId);
+    this.tokens.delete(sessionId);
+  }
+
+  /**
+   * Keeps a disconnected session's context around so a reconnecting client can resume it.
+   */
+  suspend(sessionId) {
+    this.cancelExpiry(sessionId);
+    this.expiryTimers.set(sessionId, setTimeout(() => {
+      this.expiryTimers.delete(sessionId);
+      this.history.delete(sessionId);
+      this.configs.delete(sessionId);
+    }, this.resumeTtl));
+  }
+
+  /**
+   * Returns true if context for the session was still held.
+   */
+  resume(sessionId) {
+    this.cancelExpiry(sessionId);
+    return this.history.has(sessionId);
+  }
+
+  cancelExpiry(sessionId) {
+    const timer = this.expiryTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.expiryTimers.delete(sessionId);
+    }
+  }
+
+  formatHistoryForPrompt(sessionId) {
+    const h = this.getHistory(sessionId);
+    if (h.length === 0) return "";
+    return "\n--- Recent Conversation Context ---\n" +
+      h.map(e => `Input: "${e.input}"\nTranslation: "${e.output}"`).join("\n---\n") +
+      "\n----------------------------------\n";
+  }
+}
+
+module.exports = {
+  SessionManager
+};
@@ -0,0 +1,95 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { SessionManager } from './sessions';
+
+const context = { sourceLang: 'Japanese', targetLang: 'English', persona: 'cat' };
+
+describe('SessionManager', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should only let the token holder take up a known session', () => {
+        const sessions = new SessionManager();
+
+        expect(sessions.claim('s1', undefined)).toBe(true);
+        const token = sessions.tokenFor('s1');
+        expect(sessions.tokenFor('s1')).toBe(token);
+
+        expect(sessions.claim('s1', token)).toBe(true);
+        expect(sessions.claim('s1', undefined)).toBe(false);
+        expect(sessions.claim('s1', 'guess')).toBe(false);
+        expect(sessions.claim('s1', sessions.tokenFor('s2'))).toBe(false);
+    });
+
+    it('should free the id of a forgotten session', () => {
+        const sessions = new SessionManager();
+        sessions.tokenFor('placeholder');
+        sessions.addEntry('placeholder', 'a', 'b');
+
+        sessions.forget('placeholder');
+
+        expect(sessions.claim('placeholder', undefined)).toBe(true);
+        expect(sessions.getHistory('placeholder')).toEqual([]);
+    });
+
+    it('should keep only the most recent lines', () => {
+        const sessions = new SessionManager(2);
+        sessions.addEntry('s1', 'one', '1');
+        sessions.addEntry('s1', 'two', '2');
+        sessions.addEntry('s1', 'three', '3');
+
+        expect(sessions.getHistory('s1').map(e => e.input)).toEqual(['two', 'three']);
+        expect(sessions.formatHistoryForPrompt('s1')).toContain('Input: "three"\nTranslation: "3"');
+        expect(sessions.formatHistoryForPrompt('s2')).toBe('');
+    });
+
+    it('should clear the history when the language or persona changes', () => {
+        const sessions = new SessionManager();
+        expect(sessions.configure('s1', context)).toBe(false);
+        sessions.addEntry('s1', 'こんにちは', 'Hello nya');
+
+        // Other fields are not part of the context
+        expect(sessions.configure('s1', { ...context, speakers: ['A', 'B'] })).toBe(false);
+        expect(sessions.getHistory('s1')).toHaveLength(1);
+
+        expect(sessions.configure('s1', { ...context, persona: 'samurai' })).toBe(true);
+        expect(sessions.getHistory('s1')).toEqual([]);
+    });
+
+    it('should merge a config_update and report whether the history was cleared', () => {
+        const sessions = new SessionManager();
+        sessions.configure('s1', context);
+        sessions.addEntry('s1', 'こんにちは', 'Hello nya');
+
+        const same = sessions.reconfigure('s1', context, { persona: 'cat' });
+        expect(same).toEqual({ config: context, historyCleared: false });
+        expect(sessions.getHistory('s1')).toHaveLength(1);
+
+        const switched = sessions.reconfigure('s1', same.config, { targetLang: 'Korean' });
+        expect(switched).toEqual({ config: { ...context, targetLang: 'Korean' }, historyCleared: true });
+        expect(sessions.getHistory('s1')).toEqual([]);
+
+        // Compared with the last update, not the settings the session started with
+        expect(sessions.reconfigure('s1', switched.config, { targetLang: 'Korean' }).historyCleared).toBe(false);
+    });
+
+    it('should hold a suspended session until it expires', () => {
+        vi.useFakeTimers();
+        const sessions = new SessionManager(5, 1000);
+        sessions.configure('s1', context);
+        sessions.addEntry('s1', 'a', 'b');
+        sessions.addEntry('s2', 'c', 'd');
+
+        sessions.suspend('s1');
+        vi.advanceTimersByTime(999);
+        expect(sessions.resume('s1')).toBe(true);
+
+        sessions.suspend('s1');
+        sessions.suspend('s2');
+        vi.advanceTimersByTime(1000);
+        expect(sessions.resume('s1')).toBe(false);
+        expect(sessions.resume('s2')).toBe(false);
+        // The stored context went with the history, so the next settings start afresh
+        expect(sessions.configure('s1', { ...context, persona: 'none' })).toBe(false);
+    });
+});
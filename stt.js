@@ -0,0 +1,303 @@
+/**
+ * Server-side Speech Recognition
+ * For browsers without `SpeechRecognition`, the client streams 16 kHz mono
+ * PCM over the WebSocket and an adapter turns it into the same interim/final
+ * events the browser recognizer produces.
+ *
+ * Adapters:
+ *   whisper - whisper.cpp `server` example (HTTP /inference, one request per utterance)
+ *   vosk    - vosk-server (WebSocket, streams partial results natively)
+ */
+
+const { WebSocket } = require('ws');
+
+const SAMPLE_RATE = 16000;
+
+const whisperLangMap = {
+  'Japanese': 'ja',
+  'English': 'en',
+  'Spanish': 'es',
+  'Chinese': 'zh',
+  'Korean': 'ko',
+  'French': 'fr',
+  'German': 'de'
+};
+
+/**
+ * Client frames are `createPcmBlob` payloads: base64 little-endian int16.
+ */
+const decodePcmFrame = (base64) => {
+  const bytes = Buffer.from(base64, 'base64');
+  return new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.length / 2));
+};
+
+const rms = (samples) => {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i] / 32768;
+    sum += s * s;
+  }
+  return Math.sqrt(sum / samples.length);
+};
+
+const concatPcm = (chunks) => {
+  const total = chunks.reduce((n, c) => n + c.length, 0);
+  const out = new Int16Array(total);
+  let offset = 0;
+  chunks.forEach(c => {
+    out.set(c, offset);
+    offset += c.length;
+  });
+  return out;
+};
+
+function encodeWav(samples, sampleRate = SAMPLE_RATE) {
+  const header = Buffer.alloc(44);
+  const dataSize = samples.length * 2;
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + dataSize, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16); // PCM chunk size
+  header.writeUInt16LE(1, 20); // PCM format
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  header.writeUInt16LE(2, 32); // block align
+  header.writeUInt16LE(16, 34); // bits per sample
+  header.write('data', 36);
+  header.writeUInt32LE(dataSize, 40);
+  return Buffer.concat([header, Buffer.from(samples.buffer, samples.byteOffset, dataSize)]);
+}
+
+/**
+ * Energy-based voice activity detection. Splits the incoming stream into
+ * utterances: speech starts when a frame is louder than `threshold` and ends
+ * after `silenceMs` of quiet (or when it runs longer than `maxUtteranceMs`).
+ */
+class UtteranceSegmenter {
+  constructor({ threshold = 0.01, silenceMs = 700, maxUtteranceMs = 15000, onSpeech = () => {}, onUtterance = () => {} } = {}) {
+    this.threshold = threshold;
+    this.silenceMs = silenceMs;
+    this.maxUtteranceMs = maxUtteranceMs;
+    this.onSpeech = onSpeech;
+    this.onUtterance = onUtterance;
+    this.chunks = [];
+    this.speechSamples = 0;
+    this.silentSamples = 0;
+  }
+
+  get inSpeech() {
+    return this.chunks.length > 0;
+  }
+
+  // Audio so far in the current utterance
+  current() {
+    return concatPcm(this.chunks);
+  }
+
+  write(samples) {
+    const isLoud = rms(samples) >= this.threshold;
+    if (!this.inSpeech && !isLoud) return;
+
+    this.chunks.push(samples);
+    this.speechSamples += samples.length;
+    this.silentSamples = isLoud ? 0 : this.silentSamples + samples.length;
+    this.onSpeech();
+
+    const toMs = (n) => (n / SAMPLE_RATE) * 1000;
+    if (toMs(this.silentSamples) >= this.silenceMs || toMs(this.speechSamples) >= this.maxUtteranceMs) {
+      this.flush();
+    }
+  }
+
+  flush() {
+    if (!this.inSpeech) return;
+    const audio = this.current();
+    this.chunks = [];
+    this.speechSamples = 0;
+    this.silentSamples = 0;
+    this.onUtterance(audio);
+  }
+}
+
+/**
+ * Base class for STT backends. `createStream` returns an object with
+ * `write(int16Samples)` and `end()`; results arrive through the callbacks.
+ */
+class SpeechToTextAdapter {
+  constructor(id, label) {
+    this.id = id;
+    this.label = label;
+  }
+
+  isConfigured() {
+    return true;
+  }
+
+  createStream({ lang, onInterim, onFinal, onError }) {
+    throw new Error(`${this.id}: createStream() not implemented`);
+  }
+
+  describe() {
+    return { id: this.id, label: this.label, configured: this.isConfigured() };
+  }
+}
+
+class WhisperAdapter extends SpeechToTextAdapter {
+  constructor({ url, interimMs = 1500, vad = {} }) {
+    super('whisper', 'whisper.cpp');
+    this.url = url;
+    this.interimMs = interimMs;
+    this.vad = vad;
+  }
+
+  isConfigured() {
+    return !!this.url;
+  }
+
+  async transcribe(samples, lang) {
+    const form = new FormData();
+    form.append('file', new Blob([encodeWav(samples)], { type: 'audio/wav' }), 'audio.wav');
+    form.append('response_format', 'json');
+    if (whisperLangMap[lang]) form.append('language', whisperLangMap[lang]);
+
+    const response = await fetch(this.url, { method: 'POST', body: form });
+    if (!response.ok) {
+      throw new Error(`whisper server HTTP ${response.status}: ${response.statusText}`);
+    }
+    const data = await response.json();
+    return (data.text || '').trim();
+  }
+
+  createStream({ lang, onInterim, onFinal, onError }) {
+    let lastInterimAt = 0;
+    let interimInFlight = false;
+    let closed = false;
+    // Finals are transcribed in order even if a later request would finish first
+    let finalChain = Promise.resolve();
+
+    const segmenter = new UtteranceSegmenter({
+      ...this.vad,
+      // Whisper has no partial results, so re-transcribe the growing utterance now and then
+      onSpeech: () => {
+        const now = Date.now();
+        if (!this.interimMs || interimInFlight || now - lastInterimAt < this.interimMs) return;
+        lastInterimAt = now;
+        interimInFlight = true;
+        this.transcribe(segmenter.current(), lang)
+          .then(text => { if (text && !closed && segmenter.inSpeech) onInterim(text); })
+          .catch(err => console.warn('[STT] whisper interim failed:', err.message))
+          .finally(() => { interimInFlight = false; });
+      },
+      onUtterance: (audio) => {
+        lastInterimAt = Date.now();
+        finalChain = finalChain
+          .then(() => this.transcribe(audio, lang))
+          .then(text => { if (text && !closed) onFinal(text); })
+          .catch(err => onError(err));
+      }
+    });
+
+    return {
+      write: (samples) => segmenter.write(samples),
+      end: () => {
+        segmenter.flush();
+        closed = true;
+      }
+    };
+  }
+}
+
+class VoskAdapter extends SpeechToTextAdapter {
+  constructor({ url }) {
+    super('vosk', 'Vosk');
+    this.url = url;
+  }
+
+  isConfigured() {
+    return !!this.url;
+  }
+
+  // vosk-server loads a single model, so `lang` is decided by how it was started
+  createStream({ onInterim, onFinal, onError }) {
+    const socket = new WebSocket(this.url);
+    const pending = [];
+    let lastPartial = '';
+
+    socket.on('open', () => {
+      socket.send(JSON.stringify({ config: { sample_rate: SAMPLE_RATE } }));
+      pending.splice(0).forEach(buf => socket.send(buf));
+    });
+    socket.on('message', (data) => {
+      try {
+        const result = JSON.parse(data.toString());
+        if (result.partial !== undefined && result.partial !== lastPartial) {
+          lastPartial = result.partial;
+          if (result.partial) onInterim(result.partial);
+        } else if (result.text) {
+          lastPartial = '';
+          onFinal(result.text);
+        }
+      } catch (err) {
+        console.warn('[STT] Unreadable vosk message:', err.message);
+      }
+    });
+    socket.on('error', (err) => onError(err));
+
+    return {
+      write: (samples) => {
+        const buf = Buffer.from(samples.buffer, samples.byteOffset, samples.length * 2);
+        if (socket.readyState === WebSocket.OPEN) socket.send(buf);
+        else if (socket.readyState === WebSocket.CONNECTING) pending.push(buf);
+      },
+      end: () => {
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify({ eof: 1 }));
+          setTimeout(() => socket.close(), 1000);
+        } else {
+          socket.terminate();
+        }
+      }
+    };
+  }
+}
+
+/**
+ * Builds the adapter named by STT_ENGINE, or null when server-side recognition is off.
+ */
+function createSttAdapter(env) {
+  const vad = {
+    threshold: env.STT_VAD_THRESHOLD ? parseFloat(env.STT_VAD_THRESHOLD) : undefined,
+    silenceMs: env.STT_SILENCE_MS ? parseInt(env.STT_SILENCE_MS, 10) : undefined
+  };
+  Object.keys(vad).forEach(key => vad[key] === undefined && delete vad[key]);
+
+  switch ((env.STT_ENGINE || '').toLowerCase()) {
+    case 'whisper':
+      return new WhisperAdapter({
+        url: env.WHISPER_SERVER_URL || 'http://localhost:8080/inference',
+        interimMs: env.WHISPER_INTERIM_MS !== undefined ? parseInt(env.WHISPER_INTERIM_MS, 10) : 1500,
+        vad
+      });
+    case 'vosk':
+      return new VoskAdapter({ url: env.VOSK_SERVER_URL || 'ws://localhost:2700' });
+    case '':
+    case 'none':
+      return null;
+    default:
+      console.warn(`Unknown STT_ENGINE "${env.STT_ENGINE}". Server-side recognition is disabled.`);
+      return null;
+  }
+}
+
+module.exports = {
+  SpeechToTextAdapter,
+  WhisperAdapter,
+  VoskAdapter,
+  UtteranceSegmenter,
+  createSttAdapter,
+  decodePcmFrame,
+  encodeWav
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { UtteranceSegmenter, decodePcmFrame, encodeWav, createSttAdapter } from './stt';
+
+// 100 ms frames at 16 kHz
+const frame = (amplitude: number) => new Int16Array(1600).fill(Math.round(amplitude * 32767));
+
+describe('server-side STT', () => {
+    it('should split speech into utterances on silence', () => {
+        const onUtterance = vi.fn();
+        const segmenter = new UtteranceSegmenter({ threshold: 0.05, silenceMs: 300, onUtterance });
+
+        segmenter.write(frame(0)); // leading silence is dropped
+        segmenter.write(frame(0.5));
+        segmenter.write(frame(0.5));
+        segmenter.write(frame(0));
+        segmenter.write(frame(0));
+        expect(onUtterance).not.toHaveBeenCalled();
+
+        segmenter.write(frame(0));
+        expect(onUtterance).toHaveBeenCalledTimes(1);
+        expect(onUtterance.mock.calls[0][0]).toHaveLength(5 * 1600);
+        expect(segmenter.inSpeech).toBe(false);
+    });
+
+    it('should cut long utterances', () => {
+        const onUtterance = vi.fn();
+        const segmenter = new UtteranceSegmenter({ threshold: 0.05, maxUtteranceMs: 500, onUtterance });
+        for (let i = 0; i < 5; i++) segmenter.write(frame(0.5));
+        expect(onUtterance).toHaveBeenCalledTimes(1);
+    });
+
+    it('should decode client frames and encode WAV', () => {
+        const samples = new Int16Array([0, 1000, -1000, 32767]);
+        const base64 = Buffer.from(samples.buffer).toString('base64');
+        expect(Array.from(decodePcmFrame(base64))).toEqual([0, 1000, -1000, 32767]);
+
+        const wav = encodeWav(samples);
+        expect(wav.length).toBe(44 + 8);
+        expect(wav.toString('ascii', 0, 4)).toBe('RIFF');
+        expect(wav.readUInt32LE(24)).toBe(16000);
+        expect(wav.readInt16LE(46)).toBe(1000);
+    });
+
+    it('should only build an adapter when one is configured', () => {
+        expect(createSttAdapter({})).toBe(null);
+        expect(createSttAdapter({ STT_ENGINE: 'whisper' }).id).toBe('whisper');
+        expect(createSttAdapter({ STT_ENGINE: 'vosk', VOSK_SERVER_URL: 'ws://stt:2700' }).url).toBe('ws://stt:2700');
+    });
+});
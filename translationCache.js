@@ -0,0 +1,139 @@
+/**
+ * Translation Cache
+ * LRU cache with TTL for finished translations. Source text is normalized
+ * (width, whitespace, a closing full stop) so trivially different recognitions
+ * of the same sentence share an entry. Optionally persisted to a JSON file.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+// 2: keys keep case and inner punctuation
+const CACHE_VERSION = 2;
+
+/**
+ * NFKC folds full-width/half-width forms; runs of whitespace and a closing full stop
+ * are dropped. Everything else can change the translation ("?" makes a question,
+ * "US" is not "us"), so it stays in the key.
+ */
+const normalizeText = (text) => (text || '')
+  .normalize('NFKC')
+  .replace(/\s+/g, ' ')
+  .replace(/[\s。.]+$/u, '')
+  .trim();
+
+const hashContext = (context) => context
+  ? crypto.createHash('sha256').update(context).digest('hex').slice(0, 16)
+  : '';
+
+class TranslationCache {
+  constructor({ maxSize = 500, ttl = 6 * 60 * 60 * 1000, filePath = null, saveDelay = 5000 } = {}) {
+    this.cache = new Map(); // key -> { value, expiresAt }
+    this.maxSize = maxSize;
+    this.ttl = ttl;
+    this.filePath = filePath;
+    this.saveDelay = saveDelay;
+    this.saveTimer = null;
+    this.stats = { hits: 0, misses: 0, evictions: 0 };
+
+    if (filePath) this.load();
+  }
+
+  /**
+   * `context` separates persona translations made with different conversation history.
+   */
+  getKey(text, sourceLang, targetLang, persona, context) {
+    return `${normalizeText(text)}|${sourceLang}|${targetLang}|${persona || 'none'}|${hashContext(context)}`;
+  }
+
+  get(text, sourceLang, targetLang, persona, context) {
+    const key = this.getKey(text, sourceLang, targetLang, persona, context);
+    const entry = this.cache.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.cache.delete(key);
+      this.stats.misses++;
+      return undefined;
+    }
+
+    // Move to the most-recently-used end
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    this.stats.hits++;
+    return entry.value;
+  }
+
+  set(text, sourceLang, targetLang, persona, context, result) {
+    const key = this.getKey(text, sourceLang, targetLang, persona, context);
+    this.cache.delete(key);
+
+    while (this.cache.size >= this.maxSize) {
+      const oldestKey = this.cache.keys().next().value;
+      this.cache.delete(oldestKey);
+      this.stats.evictions++;
+    }
+
+    this.cache.set(key, { value: result, expiresAt: Date.now() + this.ttl });
+    this.scheduleSave();
+  }
+
+  getStats() {
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      ...this.stats,
+      size: this.cache.size,
+      maxSize: this.maxSize,
+      ttl: this.ttl,
+      hitRate: lookups > 0 ? this.stats.hits / lookups : 0,
+      persistent: !!this.filePath
+    };
+  }
+
+  load() {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      if (data.version !== CACHE_VERSION || !Array.isArray(data.entries)) return;
+      const now = Date.now();
+      // Entries are saved oldest-first, so re-inserting restores LRU order
+      data.entries
+        .filter(([, entry]) => entry && entry.expiresAt > now)
+        .slice(-this.maxSize)
+        .forEach(([key, entry]) => this.cache.set(key, entry));
+      console.log(`Translation cache: loaded ${this.cache.size} entries from ${this.filePath}`);
+    } catch (err) {
+      if (err.code !== 'ENOENT') {
+        console.error(`Failed to read translation cache ${this.filePath}:`, err.message);
+      }
+    }
+  }
+
+  scheduleSave() {
+    if (!this.filePath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, this.saveDelay);
+  }
+
+  flush() {
+    if (!this.filePath) return;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify({ version: CACHE_VERSION, entries: [...this.cache.entries()] }));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (err) {
+      console.error(`Failed to write translation cache ${this.filePath}:`, err.message);
+    }
+  }
+}
+
+module.exports = {
+  TranslationCache,
+  normalizeText
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { TranslationCache, normalizeText } from './translationCache';
+
+describe('TranslationCache', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should normalize width, whitespace and a closing full stop', () => {
+        expect(normalizeText('こんにちは。')).toBe(normalizeText('こんにちは'));
+        expect(normalizeText(' Ｈｅｌｌｏ　 world． ')).toBe('Hello world');
+    });
+
+    it('should keep questions, case and inner punctuation apart', () => {
+        expect(normalizeText('行きますか？')).toBe('行きますか?');
+        expect(normalizeText('行きますか？')).not.toBe(normalizeText('行きますか。'));
+        expect(normalizeText('US')).not.toBe(normalizeText('us'));
+        expect(normalizeText("let's eat, grandma")).not.toBe(normalizeText("let's eat grandma"));
+    });
+
+    it('should hit for trivially different recognitions of the same sentence', () => {
+        const cache = new TranslationCache();
+        cache.set('こんにちは', 'Japanese', 'English', 'none', '', 'Hello');
+
+        expect(cache.get('こんにちは。', 'Japanese', 'English', 'none', '')).toBe('Hello');
+        expect(cache.get('こんにちは', 'Japanese', 'Korean', 'none', '')).toBeUndefined();
+        expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, size: 1 });
+    });
+
+    it('should evict the least recently used entry', () => {
+        const cache = new TranslationCache({ maxSize: 2 });
+        cache.set('a', 'en', 'ja', 'none', '', 'A');
+        cache.set('b', 'en', 'ja', 'none', '', 'B');
+        cache.get('a', 'en', 'ja', 'none', '');
+        cache.set('c', 'en', 'ja', 'none', '', 'C');
+
+        expect(cache.get('a', 'en', 'ja', 'none', '')).toBe('A');
+        expect(cache.get('b', 'en', 'ja', 'none', '')).toBeUndefined();
+        expect(cache.getStats().evictions).toBe(1);
+    });
+
+    it('should expire entries after the TTL', () => {
+        vi.useFakeTimers();
+        const cache = new TranslationCache({ ttl: 1000 });
+        cache.set('a', 'en', 'ja', 'none', '', 'A');
+
+        vi.advanceTimersByTime(1001);
+        expect(cache.get('a', 'en', 'ja', 'none', '')).toBeUndefined();
+    });
+
+    it('should keep persona translations apart per conversation context', () => {
+        const cache = new TranslationCache();
+        cache.set('Thank you.', 'English', 'Japanese', 'tsundere', '', 'べ、別に…');
+
+        expect(cache.get('Thank you.', 'English', 'Japanese', 'tsundere', '')).toBe('べ、別に…');
+        expect(cache.get('Thank you.', 'English', 'Japanese', 'tsundere', 'Input: "Hi"')).toBeUndefined();
+    });
+});
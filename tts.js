@@ -0,0 +1,119 @@
+/**
+ * Server-side Speech Synthesis
+ * Turns translated text into 16-bit mono PCM that the client plays through
+ * `decodeAudioData`. Used when the browser's `speechSynthesis` has no
+ * (or no decent) voice for the target language.
+ *
+ * Adapters:
+ *   gemini - Gemini TTS model, sharing the translation key pool
+ */
+
+// Prebuilt Gemini voices offered in the voice picker
+const GEMINI_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+const DEFAULT_VOICE = 'Kore';
+
+// The voice picked for the language, else the persona file's `voice`
+const resolveVoice = (voice, personaVoice) =>
+  [voice, personaVoice].find(name => name && GEMINI_VOICES.includes(name)) || DEFAULT_VOICE;
+
+/**
+ * Base class for TTS backends. `synthesize` resolves to `{ data, sampleRate }`
+ * where `data` is base64 little-endian int16 PCM.
+ */
+class TextToSpeechAdapter {
+  constructor(id, label, voices = []) {
+    this.id = id;
+    this.label = label;
+    this.voices = voices;
+  }
+
+  isConfigured() {
+    return true;
+  }
+
+  async synthesize(text, { lang, persona, voice }) {
+    throw new Error(`${this.id}: synthesize() not implemented`);
+  }
+
+  describe() {
+    return { id: this.id, label: this.label, configured: this.isConfigured(), voices: this.voices };
+  }
+}
+
+class GeminiTtsAdapter extends TextToSpeechAdapter {
+  constructor({ keyPool, model = 'gemini-2.5-flash-preview-tts' }) {
+    super('gemini', 'Gemini TTS', GEMINI_VOICES);
+    this.keyPool = keyPool;
+    this.model = model;
+  }
+
+  isConfigured() {
+    return this.keyPool.hasKeys();
+  }
+
+  // `persona` is the persona's profile (or null), not its id
+  async synthesize(text, { persona, voice }) {
+    let keyItem = this.keyPool.getAvailableKey();
+    if (!keyItem) {
+      throw new Error('No available API keys');
+    }
+
+    // Speech counts against the same per-key limits as translations
+    while (keyItem) {
+      try {
+        const response = await keyItem.client.models.generateContent({
+          model: this.model,
+          contents: [{ parts: [{ text }] }],
+          config: {
+            responseModalities: ['AUDIO'],
+            speechConfig: {
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: resolveVoice(voice, persona?.voice) } }
+            }
+          }
+        });
+        keyItem.limiter.record();
+        this.keyPool.reportSuccess(keyItem);
+
+        const audio = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData)?.inlineData;
+        if (!audio?.data) {
+          throw new Error('Gemini TTS returned no audio');
+        }
+        // mimeType looks like "audio/L16;codec=pcm;rate=24000"
+        const rate = /rate=(\d+)/.exec(audio.mimeType || '');
+        return { data: audio.data, sampleRate: rate ? parseInt(rate[1], 10) : 24000 };
+      } catch (apiError) {
+        const failure = this.keyPool.reportFailure(keyItem, apiError);
+        if (failure.kind === 'other') {
+          throw apiError;
+        }
+        keyItem = this.keyPool.getAvailableKey();
+      }
+    }
+    throw new Error('All keys rate limited');
+  }
+}
+
+/**
+ * Builds the adapter named by TTS_ENGINE, or null when server-side speech is off.
+ */
+function createTtsAdapter(env, { keyPool }) {
+  switch ((env.TTS_ENGINE || '').toLowerCase()) {
+    case 'gemini':
+      return new GeminiTtsAdapter({ keyPool, model: env.TTS_MODEL || undefined });
+    case '':
+    case 'none':
+      return null;
+    default:
+      console.warn(`Unknown TTS_ENGINE "${env.TTS_ENGINE}". Server-side speech is disabled.`);
+      return null;
+  }
+}
+
+module.exports = {
+  TextToSpeechAdapter,
+  GeminiTtsAdapter,
+  createTtsAdapter,
+  resolveVoice,
+  GEMINI_VOICES
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GeminiTtsAdapter, createTtsAdapter, resolveVoice } from './tts';
+
+const fakeKeyPool = (generateContent: (...args: any[]) => Promise<any>) => {
+    const item = { index: 0, client: { models: { generateContent } }, limiter: { record: vi.fn() } };
+    return {
+        hasKeys: () => true,
+        getAvailableKey: vi.fn(() => item),
+        reportSuccess: vi.fn(),
+        reportFailure: vi.fn(() => ({ kind: 'other' }))
+    };
+};
+
+describe('server-side TTS', () => {
+    it('should pick the requested voice, then the persona\'s voice', () => {
+        expect(resolveVoice('Puck', 'Charon')).toBe('Puck');
+        expect(resolveVoice(undefined, 'Charon')).toBe('Charon');
+        expect(resolveVoice('NotAVoice', undefined)).toBe('Kore');
+    });
+
+    it('should return the PCM payload and its sample rate', async () => {
+        const generateContent = vi.fn().mockResolvedValue({
+            candidates: [{ content: { parts: [{ inlineData: { data: 'AAAA', mimeType: 'audio/L16;codec=pcm;rate=24000' } }] } }]
+        });
+        const adapter = new GeminiTtsAdapter({ keyPool: fakeKeyPool(generateContent) as any });
+
+        await expect(adapter.synthesize('Hello', { persona: { voice: 'Puck' }, voice: undefined })).resolves.toEqual({ data: 'AAAA', sampleRate: 24000 });
+        expect(generateContent.mock.calls[0][0].config.speechConfig.voiceConfig.prebuiltVoiceConfig.voiceName).toBe('Puck');
+    });
+
+    it('should only build an adapter when one is configured', () => {
+        const keyPool = fakeKeyPool(vi.fn());
+        expect(createTtsAdapter({}, { keyPool })).toBe(null);
+        expect(createTtsAdapter({ TTS_ENGINE: 'gemini' }, { keyPool })?.id).toBe('gemini');
+    });
+});
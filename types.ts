@@ -2,7 +2,11 @@ export enum BackgroundMode {
   NORMAL = 'normal',
   GREEN = 'green',
   BLUE = 'blue',
-  MAGENTA = 'magenta'
+  MAGENTA = 'magenta',
+  // Any chroma key color, taken from the subtitle theme
+  CUSTOM = 'custom',
+  // OBS browser source overlay: the page itself is see-through
+  TRANSPARENT = 'transparent'
 }
 
 export enum TextStyle {
@@ -11,12 +15,74 @@ export enum TextStyle {
   BOX = 'box'
 }
 
-export enum Persona {
+export enum SubtitlePosition {
+  TOP = 'top',
+  BOTTOM = 'bottom',
+  LOWER_THIRD = 'lower_third'
+}
+
+export enum SubtitleAlign {
+  LEFT = 'left',
+  CENTER = 'center',
+  RIGHT = 'right'
+}
+
+// How a line enters; fade and slide also play in reverse when it leaves
+export enum SubtitleAnimation {
   NONE = 'none',
-  SAMURAI = 'samurai',
-  TSUNDERE = 'tsundere',
-  CAT = 'cat',
-  BUTLER = 'butler'
+  FADE = 'fade',
+  TYPEWRITER = 'typewriter',
+  SLIDE = 'slide'
+}
+
+export enum DisplayMode {
+  SINGLE = 'single',
+  LOG = 'log'
+}
+
+// Two-way conversation: speaker A talks in sourceLang, speaker B in targetLang
+export enum ConversationMode {
+  OFF = 'off',
+  AUTO = 'auto',
+  PUSH_TO_TALK = 'push-to-talk'
+}
+
+export type Speaker = 'A' | 'B';
+
+// Where speech is turned into text: the browser's Web Speech API or the server's STT adapter
+export enum RecognitionSource {
+  BROWSER = 'browser',
+  SERVER = 'server'
+}
+
+// Where translations are read aloud: the browser's speechSynthesis or the server's TTS adapter
+export enum TtsSource {
+  BROWSER = 'browser',
+  SERVER = 'server'
+}
+
+// Every other persona is a file on the server (personas/*.json), listed when connecting
+export enum Persona {
+  NONE = 'none'
+}
+
+export interface PersonaExample {
+  input: string;
+  output: string;
+}
+
+export interface PersonaProfile {
+  id: string;
+  name: string;
+  // Short name for the persona buttons
+  label?: string;
+  description: string;
+  rules: string[];
+  examples: PersonaExample[];
+  // Server speech voice (a Gemini voice name) and browser speech style
+  voice?: string;
+  pitch?: number;
+  rate?: number;
 }
 
 export enum FontFamily {
@@ -32,13 +98,179 @@ export enum FontFamily {
 export interface TranslationConfig {
   sourceLang: string;
   targetLang: string;
-  persona: Persona;
+  // Shown as additional, smaller subtitle lines under the main translation
+  extraTargetLangs: string[];
+  persona: string;
+  conversationMode: ConversationMode;
+  recognitionSource: RecognitionSource;
+}
+
+export interface TranscriptEntry {
+  id: string;
+  // Epoch ms: first interim result, final recognition result, and translation received
+  startedAt: number;
+  finalizedAt: number;
+  translatedAt: number | null;
+  sourceText: string;
+  translation: string | null;
+  // Keyed by target language
+  extraTranslations: Record<string, string>;
+  engine: string | null;
+  persona: string;
+  // Set in conversation mode
+  speaker: Speaker | null;
+  sourceLang: string;
+  targetLang: string;
+  latencyMs: number | null;
 }
 
+export interface ExtraSubtitle {
+  lang: string;
+  text: string;
+}
+
+export type TranscriptFormat = 'srt' | 'vtt' | 'txt' | 'json';
+
 export interface LiveState {
   isConnected: boolean;
   isConnecting: boolean;
   error: string | null;
   currentText: string;
-  history: string[];
-}
\ No newline at end of file
+  history: TranscriptEntry[];
+}
+export interface KeyHealth {
+  index: number;
+  hint: string;
+  state: 'ok' | 'limited' | 'cooldown' | 'disabled';
+  minuteRemaining: number;
+  dayRemaining: number;
+  cooldownIn: number;
+  authFailures: number;
+  lastError: string | null;
+}
+
+export interface QuotaStatus {
+  limited: boolean;
+  isDailyLimit?: boolean;
+  minuteRemaining?: number;
+  dayRemaining?: number;
+  minuteUsed?: number;
+  dayUsed?: number;
+  keyCount?: number;
+  effectiveRpm?: number;
+  effectiveRpd?: number;
+  limitedUntil?: number | null;
+  message?: string;
+  strategy?: string;
+  keys?: KeyHealth[];
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+  maxSize: number;
+  hitRate: number;
+  persistent: boolean;
+}
+
+// Display settings the controller pushes to its OBS overlays
+export interface SubtitleTheme {
+  textColor: string;
+  // Empty: follows the background (grey on the dark one, white on chroma colors)
+  sourceColor: string;
+  // Outline thickness in px for the outline style; 0 turns it off
+  strokeWidth: number;
+  // Font sizes in px; the chat log shows them smaller
+  translationSize: number;
+  sourceSize: number;
+  extraSize: number;
+  align: SubtitleAlign;
+  position: SubtitlePosition;
+  // Percent of the screen width
+  maxWidth: number;
+  // Background for BackgroundMode.CUSTOM
+  chromaColor: string;
+  animation: SubtitleAnimation;
+}
+
+export interface OverlaySettings {
+  textStyle: TextStyle;
+  outlineColor: string;
+  sourceFont: FontFamily;
+  targetFont: FontFamily;
+  displayMode: DisplayMode;
+  logLines: number;
+  maxAgeSeconds: number;
+  // Missing from controllers that predate theming
+  theme?: SubtitleTheme;
+}
+
+// Everything on the control panel that is kept across reloads and saved in presets
+export interface AppSettings extends OverlaySettings {
+  theme: SubtitleTheme;
+  bgMode: BackgroundMode;
+  config: TranslationConfig;
+  isRawMode: boolean;
+  playAudio: boolean;
+  ttsSource: TtsSource;
+  // Keyed by language, or by "persona:language" for a persona's own voice (see voiceKey)
+  ttsVoices: Record<string, string>;
+}
+
+export interface SettingsPreset {
+  name: string;
+  settings: AppSettings;
+}
+
+export interface SpeechSettings {
+  enabled: boolean;
+  source: TtsSource;
+  // Chosen voice per target language: a speechSynthesis voiceURI, or a server voice name
+  voices: Record<string, string>;
+}
+
+export interface GlossaryEntry {
+  source: string;
+  target: string;
+}
+
+// Server-side terminology: term lists keyed by "sourceLang>targetLang", plus names never to translate
+export interface Glossary {
+  pairs: Record<string, GlossaryEntry[]>;
+  doNotTranslate: string[];
+}
+
+export interface GlossaryUpdate {
+  sourceLang?: string;
+  targetLang?: string;
+  entries?: GlossaryEntry[];
+  doNotTranslate?: string[];
+}
+
+export type ModerationPolicy = 'mask' | 'replace' | 'drop' | 'off';
+
+// The server's content filter. Only the server filters; the words themselves are not sent
+export interface ModerationSettings {
+  policy: ModerationPolicy;
+  // Languages with a word list; "all" applies to every language
+  lists: string[];
+}
+
+export interface RoomStatus {
+  room: string;
+  speakers: number;
+  viewers: number;
+  languages: string[];
+}
+
+export interface RoomLine {
+  id: string;
+  sourceText: string;
+  sourceLang: string;
+  translation: string | null;
+  targetLang: string | null;
+  speaker: Speaker | null;
+  receivedAt: number;
+}
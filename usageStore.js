@@ -0,0 +1,116 @@
+/**
+ * Persistent API Key Usage Store
+ * Saves each Gemini key's request timestamps and exhaustion state to a JSON
+ * file so daily quotas survive server restarts and redeploys.
+ *
+ * Keys are stored under a short SHA-256 id, never in plain text.
+ *
+ * Reset a key by hand (stop the server first, it rewrites the file on exit):
+ *   node usageStore.js reset <#n | id | all> [path]
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const STORE_VERSION = 1;
+const DEFAULT_STORE_PATH = path.join(__dirname, 'data', 'key-usage.json');
+
+const keyId = (key) => crypto.createHash('sha256').update(key).digest('hex').slice(0, 12);
+
+class UsageStore {
+  constructor(filePath = DEFAULT_STORE_PATH, { saveDelay = 1000 } = {}) {
+    this.filePath = filePath;
+    this.saveDelay = saveDelay;
+    this.saveTimer = null;
+    this.entries = this.load();
+  }
+
+  load() {
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      if (data.version !== STORE_VERSION || !data.keys) {
+        console.warn(`Usage store ${this.filePath} has an unknown format. Starting fresh.`);
+        return {};
+      }
+      return data.keys;
+    } catch (err) {
+      if (err.code !== 'ENOENT') {
+        console.error(`Failed to read usage store ${this.filePath}:`, err.message);
+      }
+      return {};
+    }
+  }
+
+  get(id) {
+    return this.entries[id] || null;
+  }
+
+  set(id, entry) {
+    this.entries[id] = entry;
+    this.scheduleSave();
+  }
+
+  scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, this.saveDelay);
+  }
+
+  /**
+   * Writes synchronously (write + rename) so it is safe to call from exit handlers.
+   */
+  flush() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify({ version: STORE_VERSION, keys: this.entries }, null, 2));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (err) {
+      console.error(`Failed to write usage store ${this.filePath}:`, err.message);
+    }
+  }
+
+  /**
+   * Clears usage for "#2" (key number as shown in the logs), a key id, or "all".
+   * Returns the ids that were reset.
+   */
+  reset(selector) {
+    const ids = Object.keys(this.entries).filter(id =>
+      selector === 'all' || id === selector || `#${this.entries[id].index + 1}` === selector
+    );
+    ids.forEach(id => {
+      this.entries[id] = { ...this.entries[id], requests: [], exhaustedUntil: 0, disabled: false, authFailures: 0 };
+    });
+    if (ids.length > 0) this.flush();
+    return ids;
+  }
+}
+
+module.exports = {
+  UsageStore,
+  keyId,
+  DEFAULT_STORE_PATH
+};
+
+if (require.main === module) {
+  require('dotenv').config();
+  const [command, selector, filePath] = process.argv.slice(2);
+  if (command !== 'reset' || !selector) {
+    console.log('Usage: node usageStore.js reset <#n | id | all> [path]');
+    process.exit(1);
+  }
+  const store = new UsageStore(filePath || process.env.USAGE_STORE_PATH || DEFAULT_STORE_PATH);
+  const ids = store.reset(selector);
+  if (ids.length === 0) {
+    console.log(`No stored key matches "${selector}".`);
+    process.exit(1);
+  }
+  ids.forEach(id => console.log(`Reset usage for Key #${store.get(id).index + 1} (${id})`));
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { UsageStore, keyId } from './usageStore';
+
+describe('UsageStore', () => {
+    let tmpDir: string;
+
+    const storePath = () => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-'));
+        return path.join(tmpDir, 'nested', 'key-usage.json');
+    };
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('should debounce saves and reload them in a new store', () => {
+        vi.useFakeTimers();
+        const filePath = storePath();
+        const store = new UsageStore(filePath, { saveDelay: 500 });
+        store.set('abc', { index: 0, requests: [1, 2], exhaustedUntil: 0 });
+        store.set('def', { index: 1, requests: [3], exhaustedUntil: 0 });
+
+        expect(fs.existsSync(filePath)).toBe(false);
+        vi.advanceTimersByTime(500);
+
+        expect(new UsageStore(filePath).get('abc')).toEqual({ index: 0, requests: [1, 2], exhaustedUntil: 0 });
+        expect(new UsageStore(filePath).get('def').requests).toEqual([3]);
+    });
+
+    it('should write immediately on flush', () => {
+        const filePath = storePath();
+        const store = new UsageStore(filePath);
+        store.set('abc', { index: 0, requests: [1] });
+        store.flush();
+
+        expect(JSON.parse(fs.readFileSync(filePath, 'utf8'))).toEqual({ version: 1, keys: { abc: { index: 0, requests: [1] } } });
+        expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+    });
+
+    it('should start fresh from an unknown format', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const filePath = storePath();
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify({ version: 99, keys: { abc: {} } }));
+
+        expect(new UsageStore(filePath).get('abc')).toBeNull();
+    });
+
+    it('should reset keys by number, id or all', () => {
+        const store = new UsageStore(storePath());
+        store.set('abc', { index: 0, requests: [1], exhaustedUntil: 5, disabled: true, authFailures: 3 });
+        store.set('def', { index: 1, requests: [2], exhaustedUntil: 0, disabled: false, authFailures: 0 });
+
+        expect(store.reset('#1')).toEqual(['abc']);
+        expect(store.get('abc')).toMatchObject({ requests: [], exhaustedUntil: 0, disabled: false, authFailures: 0 });
+        expect(store.reset('def')).toEqual(['def']);
+        expect(store.reset('all')).toEqual(['abc', 'def']);
+        expect(store.reset('#9')).toEqual([]);
+    });
+
+    it('should derive short stable ids from keys', () => {
+        expect(keyId('secret-key')).toBe(keyId('secret-key'));
+        expect(keyId('secret-key')).toHaveLength(12);
+        expect(keyId('secret-key')).not.toContain('secret');
+    });
+});
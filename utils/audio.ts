@@ -12,6 +12,22 @@ export function createPcmBlob(data: Float32Array): Blob {
   };
 }
 
+// Averages input samples into 16 kHz frames; mic streams usually run at 44.1 or 48 kHz
+export function downsampleTo16k(data: Float32Array, inputRate: number): Float32Array {
+  if (inputRate === 16000) return data;
+  const ratio = inputRate / 16000;
+  const length = Math.floor(data.length / ratio);
+  const out = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(Math.floor((i + 1) * ratio), data.length);
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += data[j];
+    out[i] = end > start ? sum / (end - start) : 0;
+  }
+  return out;
+}
+
 export function encode(bytes: Uint8Array): string {
   let binary = '';
   const len = bytes.byteLength;
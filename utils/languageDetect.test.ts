@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage } from './languageDetect';
+
+describe('detectLanguage', () => {
+    it('should tell scripts apart', () => {
+        expect(detectLanguage('今日はいい天気ですね', ['Japanese', 'English'])).toBe('Japanese');
+        expect(detectLanguage('Nice weather today', ['Japanese', 'English'])).toBe('English');
+        expect(detectLanguage('안녕하세요', ['Korean', 'English'])).toBe('Korean');
+        expect(detectLanguage('今天天气很好', ['Japanese', 'Chinese'])).toBe('Chinese');
+    });
+
+    it('should use common words between Latin-script languages', () => {
+        expect(detectLanguage('¿Qué es esto? Es una prueba para el sistema', ['English', 'Spanish'])).toBe('Spanish');
+        expect(detectLanguage('What is this? It is a test of the system', ['English', 'Spanish'])).toBe('English');
+    });
+
+    it('should return null when nothing matches', () => {
+        expect(detectLanguage('1234 !!', ['Japanese', 'English'])).toBe(null);
+    });
+});
@@ -0,0 +1,56 @@
+// Script-based detection works for pairs like Japanese/English; Latin-script
+// languages are told apart by their most common short words.
+const SCRIPT_PATTERNS: Record<string, RegExp> = {
+  Japanese: /[぀-ヿ]/g,
+  Korean: /[가-힯ᄀ-ᇿ]/g,
+  Chinese: /[一-鿿]/g,
+};
+
+const LATIN_PATTERN = /[a-zA-ZÀ-ɏ]/g;
+
+const STOPWORDS: Record<string, string[]> = {
+  English: ['the', 'and', 'is', 'are', 'you', 'i', 'it', 'to', 'of', 'what', 'this', 'that', 'do', 'how'],
+  Spanish: ['el', 'la', 'que', 'de', 'y', 'es', 'en', 'los', 'por', 'qué', 'cómo', 'una', 'para'],
+  French: ['le', 'la', 'et', 'est', 'que', 'les', 'des', 'je', 'vous', 'une', 'pas', 'ce', 'qui'],
+  German: ['der', 'die', 'und', 'ist', 'das', 'ich', 'nicht', 'sie', 'es', 'ein', 'wie', 'was', 'zu'],
+};
+
+const countMatches = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+/**
+ * Picks which of the candidate languages `text` is most likely written in.
+ * Returns null when nothing points either way.
+ */
+export function detectLanguage(text: string, candidates: string[]): string | null {
+  const scores = new Map<string, number>();
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  const kana = countMatches(text, SCRIPT_PATTERNS.Japanese);
+
+  candidates.forEach(lang => {
+    let score = 0;
+    if (lang === 'Japanese') {
+      // Kanji alone could be Chinese, so they only count once kana show up
+      score = kana > 0 ? kana + countMatches(text, SCRIPT_PATTERNS.Chinese) : 0;
+    } else if (lang === 'Chinese') {
+      score = kana > 0 ? 0 : countMatches(text, SCRIPT_PATTERNS.Chinese);
+    } else if (SCRIPT_PATTERNS[lang]) {
+      score = countMatches(text, SCRIPT_PATTERNS[lang]);
+    } else {
+      // Latin script: letters make it a candidate, stopwords break ties between Latin languages
+      const stopwords = STOPWORDS[lang] || [];
+      const letters = countMatches(text, LATIN_PATTERN);
+      score = letters > 0 ? letters / 100 + words.filter(w => stopwords.includes(w)).length : 0;
+    }
+    scores.set(lang, score);
+  });
+
+  let best: string | null = null;
+  let bestScore = 0;
+  scores.forEach((score, lang) => {
+    if (score > bestScore) {
+      best = lang;
+      bestScore = score;
+    }
+  });
+  return best;
+}
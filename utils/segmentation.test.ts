@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { splitSentences, FinalSegmenter } from './segmentation';
+
+describe('splitSentences', () => {
+    it('should keep short finals whole', () => {
+        expect(splitSentences('Hello there. How are you?', 'English')).toEqual(['Hello there. How are you?']);
+        expect(splitSentences('  ', 'English')).toEqual([]);
+    });
+
+    it('should split long Japanese at 。 and 、', () => {
+        expect(splitSentences('今日は配信に来てくれてありがとう。今日はゲームをやります、まずはマリオから始めて、そのあとでゼルダもやる予定なので最後まで見てね！', 'Japanese')).toEqual([
+            '今日は配信に来てくれてありがとう。',
+            '今日はゲームをやります、まずはマリオから始めて、',
+            'そのあとでゼルダもやる予定なので最後まで見てね！'
+        ]);
+    });
+
+    it('should split unpunctuated Japanese after polite endings only', () => {
+        expect(splitSentences('今日はいい天気ですね散歩に行きましょうか公園には桜が咲いていますから写真も撮れますよねでも人が多いかもしれません', 'Japanese')).toEqual([
+            '今日はいい天気ですね散歩に行きましょうか',
+            '公園には桜が咲いていますから写真も撮れますよねでも人が多いかもしれません'
+        ]);
+    });
+
+    it('should split long English at sentences, then every 20 words', () => {
+        const runOn = 'so I was thinking that we could go to the park today and then maybe grab some lunch after that if you are hungry or we could just stay home';
+        const segments = splitSentences(`Okay. ${runOn}`, 'English');
+        expect(segments).toHaveLength(3);
+        expect(segments[0]).toBe('Okay.');
+        expect(segments.join(' ')).toBe(`Okay. ${runOn}`);
+    });
+});
+
+describe('FinalSegmenter', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should merge a fragment with the next final', () => {
+        vi.useFakeTimers();
+        const onSegment = vi.fn();
+        const segmenter = new FinalSegmenter(onSegment);
+
+        segmenter.push('So', 'English', 100);
+        expect(onSegment).not.toHaveBeenCalled();
+        segmenter.push('what are we playing today', 'English', 200);
+        expect(onSegment).toHaveBeenCalledWith('So what are we playing today', 100);
+    });
+
+    it('should translate a lone fragment after the merge window', () => {
+        vi.useFakeTimers();
+        const onSegment = vi.fn();
+        const segmenter = new FinalSegmenter(onSegment);
+
+        segmenter.push('はい', 'Japanese', 100);
+        vi.advanceTimersByTime(1200);
+        expect(onSegment).toHaveBeenCalledWith('はい', 100);
+
+        // A fragment in another language is not merged across speakers
+        segmenter.push('yes', 'English', 300);
+        segmenter.push('はい、そうです', 'Japanese', 400);
+        expect(onSegment.mock.calls.slice(1)).toEqual([['yes', 300], ['はい、そうです', 400]]);
+    });
+});
@@ -0,0 +1,151 @@
+// Languages written without spaces are measured in characters, the rest in words
+const CHARACTER_LANGS = new Set(['Japanese', 'Chinese']);
+
+// Longer segments are split further (characters / words)
+const MAX_SEGMENT_CHARS = 40;
+const MAX_SEGMENT_WORDS = 20;
+
+// Shorter finals are held back briefly so they can be merged with the next one
+const MIN_FRAGMENT_CHARS = 4;
+const MIN_FRAGMENT_WORDS = 3;
+
+// How long a fragment waits for the next final before it is translated on its own
+const MERGE_WINDOW_MS = 1200;
+
+const SENTENCE_END_CHARS = /(?<=[。．！？!?])/;
+const SENTENCE_END_WORDS = /(?<=[.!?])\s+/;
+const CLAUSE_END_CHARS = /(?<=[、，,;；])/;
+const CLAUSE_END_WORDS = /(?<=[,;:])\s+/;
+
+// Japanese recognizers often leave out 。, so polite sentence endings count as boundaries
+// unless a conjunction or particle continues the sentence (ですが, ますので, ですから...)
+const JAPANESE_SENTENCE_END = /(?<=(?:ます|です|ました|でした|ません|ましょう)(?:よね|ね|よ|か)?)(?![がけしのかよねなもとら、。！？!?]|$)/;
+
+const usesCharacters = (lang: string) => CHARACTER_LANGS.has(lang);
+
+const measure = (text: string, lang: string) => usesCharacters(lang)
+  ? Array.from(text.replace(/\s+/g, '')).length
+  : text.split(/\s+/).filter(Boolean).length;
+
+const joinSegments = (a: string, b: string, lang: string) => usesCharacters(lang) ? `${a}${b}` : `${a} ${b}`;
+
+const splitBy = (text: string, pattern: RegExp) => text.split(pattern).map(part => part.trim()).filter(Boolean);
+
+/**
+ * Joins neighbouring pieces as long as the result stays within `max`.
+ */
+const pack = (pieces: string[], lang: string, max: number) => pieces.reduce<string[]>((segments, piece) => {
+  const last = segments[segments.length - 1];
+  if (last !== undefined && measure(joinSegments(last, piece, lang), lang) <= max) {
+    segments[segments.length - 1] = joinSegments(last, piece, lang);
+  } else {
+    segments.push(piece);
+  }
+  return segments;
+}, []);
+
+// Last resort for text without any punctuation: cut every `max` words / characters
+const hardSplit = (text: string, lang: string, max: number) => {
+  const units = usesCharacters(lang) ? Array.from(text) : text.split(/\s+/).filter(Boolean);
+  const parts: string[] = [];
+  for (let i = 0; i < units.length; i += max) {
+    parts.push(units.slice(i, i + max).join(usesCharacters(lang) ? '' : ' '));
+  }
+  return parts;
+};
+
+/**
+ * Splits a recognized final into segments of a translatable size: at sentence ends
+ * first, then at clause boundaries (、 / commas), and only then mid-sentence.
+ * Short sentences stay together.
+ */
+export function splitSentences(text: string, lang: string): string[] {
+  const max = usesCharacters(lang) ? MAX_SEGMENT_CHARS : MAX_SEGMENT_WORDS;
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (measure(trimmed, lang) <= max) return [trimmed];
+
+  const sentences = splitBy(trimmed, usesCharacters(lang) ? SENTENCE_END_CHARS : SENTENCE_END_WORDS)
+    .flatMap(sentence => lang === 'Japanese' && measure(sentence, lang) > max
+      ? splitBy(sentence, JAPANESE_SENTENCE_END)
+      : [sentence]);
+
+  const pieces = sentences.flatMap(sentence => {
+    if (measure(sentence, lang) <= max) return [sentence];
+    const clauses = pack(splitBy(sentence, usesCharacters(lang) ? CLAUSE_END_CHARS : CLAUSE_END_WORDS), lang, max);
+    return clauses.flatMap(clause => measure(clause, lang) <= max ? [clause] : hardSplit(clause, lang, max));
+  });
+
+  return pack(pieces, lang, max);
+}
+
+export const isFragment = (text: string, lang: string) =>
+  measure(text, lang) < (usesCharacters(lang) ? MIN_FRAGMENT_CHARS : MIN_FRAGMENT_WORDS);
+
+interface PendingFragment {
+  text: string;
+  lang: string;
+  startedAt: number | null;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Turns the recognizer's finals into utterances: long ones are split with
+ * `splitSentences`, and a fragment is held for a moment so it can be merged
+ * with the next final. Every piece of text is emitted exactly once, in order.
+ *
+ * `startedAt` (when the speaker began talking) goes with the first segment of each push.
+ */
+export class FinalSegmenter {
+  private pending: PendingFragment | null = null;
+
+  constructor(
+    private onSegment: (text: string, startedAt: number | null) => void,
+    private mergeWindowMs = MERGE_WINDOW_MS
+  ) {}
+
+  push(text: string, lang: string, startedAt: number | null = null) {
+    let input = text.trim();
+    let firstStartedAt = startedAt;
+    if (this.pending) {
+      // A held fragment in another language (the conversation switched speaker) goes out on its own
+      if (this.pending.lang === lang) {
+        input = input ? joinSegments(this.pending.text, input, lang) : this.pending.text;
+        firstStartedAt = this.pending.startedAt ?? startedAt;
+        this.clearPending();
+      } else {
+        this.flush();
+      }
+    }
+
+    const segments = splitSentences(input, lang);
+    const last = segments.pop();
+    if (last === undefined) return;
+
+    segments.forEach((segment, i) => this.onSegment(segment, i === 0 ? firstStartedAt : null));
+    const lastStartedAt = segments.length === 0 ? firstStartedAt : null;
+    if (isFragment(last, lang)) {
+      this.pending = {
+        text: last,
+        lang,
+        startedAt: lastStartedAt,
+        timer: setTimeout(() => this.flush(), this.mergeWindowMs)
+      };
+    } else {
+      this.onSegment(last, lastStartedAt);
+    }
+  }
+
+  // Emits a held fragment right away (e.g. when the session stops)
+  flush() {
+    const pending = this.pending;
+    if (!pending) return;
+    this.clearPending();
+    this.onSegment(pending.text, pending.startedAt);
+  }
+
+  private clearPending() {
+    if (this.pending) clearTimeout(this.pending.timer);
+    this.pending = null;
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+    createDefaultSettings,
+    mergeSettings,
+    loadSettings,
+    saveSettings,
+    exportPresets,
+    importPresets,
+    presetFromUrl,
+    encodePreset,
+    presetUrl,
+    upsertPreset
+} from './settings';
+import { BackgroundMode, SettingsPreset, SubtitleAnimation, SubtitlePosition, TextStyle } from '../types';
+
+const preset = (name: string, overrides: object = {}): SettingsPreset => ({
+    name,
+    settings: { ...createDefaultSettings(), ...overrides }
+});
+
+describe('settings', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('should keep valid fields and ignore unknown or malformed ones', () => {
+        const merged = mergeSettings(createDefaultSettings(), {
+            bgMode: BackgroundMode.GREEN,
+            textStyle: 'sparkly',
+            outlineColor: 'red',
+            logLines: 6,
+            maxAgeSeconds: -5,
+            config: { targetLang: 'Korean', extraTargetLangs: 'French' },
+            somethingElse: true
+        });
+        expect(merged.bgMode).toBe(BackgroundMode.GREEN);
+        expect(merged.textStyle).toBe(TextStyle.OUTLINE);
+        expect(merged.outlineColor).toBe('#000000');
+        expect(merged.logLines).toBe(6);
+        expect(merged.maxAgeSeconds).toBe(30);
+        expect(merged.config).toMatchObject({ sourceLang: 'Japanese', targetLang: 'Korean', extraTargetLangs: [] });
+        expect(merged).not.toHaveProperty('somethingElse');
+    });
+
+    it('should merge theme fields one by one', () => {
+        const merged = mergeSettings(createDefaultSettings(), {
+            bgMode: BackgroundMode.CUSTOM,
+            theme: {
+                chromaColor: '#123abc',
+                sourceColor: '',
+                position: SubtitlePosition.TOP,
+                animation: SubtitleAnimation.SLIDE,
+                translationSize: 500,
+                maxWidth: 62.5,
+                align: 'diagonal'
+            }
+        });
+        expect(merged.bgMode).toBe(BackgroundMode.CUSTOM);
+        expect(merged.theme).toEqual({
+            ...createDefaultSettings().theme,
+            chromaColor: '#123abc',
+            position: SubtitlePosition.TOP,
+            animation: SubtitleAnimation.SLIDE
+        });
+        // Settings saved before themes existed get the default theme
+        expect(mergeSettings(createDefaultSettings(), { logLines: 5 }).theme).toEqual(createDefaultSettings().theme);
+    });
+
+    it('should survive a reload and a corrupt store', () => {
+        saveSettings({ ...createDefaultSettings(), bgMode: BackgroundMode.BLUE, isRawMode: true });
+        expect(loadSettings()).toMatchObject({ bgMode: BackgroundMode.BLUE, isRawMode: true });
+
+        localStorage.setItem('liveTranslator.settings', '{broken');
+        expect(loadSettings()).toEqual(createDefaultSettings());
+    });
+
+    it('should round-trip presets through an exported file', () => {
+        const presets = [preset('English stream'), preset('Samurai bit', { config: { ...createDefaultSettings().config, persona: 'samurai' } })];
+        expect(importPresets(exportPresets(presets))).toEqual(presets);
+        expect(importPresets(JSON.stringify(presets[0]))).toEqual([presets[0]]);
+        expect(() => importPresets('nope')).toThrow('JSON');
+        expect(() => importPresets('{"presets": []}')).toThrow('プリセット');
+    });
+
+    it('should load presets from the URL by name or fully encoded', () => {
+        const korean = preset('韓国語コラボ', { bgMode: BackgroundMode.MAGENTA });
+        const saved = [preset('English stream'), korean];
+
+        expect(presetFromUrl(`?preset=${encodeURIComponent('韓国語コラボ')}`, saved)).toEqual(korean);
+        expect(presetFromUrl(`?settings=${encodePreset(korean)}`, [])).toEqual(korean);
+        expect(presetFromUrl('?preset=missing', saved)).toBe(null);
+        expect(presetFromUrl('?settings=%%%', saved)).toBe(null);
+        expect(presetFromUrl('', saved)).toBe(null);
+    });
+
+    it('should build preset URLs that keep the path the app is served from', () => {
+        const korean = preset('韓国語コラボ');
+        window.history.pushState({}, '', '/translator/?preset=old');
+
+        const url = new URL(presetUrl(korean));
+
+        expect(url.pathname).toBe('/translator/');
+        expect(presetFromUrl(url.search, [])).toEqual(korean);
+        window.history.pushState({}, '', '/');
+    });
+
+    it('should replace presets with the same name', () => {
+        const updated = preset('English stream', { logLines: 8 });
+        expect(upsertPreset([preset('English stream'), preset('Other')], updated).map(p => p.settings.logLines)).toEqual([8, 4]);
+    });
+});
@@ -0,0 +1,203 @@
+import { AppSettings, BackgroundMode, ConversationMode, DisplayMode, FontFamily, Persona, RecognitionSource, SettingsPreset, SubtitleAlign, SubtitleAnimation, SubtitlePosition, SubtitleTheme, TextStyle, TranslationConfig, TtsSource } from '../types';
+import { THEME_RANGES, createDefaultTheme } from './theme';
+
+const SETTINGS_STORAGE_KEY = 'liveTranslator.settings';
+const PRESETS_STORAGE_KEY = 'liveTranslator.presets';
+
+// Bump if the exported file changes shape
+const PRESET_FILE_VERSION = 1;
+
+export const createDefaultSettings = (): AppSettings => ({
+  bgMode: BackgroundMode.NORMAL,
+  textStyle: TextStyle.OUTLINE,
+  outlineColor: '#000000',
+  sourceFont: FontFamily.DEFAULT,
+  targetFont: FontFamily.NOTO_SANS,
+  displayMode: DisplayMode.SINGLE,
+  logLines: 4,
+  maxAgeSeconds: 30,
+  theme: createDefaultTheme(),
+  config: {
+    sourceLang: 'Japanese',
+    targetLang: 'English',
+    extraTargetLangs: [],
+    persona: Persona.NONE,
+    conversationMode: ConversationMode.OFF,
+    // Firefox and many embedded browsers have no Web Speech API
+    recognitionSource: 'SpeechRecognition' in window || 'webkitSpeechRecognition' in window
+      ? RecognitionSource.BROWSER
+      : RecognitionSource.SERVER
+  },
+  isRawMode: false,
+  playAudio: false,
+  ttsSource: TtsSource.BROWSER,
+  ttsVoices: {}
+});
+
+type Check = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isString: Check = (value) => typeof value === 'string' && value.length > 0;
+const isBoolean: Check = (value) => typeof value === 'boolean';
+const isColor: Check = (value) => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+const isStringList: Check = (value) => Array.isArray(value) && value.every(isString);
+const isStringRecord: Check = (value) => isRecord(value) && Object.values(value).every(item => typeof item === 'string');
+const isOneOf = (values: object): Check => (value) => Object.values(values).includes(value);
+const isIntegerIn = (min: number, max: number): Check => (value) =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const isInRange = ({ min, max }: { min: number; max: number }) => isIntegerIn(min, max);
+
+const SETTINGS_CHECKS: Record<Exclude<keyof AppSettings, 'config' | 'theme'>, Check> = {
+  bgMode: isOneOf(BackgroundMode),
+  textStyle: isOneOf(TextStyle),
+  outlineColor: isColor,
+  sourceFont: isOneOf(FontFamily),
+  targetFont: isOneOf(FontFamily),
+  displayMode: isOneOf(DisplayMode),
+  logLines: isIntegerIn(1, 20),
+  maxAgeSeconds: isIntegerIn(0, 3600),
+  isRawMode: isBoolean,
+  playAudio: isBoolean,
+  ttsSource: isOneOf(TtsSource),
+  ttsVoices: isStringRecord
+};
+
+const CONFIG_CHECKS: Record<keyof TranslationConfig, Check> = {
+  sourceLang: isString,
+  targetLang: isString,
+  extraTargetLangs: isStringList,
+  persona: isString,
+  conversationMode: isOneOf(ConversationMode),
+  recognitionSource: isOneOf(RecognitionSource)
+};
+
+const THEME_CHECKS: Record<keyof SubtitleTheme, Check> = {
+  textColor: isColor,
+  sourceColor: (value) => value === '' || isColor(value),
+  strokeWidth: isInRange(THEME_RANGES.strokeWidth),
+  translationSize: isInRange(THEME_RANGES.translationSize),
+  sourceSize: isInRange(THEME_RANGES.sourceSize),
+  extraSize: isInRange(THEME_RANGES.extraSize),
+  align: isOneOf(SubtitleAlign),
+  position: isOneOf(SubtitlePosition),
+  maxWidth: isInRange(THEME_RANGES.maxWidth),
+  chromaColor: isColor,
+  animation: isOneOf(SubtitleAnimation)
+};
+
+const pickValid = <T extends object>(base: T, raw: unknown, checks: Record<string, Check>): T => {
+  const fields = isRecord(raw) ? raw : {};
+  return Object.fromEntries(
+    Object.entries(base).map(([key, value]) => [key, checks[key]?.(fields[key]) ? fields[key] : value])
+  ) as T;
+};
+
+/**
+ * Lays the valid fields of `raw` (storage, an imported file or a URL) over `base`.
+ * Unknown fields and values of the wrong type are ignored, so old or hand-edited
+ * settings never break the page.
+ */
+export function mergeSettings(base: AppSettings, raw: unknown): AppSettings {
+  if (!isRecord(raw)) return base;
+  const merged = pickValid(base, raw, SETTINGS_CHECKS);
+  return {
+    ...merged,
+    theme: pickValid(base.theme, raw.theme, THEME_CHECKS),
+    config: pickValid(base.config, raw.config, CONFIG_CHECKS)
+  };
+}
+
+const readStorage = (key: string): unknown => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+const writeStorage = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage full or disabled; settings then only last until the page is closed
+  }
+};
+
+export const loadSettings = (): AppSettings => mergeSettings(createDefaultSettings(), readStorage(SETTINGS_STORAGE_KEY));
+
+export const saveSettings = (settings: AppSettings) => writeStorage(SETTINGS_STORAGE_KEY, settings);
+
+const toPreset = (raw: unknown): SettingsPreset | null => {
+  if (!isRecord(raw)) return null;
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name || !isRecord(raw.settings)) return null;
+  return { name, settings: mergeSettings(createDefaultSettings(), raw.settings) };
+};
+
+const toPresetList = (raw: unknown): SettingsPreset[] =>
+  (Array.isArray(raw) ? raw : []).map(toPreset).filter((preset): preset is SettingsPreset => preset !== null);
+
+export const loadPresets = (): SettingsPreset[] => toPresetList(readStorage(PRESETS_STORAGE_KEY));
+
+export const savePresets = (presets: SettingsPreset[]) => writeStorage(PRESETS_STORAGE_KEY, presets);
+
+/**
+ * Adds `preset` to the list, replacing one with the same name.
+ */
+export const upsertPreset = (presets: SettingsPreset[], preset: SettingsPreset) => {
+  const index = presets.findIndex(p => p.name === preset.name);
+  return index === -1 ? [...presets, preset] : presets.map((p, i) => (i === index ? preset : p));
+};
+
+export const exportPresets = (presets: SettingsPreset[]) =>
+  JSON.stringify({ version: PRESET_FILE_VERSION, presets }, null, 2);
+
+/**
+ * Reads an exported file: the whole list, a bare array or a single preset.
+ */
+export function importPresets(json: string): SettingsPreset[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('プリセットファイルの形式が正しくありません (JSON ではありません)。');
+  }
+  const presets = toPresetList(Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.presets) ? raw.presets : [raw]);
+  if (presets.length === 0) {
+    throw new Error('プリセットファイルにプリセットが含まれていません。');
+  }
+  return presets;
+}
+
+// URL-safe base64 of the UTF-8 JSON, so names and languages in any script survive
+export const encodePreset = (preset: SettingsPreset) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(preset));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const decodePreset = (encoded: string): SettingsPreset | null => {
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    return toPreset(JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)))));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * `?settings=<encoded preset>` carries a whole preset (OBS browser sources have
+ * their own storage); `?preset=<name>` picks one saved in this browser.
+ */
+export function presetFromUrl(search: string, presets: SettingsPreset[]): SettingsPreset | null {
+  const params = new URLSearchParams(search);
+  const encoded = params.get('settings');
+  if (encoded) return decodePreset(encoded);
+  const name = params.get('preset');
+  return name ? presets.find(p => p.name === name) ?? null : null;
+}
+
+export const presetUrl = (preset: SettingsPreset, base = `${window.location.origin}${window.location.pathname}`) =>
+  `${base}?settings=${encodePreset(preset)}`;
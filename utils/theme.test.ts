@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { backgroundColor, enterAnimationClass, exitAnimationClass, outlineShadow } from './theme';
+import { BackgroundMode, SubtitleAnimation } from '../types';
+
+describe('theme', () => {
+    it('should draw an outline of the given width with a drop shadow', () => {
+        const shadow = outlineShadow('#000000', 2);
+        expect(shadow.split(', ')).toHaveLength(9);
+        expect(shadow).toContain('4px 4px 0 #000000');
+        expect(shadow).toContain('-2px 0px 0 #000000');
+        expect(outlineShadow('#000000', 0)).toBe('none');
+    });
+
+    it('should use the theme color for a custom chroma background', () => {
+        expect(backgroundColor(BackgroundMode.CUSTOM, '#123abc')).toBe('#123abc');
+        expect(backgroundColor(BackgroundMode.GREEN, '#123abc')).toBe('#00FF00');
+    });
+
+    it('should fade a typewriter line out but not in', () => {
+        expect(enterAnimationClass(SubtitleAnimation.TYPEWRITER)).toBe('');
+        expect(exitAnimationClass(SubtitleAnimation.TYPEWRITER)).toBe('subtitle-fade-out');
+        expect(enterAnimationClass(SubtitleAnimation.NONE)).toBe('');
+        expect(exitAnimationClass(SubtitleAnimation.NONE)).toBe('');
+    });
+});
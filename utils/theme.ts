@@ -0,0 +1,74 @@
+import { BackgroundMode, SubtitleAlign, SubtitleAnimation, SubtitlePosition, SubtitleTheme } from '../types';
+
+// Enter/exit animations (keyframes are in index.html)
+export const ANIMATION_MS = 300;
+export const TYPEWRITER_CHARS_PER_SECOND = 40;
+
+// The chat log stacks several utterances, so each line is drawn smaller
+export const LOG_SIZE_SCALE = 2 / 3;
+
+// Bounds of the numeric theme fields, shared by validation and the editor sliders
+export const THEME_RANGES = {
+  strokeWidth: { min: 0, max: 8 },
+  translationSize: { min: 16, max: 160 },
+  sourceSize: { min: 12, max: 120 },
+  extraSize: { min: 12, max: 120 },
+  maxWidth: { min: 30, max: 100 }
+};
+
+// Matches the look from before themes were configurable
+export const createDefaultTheme = (): SubtitleTheme => ({
+  textColor: '#ffffff',
+  sourceColor: '',
+  strokeWidth: 1,
+  translationSize: 72,
+  sourceSize: 36,
+  extraSize: 48,
+  align: SubtitleAlign.CENTER,
+  position: SubtitlePosition.BOTTOM,
+  maxWidth: 90,
+  chromaColor: '#00ff00',
+  animation: SubtitleAnimation.NONE
+});
+
+export const backgroundColor = (mode: BackgroundMode, chromaColor: string) => {
+  switch (mode) {
+    case BackgroundMode.GREEN: return '#00FF00';
+    case BackgroundMode.BLUE: return '#0000FF';
+    case BackgroundMode.MAGENTA: return '#FF00FF';
+    case BackgroundMode.CUSTOM: return chromaColor;
+    case BackgroundMode.TRANSPARENT: return 'transparent';
+    default: return '#111827'; // Tailwind gray-900
+  }
+};
+
+const OUTLINE_DIRECTIONS = [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]];
+
+/**
+ * CSS text-shadow for an outline `width` px thick, with a hard drop shadow to the lower right.
+ */
+export function outlineShadow(color: string, width: number) {
+  if (width <= 0) return 'none';
+  const drop = `${width + 2}px ${width + 2}px 0 ${color}`;
+  const ring = OUTLINE_DIRECTIONS.map(([x, y]) => `${x * width}px ${y * width}px 0 ${color}`);
+  return [drop, ...ring].join(', ');
+}
+
+export const enterAnimationClass = (animation: SubtitleAnimation) => {
+  switch (animation) {
+    case SubtitleAnimation.FADE: return 'subtitle-fade-in';
+    case SubtitleAnimation.SLIDE: return 'subtitle-slide-in';
+    // Typewriter reveals the text itself rather than animating the line
+    default: return '';
+  }
+};
+
+export const exitAnimationClass = (animation: SubtitleAnimation) => {
+  switch (animation) {
+    case SubtitleAnimation.FADE:
+    case SubtitleAnimation.TYPEWRITER:
+      return 'subtitle-fade-out';
+    case SubtitleAnimation.SLIDE: return 'subtitle-slide-out';
+    default: return '';
+  }
+};
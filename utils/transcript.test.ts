@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { formatTimestamp, buildCues, toSrt, toVtt, toPlainText, toJson } from './transcript';
+import { TranscriptEntry } from '../types';
+
+const START = Date.UTC(2024, 0, 1, 12, 0, 0);
+
+const entry = (overrides: Partial<TranscriptEntry>): TranscriptEntry => ({
+    id: 'id',
+    startedAt: START,
+    finalizedAt: START,
+    translatedAt: START,
+    sourceText: '',
+    translation: null,
+    extraTranslations: {},
+    engine: 'gemini',
+    persona: 'none',
+    speaker: null,
+    sourceLang: 'Japanese',
+    targetLang: 'English',
+    latencyMs: 0,
+    ...overrides
+});
+
+const entries = [
+    entry({ id: 'a', startedAt: START + 1000, finalizedAt: START + 2500, translatedAt: START + 3000, sourceText: 'こんにちは', translation: 'Hello', extraTranslations: { Korean: '안녕하세요' } }),
+    entry({ id: 'b', startedAt: START + 4000, finalizedAt: START + 5000, translatedAt: null, sourceText: 'さようなら', translation: null, engine: null, latencyMs: null }),
+];
+
+describe('transcript export', () => {
+    it('formats timestamps for SRT and WebVTT', () => {
+        expect(formatTimestamp(3723456)).toBe('01:02:03,456');
+        expect(formatTimestamp(3723456, '.')).toBe('01:02:03.456');
+        expect(formatTimestamp(-50)).toBe('00:00:00,000');
+    });
+
+    it('ends a cue before the next one starts and falls back to the source text', () => {
+        const cues = buildCues(entries, START);
+        expect(cues[0]).toEqual({ start: 1000, end: 4000, text: 'Hello' });
+        expect(cues[1]).toEqual({ start: 4000, end: 8000, text: 'さようなら' });
+    });
+
+    it('renders SRT and WebVTT', () => {
+        expect(toSrt(entries, START)).toBe(
+            '1\n00:00:01,000 --> 00:00:04,000\nHello\n\n' +
+            '2\n00:00:04,000 --> 00:00:08,000\nさようなら\n'
+        );
+        expect(toVtt(entries, START)).toBe(
+            'WEBVTT\n\n' +
+            '00:00:01.000 --> 00:00:04.000\nHello\n\n' +
+            '00:00:04.000 --> 00:00:08.000\nさようなら\n'
+        );
+    });
+
+    it('renders plain text and JSON', () => {
+        expect(toPlainText(entries, START)).toBe('[00:00:01] こんにちは\n→ Hello\n→ [Korean] 안녕하세요\n\n[00:00:04] さようなら\n');
+
+        const json = JSON.parse(toJson(entries, START));
+        expect(json.sessionStartedAt).toBe('2024-01-01T12:00:00.000Z');
+        expect(json.entries[0]).toMatchObject({ id: 'a', offsetMs: 1000, engine: 'gemini', latencyMs: 0 });
+    });
+});
@@ -0,0 +1,105 @@
+import { TranscriptEntry, TranscriptFormat } from '../types';
+
+// A cue stays on screen at least this long, and at most this long after its translation arrived
+const MIN_CUE_MS = 1000;
+const CUE_LINGER_MS = 3000;
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+export function formatTimestamp(ms: number, separator: ',' | '.' = ','): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+}
+
+/**
+ * Cue times are relative to the session start. A cue starts when the speaker began
+ * talking (first interim result) and ends shortly after the translation appeared,
+ * but never overlaps the next cue.
+ */
+export function buildCues(entries: TranscriptEntry[], sessionStartedAt: number): Cue[] {
+  return entries.map((entry, i) => {
+    const start = entry.startedAt - sessionStartedAt;
+    const shownAt = (entry.translatedAt ?? entry.finalizedAt) - sessionStartedAt;
+    let end = Math.max(shownAt + CUE_LINGER_MS, start + MIN_CUE_MS);
+
+    const next = entries[i + 1];
+    if (next) {
+      end = Math.min(end, Math.max(next.startedAt - sessionStartedAt, start + MIN_CUE_MS));
+    }
+
+    return { start, end, text: entry.translation ?? entry.sourceText };
+  });
+}
+
+export function toSrt(entries: TranscriptEntry[], sessionStartedAt: number): string {
+  return buildCues(entries, sessionStartedAt)
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${cue.text}\n`)
+    .join('\n');
+}
+
+export function toVtt(entries: TranscriptEntry[], sessionStartedAt: number): string {
+  const cues = buildCues(entries, sessionStartedAt)
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`);
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+export function toPlainText(entries: TranscriptEntry[], sessionStartedAt: number): string {
+  return entries
+    .map(entry => {
+      const time = formatTimestamp(entry.startedAt - sessionStartedAt).slice(0, 8);
+      const lines = [`[${time}] ${entry.sourceText}`];
+      if (entry.translation !== null && entry.translation !== entry.sourceText) {
+        lines.push(`→ ${entry.translation}`);
+      }
+      Object.entries(entry.extraTranslations).forEach(([lang, text]) => lines.push(`→ [${lang}] ${text}`));
+      return lines.join('\n');
+    })
+    .join('\n\n') + '\n';
+}
+
+export function toJson(entries: TranscriptEntry[], sessionStartedAt: number): string {
+  return JSON.stringify({
+    sessionStartedAt: new Date(sessionStartedAt).toISOString(),
+    entries: entries.map(entry => ({
+      ...entry,
+      offsetMs: entry.startedAt - sessionStartedAt
+    }))
+  }, null, 2);
+}
+
+const formatters: Record<TranscriptFormat, { render: typeof toSrt; mimeType: string }> = {
+  srt: { render: toSrt, mimeType: 'application/x-subrip' },
+  vtt: { render: toVtt, mimeType: 'text/vtt' },
+  txt: { render: toPlainText, mimeType: 'text/plain' },
+  json: { render: toJson, mimeType: 'application/json' },
+};
+
+export function renderTranscript(format: TranscriptFormat, entries: TranscriptEntry[], sessionStartedAt: number): string {
+  return formatters[format].render(entries, sessionStartedAt);
+}
+
+export function downloadTranscript(format: TranscriptFormat, entries: TranscriptEntry[], sessionStartedAt: number) {
+  const { mimeType } = formatters[format];
+  const blob = new Blob([renderTranscript(format, entries, sessionStartedAt)], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+
+  const d = new Date(sessionStartedAt);
+  const stamp = `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `transcript-${stamp}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}